@@ -1,12 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { CreateAnimationRequest, AnimationResponse, AnimationsListResponse } from '@/types/did';
-import { getApiConfig } from '@/lib/utils/env';
+import { getServerSecrets } from '@/lib/utils/env';
 
 const D_ID_API_BASE = 'https://api.d-id.com';
 
 export async function POST(request: NextRequest) {
   try {
-    const config = getApiConfig();
+    const config = getServerSecrets('didApiKey');
     const body: CreateAnimationRequest = await request.json();
 
     // Validate required fields
@@ -53,7 +53,7 @@ export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const animationId = searchParams.get('id');
-    const config = getApiConfig();
+    const config = getServerSecrets('didApiKey');
 
     if (animationId) {
       // Get specific animation
@@ -117,7 +117,7 @@ export async function DELETE(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const animationId = searchParams.get('id');
-    const config = getApiConfig();
+    const config = getServerSecrets('didApiKey');
 
     if (!animationId) {
       return NextResponse.json(
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ChatMessage, OpenAIRequest } from '@/types/conversation';
+import { getServerSecrets } from '@/lib/utils/env';
+import { requireBrowserSession } from '@/lib/utils/requestGuard';
+import { OPENAI_CONFIG, PROXY_CONFIG } from '@/lib/utils/constants';
+
+export const dynamic = 'force-dynamic';
+
+const OPENAI_CHAT_URL = 'https://api.openai.com/v1/chat/completions';
+const ROLES: ChatMessage['role'][] = ['system', 'user', 'assistant'];
+
+/**
+ * Keeps only well-formed messages, stripping any extra fields the browser sent.
+ * Long histories are trimmed to the most recent messages, keeping the system prompt.
+ */
+function parseMessages(value: unknown): ChatMessage[] | null {
+  if (!Array.isArray(value) || value.length === 0) {
+    return null;
+  }
+
+  const messages: ChatMessage[] = [];
+  for (const item of value) {
+    if (
+      !item ||
+      !ROLES.includes(item.role) ||
+      typeof item.content !== 'string' ||
+      item.content.length > PROXY_CONFIG.maxMessageLength
+    ) {
+      return null;
+    }
+    messages.push({ role: item.role, content: item.content });
+  }
+
+  if (messages.length <= PROXY_CONFIG.maxMessages) return messages;
+
+  const system = messages.filter(message => message.role === 'system').slice(0, 1);
+  const history = messages.filter(message => message.role !== 'system');
+  return [...system, ...history.slice(-(PROXY_CONFIG.maxMessages - system.length))];
+}
+
+/**
+ * Proxies chat completions to OpenAI, returning OpenAI's own response
+ * (JSON or SSE stream) so OpenAIClient parses it unchanged
+ */
+export async function POST(request: NextRequest) {
+  const browserSessionId = await requireBrowserSession(request);
+  if (typeof browserSessionId !== 'string') return browserSessionId;
+
+  try {
+    const secrets = getServerSecrets('openaiApiKey');
+    let body: Record<string, unknown> | null;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+
+    const messages = parseMessages(body?.messages);
+    if (!messages) {
+      return NextResponse.json(
+        { error: 'Invalid messages' },
+        { status: 400 }
+      );
+    }
+
+    const stream = body?.stream === true;
+    const openaiRequest: OpenAIRequest = {
+      model: OPENAI_CONFIG.model,
+      messages,
+      temperature: OPENAI_CONFIG.temperature,
+      ...(stream && { stream: true }),
+    };
+
+    const response = await fetch(OPENAI_CHAT_URL, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${secrets.openaiApiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(openaiRequest),
+      // Stop generating (and billing) if the browser goes away
+      signal: request.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      console.error('OpenAI API error:', response.status);
+      return NextResponse.json(
+        { error: 'OpenAI request failed' },
+        { status: response.status }
+      );
+    }
+
+    return new Response(response.body, {
+      headers: {
+        'Content-Type': stream ? 'text/event-stream' : 'application/json',
+        'Cache-Control': 'no-cache, no-transform',
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  } catch (error) {
+    if (request.signal.aborted) {
+      return new Response(null, { status: 499 });
+    }
+
+    console.error('Error proxying chat completion:', error);
+    return NextResponse.json(
+      { error: 'Failed to get chat completion' },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRelaySession, RelayListener } from '@/lib/services/didRelay';
+import { RELAY_CONFIG } from '@/lib/utils/constants';
+import { StreamMessage } from '@/types/did';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ sessionId: string }>;
+}
+
+async function authorize(request: NextRequest, context: RouteContext) {
+  const { sessionId } = await context.params;
+  const token = request.cookies.get(RELAY_CONFIG.cookieName)?.value;
+  return getRelaySession(sessionId, token);
+}
+
+function notFound() {
+  return NextResponse.json(
+    { error: 'Relay session not found' },
+    { status: 404 }
+  );
+}
+
+/**
+ * Streams upstream D-ID messages to the browser as Server-Sent Events
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  const session = await authorize(request, context);
+  if (!session) return notFound();
+
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+
+      const heartbeat = setInterval(() => write(': keep-alive\n\n'), RELAY_CONFIG.heartbeatInterval);
+
+      const finish = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        session.detach(listener);
+        controller.close();
+      };
+
+      const listener: RelayListener = {
+        onMessage: (data) => write(`data: ${data.replace(/\n/g, '\ndata: ')}\n\n`),
+        onClose: (code, reason) => {
+          write(`event: close\ndata: ${JSON.stringify({ code, reason })}\n\n`);
+          finish();
+        },
+      };
+
+      request.signal.addEventListener('abort', finish);
+
+      // Flush headers right away so EventSource fires onopen
+      write(': connected\n\n');
+      session.attach(listener);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
+
+/**
+ * Forwards one signaling message from the browser to D-ID
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  const session = await authorize(request, context);
+  if (!session) return notFound();
+
+  try {
+    const body = await request.text();
+    if (body.length > RELAY_CONFIG.maxMessageBytes) {
+      return NextResponse.json(
+        { error: 'Message too large' },
+        { status: 413 }
+      );
+    }
+
+    const message: StreamMessage = JSON.parse(body);
+    const error = session.forward(message);
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error forwarding relay message:', error);
+    return NextResponse.json(
+      { error: 'Invalid message' },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * Closes the upstream connection for a session
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const session = await authorize(request, context);
+  if (!session) return notFound();
+
+  session.close();
+  return NextResponse.json({ success: true });
+}
\ No newline at end of file
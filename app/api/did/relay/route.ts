@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRelaySession } from '@/lib/services/didRelay';
+import { RELAY_CONFIG } from '@/lib/utils/constants';
+import { requireBrowserSession } from '@/lib/utils/requestGuard';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  const browserSessionId = await requireBrowserSession(request);
+  if (typeof browserSessionId !== 'string') return browserSessionId;
+
+  try {
+    const session = await createRelaySession(browserSessionId);
+
+    const response = NextResponse.json({ sessionId: session.id });
+
+    // Scoped to the session path so each session only ever sees its own token
+    response.cookies.set(RELAY_CONFIG.cookieName, session.getToken(), {
+      httpOnly: true,
+      sameSite: 'strict',
+      secure: process.env.NODE_ENV === 'production',
+      path: `/api/did/relay/${session.id}`,
+      maxAge: RELAY_CONFIG.cookieMaxAge,
+    });
+
+    return response;
+  } catch (error) {
+    console.error('Error opening D-ID relay session:', error);
+    return NextResponse.json(
+      { error: 'Failed to open D-ID signaling session' },
+      { status: 502 }
+    );
+  }
+}
\ No newline at end of file
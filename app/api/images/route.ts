@@ -1,11 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getApiConfig } from '@/lib/utils/env';
+import { getServerSecrets } from '@/lib/utils/env';
 
 const D_ID_API_BASE = 'https://api.d-id.com';
 
 export async function POST(request: NextRequest) {
   try {
-    const config = getApiConfig();
+    const config = getServerSecrets('didApiKey');
     const formData = await request.formData();
     const file = formData.get('image') as File;
 
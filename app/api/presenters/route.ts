@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
 import { PresentersApiResponse } from '@/types/did';
-import { getApiConfig } from '@/lib/utils/env';
+import { getServerSecrets } from '@/lib/utils/env';
 
 // Cache for presenters data (5 minutes)
 let presentersCache: {
@@ -22,7 +22,7 @@ export async function GET() {
     }
 
     // Get D-ID API key from environment
-    const config = getApiConfig();
+    const config = getServerSecrets('didApiKey');
 
     // Fetch presenters from D-ID API
     const response = await fetch('https://api.d-id.com/clips/presenters?limit=100', {
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DeepgramResponse } from '@/types/conversation';
+import { getServerSecrets } from '@/lib/utils/env';
+import { requireBrowserSession } from '@/lib/utils/requestGuard';
+import { DEEPGRAM_CONFIG, PROXY_CONFIG } from '@/lib/utils/constants';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Reads the request body, giving up as soon as it grows past maxBytes
+ * @returns the body, or null if it is too large
+ */
+async function readBody(request: NextRequest, maxBytes: number): Promise<Uint8Array<ArrayBuffer> | null> {
+  if (Number(request.headers.get('content-length')) > maxBytes) return null;
+  if (!request.body) return new Uint8Array(0);
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+}
+
+/**
+ * Proxies an audio blob to Deepgram and returns Deepgram's response shape
+ */
+export async function POST(request: NextRequest) {
+  const browserSessionId = await requireBrowserSession(request);
+  if (typeof browserSessionId !== 'string') return browserSessionId;
+
+  try {
+    const secrets = getServerSecrets('deepgramApiKey');
+
+    const contentType = request.headers.get('content-type') || '';
+    if (!contentType.startsWith('audio/')) {
+      return NextResponse.json(
+        { error: 'Expected an audio body' },
+        { status: 415 }
+      );
+    }
+
+    const audio = await readBody(request, PROXY_CONFIG.maxAudioBytes);
+    if (!audio || audio.byteLength === 0) {
+      return NextResponse.json(
+        { error: 'Audio is empty or too large' },
+        { status: 413 }
+      );
+    }
+
+    const response = await fetch(
+      `https://api.deepgram.com/v1/listen?model=${DEEPGRAM_CONFIG.model}&smart_format=${DEEPGRAM_CONFIG.smart_format}&language=es`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Token ${secrets.deepgramApiKey}`,
+          'Content-Type': contentType,
+        },
+        body: audio,
+      }
+    );
+
+    if (!response.ok) {
+      // Upstream auth/billing statuses mean nothing to the browser
+      console.error('Deepgram API error:', response.status);
+      return NextResponse.json(
+        { error: 'Transcription failed' },
+        { status: 502 }
+      );
+    }
+
+    const data: DeepgramResponse = await response.json();
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error transcribing audio:', error);
+    return NextResponse.json(
+      { error: 'Failed to transcribe audio' },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
@@ -2,11 +2,15 @@ import { NextRequest, NextResponse } from 'next/server';
 import { promises as fs } from 'fs';
 import path from 'path';
 import crypto from 'crypto';
+import { getServerSecrets } from '@/lib/utils/env';
+import { AUDIO_SCRIPT_CONFIG } from '@/lib/utils/constants';
 
 const UPLOAD_DIR = '/tmp/uploads';
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
 const ALLOWED_VIDEO_TYPES = ['video/mp4', 'video/quicktime', 'video/webm'];
+const ALLOWED_AUDIO_TYPES: readonly string[] = AUDIO_SCRIPT_CONFIG.acceptedTypes;
+const D_ID_API_BASE = 'https://api.d-id.com';
 
 export async function POST(request: NextRequest) {
   try {
@@ -23,14 +27,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate file type
-    const fileType = file.type;
+    // Validate file type (recorded blobs carry codec parameters, e.g. audio/webm;codecs=opus)
+    const fileType = file.type.split(';')[0].trim();
     const isImage = ALLOWED_IMAGE_TYPES.includes(fileType);
     const isVideo = ALLOWED_VIDEO_TYPES.includes(fileType);
+    const isAudio = ALLOWED_AUDIO_TYPES.includes(fileType);
 
-    if (!isImage && !isVideo) {
+    if (!isImage && !isVideo && !isAudio) {
       return NextResponse.json(
-        { error: 'Invalid file type. Only images (JPEG, PNG, WebP) and videos (MP4, MOV, WebM) are allowed.' },
+        { error: 'Invalid file type. Only images (JPEG, PNG, WebP), videos (MP4, MOV, WebM) and audio (MP3, WAV, M4A, OGG, WebM) are allowed.' },
         { status: 400 }
       );
     }
@@ -43,6 +48,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Audio scripts are fetched by D-ID itself, so they go straight to D-ID's storage
+    if (isAudio) {
+      return uploadAudioToDid(file, fileType);
+    }
+
     // Generate unique filename
     const fileExtension = path.extname(file.name);
     const uniqueId = crypto.randomBytes(16).toString('hex');
@@ -85,6 +95,45 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * Uploads an audio clip to D-ID and returns a URL usable as a stream audio script
+ */
+async function uploadAudioToDid(file: File, mimeType: string) {
+  const config = getServerSecrets('didApiKey');
+
+  const didFormData = new FormData();
+  didFormData.append('audio', file);
+
+  const response = await fetch(`${D_ID_API_BASE}/audios`, {
+    method: 'POST',
+    headers: {
+      'accept': 'application/json',
+      'authorization': `Basic ${config.didApiKey}`,
+    },
+    body: didFormData,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error('D-ID API error:', errorData);
+    return NextResponse.json(
+      { error: errorData.message || 'Failed to upload audio to D-ID' },
+      { status: response.status }
+    );
+  }
+
+  const data: { id: string; url: string; duration?: number } = await response.json();
+
+  return NextResponse.json({
+    url: data.url,
+    fileName: file.name,
+    fileType: 'audio',
+    size: file.size,
+    mimeType,
+    duration: data.duration,
+  });
+}
+
 // Cleanup old files periodically (optional)
 export async function DELETE(request: NextRequest) {
   try {
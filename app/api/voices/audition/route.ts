@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSecrets } from '@/lib/utils/env';
+import { isRateLimited } from '@/lib/utils/rateLimit';
+import { requireBrowserSession } from '@/lib/utils/requestGuard';
+import { VOICE_AUDITION_CONFIG, VOICE_SETTINGS_CONFIG } from '@/lib/utils/constants';
+import { validateVoiceSettings } from '@/lib/utils/voice';
+import { VoiceSettings } from '@/types/did';
+
+export const dynamic = 'force-dynamic';
+
+interface AuditionRequest {
+  voiceId?: unknown;
+  modelId?: unknown;
+  text?: unknown;
+  settings?: VoiceSettings;
+}
+
+const VOICE_ID_PATTERN = /^[A-Za-z0-9]{1,64}$/;
+
+/**
+ * Synthesizes a short sample with an ElevenLabs voice so it can be auditioned
+ * before the presenter uses it. Other providers are billed through D-ID and
+ * cannot be previewed without a stream.
+ */
+export async function POST(request: NextRequest) {
+  const browserSessionId = await requireBrowserSession(request);
+  if (typeof browserSessionId !== 'string') return browserSessionId;
+
+  if (isRateLimited(`audition:${browserSessionId}`, VOICE_AUDITION_CONFIG.rateLimit, VOICE_AUDITION_CONFIG.rateLimitWindow)) {
+    return NextResponse.json(
+      { error: 'Too many auditions, try again in a minute' },
+      { status: 429 }
+    );
+  }
+
+  try {
+    const body: AuditionRequest = await request.json().catch(() => ({}));
+
+    if (typeof body.voiceId !== 'string' || !VOICE_ID_PATTERN.test(body.voiceId)) {
+      return NextResponse.json(
+        { error: 'A valid ElevenLabs voice id is required' },
+        { status: 400 }
+      );
+    }
+
+    const text = typeof body.text === 'string' && body.text.trim()
+      ? body.text.trim().slice(0, VOICE_AUDITION_CONFIG.maxTextLength)
+      : VOICE_AUDITION_CONFIG.sampleText;
+    const modelId = typeof body.modelId === 'string' && body.modelId ? body.modelId : undefined;
+
+    const settings = body.settings && typeof body.settings === 'object' ? body.settings : {};
+    const settingsErrors = validateVoiceSettings(settings);
+    if (settingsErrors.length > 0) {
+      return NextResponse.json(
+        { error: `Invalid voice settings: ${settingsErrors.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const secrets = getServerSecrets('elevenlabsApiKey');
+
+    const response = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${body.voiceId}`, {
+      method: 'POST',
+      headers: {
+        'xi-api-key': secrets.elevenlabsApiKey,
+        'Content-Type': 'application/json',
+        Accept: 'audio/mpeg',
+      },
+      body: JSON.stringify({
+        text,
+        model_id: modelId,
+        // stability and similarity_boost are required once voice_settings is sent
+        voice_settings: Object.keys(settings).length > 0 ? {
+          stability: settings.stability ?? VOICE_SETTINGS_CONFIG.stability.default,
+          similarity_boost: settings.similarityBoost ?? VOICE_SETTINGS_CONFIG.similarityBoost.default,
+          style: settings.style,
+          speed: settings.speed,
+          use_speaker_boost: settings.useSpeakerBoost,
+        } : undefined,
+      }),
+    });
+
+    if (!response.ok || !response.body) {
+      console.error('ElevenLabs API error:', response.status);
+      return NextResponse.json(
+        { error: 'Voice audition failed' },
+        { status: response.status === 404 ? 404 : 502 }
+      );
+    }
+
+    return new Response(response.body, {
+      headers: {
+        'Content-Type': response.headers.get('content-type') || 'audio/mpeg',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error auditioning voice:', error);
+    return NextResponse.json(
+      { error: 'Failed to audition voice' },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
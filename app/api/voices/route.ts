@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { ElevenLabsVoice, VoicesApiResponse } from '@/types/did';
+import { getServerSecrets } from '@/lib/utils/env';
+import { normalizeCatalogVoice } from '@/lib/utils/voice';
+import { VOICE_CATALOG_CONFIG } from '@/lib/utils/constants';
+
+// Cache for the ElevenLabs voice list
+let voicesCache: {
+  data: VoicesApiResponse | null;
+  timestamp: number;
+} = {
+  data: null,
+  timestamp: 0,
+};
+
+export async function GET() {
+  try {
+    // Check cache
+    const now = Date.now();
+    if (voicesCache.data && now - voicesCache.timestamp < VOICE_CATALOG_CONFIG.cacheDuration) {
+      return NextResponse.json(voicesCache.data);
+    }
+
+    const secrets = getServerSecrets('elevenlabsApiKey');
+
+    const response = await fetch('https://api.elevenlabs.io/v1/voices', {
+      headers: {
+        'accept': 'application/json',
+        'xi-api-key': secrets.elevenlabsApiKey,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`ElevenLabs API error: ${response.status}`);
+    }
+
+    const body: { voices?: ElevenLabsVoice[] } = await response.json();
+    const data: VoicesApiResponse = {
+      voices: (body.voices ?? [])
+        .map(normalizeCatalogVoice)
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    };
+
+    // Update cache
+    voicesCache = {
+      data,
+      timestamp: now,
+    };
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error fetching voices:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch voices' },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,197 @@
+'use client';
+
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { FileUploader } from './FileUploader';
+import { UploadService } from '@/lib/services/uploadService';
+import { AUDIO_SCRIPT_CONFIG } from '@/lib/utils/constants';
+
+interface AudioScriptPanelProps {
+  onClose: () => void;
+  onSend: (audioUrl: string, label: string) => Promise<unknown>;
+  isConnected: boolean;
+}
+
+/**
+ * Uploads or records a narration clip and has the presenter lip-sync to it
+ */
+export function AudioScriptPanel({ onClose, onSend, isConnected }: AudioScriptPanelProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordingMs, setRecordingMs] = useState(0);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const timerRef = useRef<NodeJS.Timeout | null>(null);
+
+  const selectFile = useCallback((selected: File) => {
+    setFile(selected);
+    setError(null);
+    setPreviewUrl(prev => {
+      if (prev) URL.revokeObjectURL(prev);
+      return URL.createObjectURL(selected);
+    });
+  }, []);
+
+  const stopRecording = useCallback(() => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+    if (recorderRef.current?.state === 'recording') {
+      recorderRef.current.stop();
+    }
+    recorderRef.current = null;
+    setIsRecording(false);
+  }, []);
+
+  const startRecording = async () => {
+    setError(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const mimeType = MediaRecorder.isTypeSupported('audio/webm') ? 'audio/webm' : '';
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      const chunks: Blob[] = [];
+
+      recorder.ondataavailable = (event: BlobEvent) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      recorder.onstop = () => {
+        stream.getTracks().forEach(track => track.stop());
+        const type = recorder.mimeType || 'audio/webm';
+        const extension = type.includes('mp4') ? 'm4a' : type.includes('ogg') ? 'ogg' : 'webm';
+        selectFile(new File(chunks, `narration-${Date.now()}.${extension}`, { type }));
+      };
+
+      recorder.start();
+      recorderRef.current = recorder;
+      setIsRecording(true);
+      setRecordingMs(0);
+
+      const startedAt = Date.now();
+      timerRef.current = setInterval(() => {
+        const elapsed = Date.now() - startedAt;
+        setRecordingMs(elapsed);
+        if (elapsed >= AUDIO_SCRIPT_CONFIG.maxRecordingDuration) stopRecording();
+      }, 250);
+    } catch (err) {
+      console.error('Failed to start narration recording:', err);
+      setError(err instanceof Error ? err.message : 'Microphone access denied');
+    }
+  };
+
+  const handleSend = async () => {
+    if (!file) return;
+    setSending(true);
+    setError(null);
+    try {
+      const upload = await UploadService.uploadAudio(file);
+      await onSend(upload.url, `🎙 ${file.name}`);
+      onClose();
+    } catch (err) {
+      console.error('Failed to send audio script:', err);
+      setError(err instanceof Error ? err.message : 'Failed to send audio');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  // Release the microphone and preview when the panel closes
+  useEffect(() => {
+    return () => stopRecording();
+  }, [stopRecording]);
+
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  const seconds = Math.floor(recordingMs / 1000);
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center z-50 p-4 animate-fade-in" style={{ background: 'rgba(12, 10, 9, 0.8)', backdropFilter: 'blur(8px)' }}>
+      <div
+        className="panel-float w-full max-w-lg overflow-hidden animate-scale-in"
+        style={{ opacity: 0, animationFillMode: 'forwards', animationDelay: '0.05s' }}
+      >
+        {/* Copper accent bar */}
+        <div className="h-0.5" style={{ background: 'linear-gradient(90deg, transparent, var(--copper), var(--copper-light), var(--copper), transparent)' }} />
+
+        <div className="p-6 space-y-5">
+          {/* Header */}
+          <div className="flex justify-between items-center">
+            <div>
+              <h2 className="font-display text-2xl" style={{ color: 'var(--text-primary)' }}>
+                Narrate Audio
+              </h2>
+              <p className="text-xs mt-1" style={{ color: 'var(--text-muted)' }}>
+                The presenter lip-syncs to your recording instead of a synthesized voice
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="w-8 h-8 rounded-lg flex items-center justify-center transition-colors hover:bg-white/5"
+              style={{ color: 'var(--text-muted)' }}
+            >
+              <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M18 6L6 18M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <FileUploader
+            onFileSelect={selectFile}
+            acceptedTypes={[...AUDIO_SCRIPT_CONFIG.acceptedTypes]}
+            maxSize={AUDIO_SCRIPT_CONFIG.maxSize}
+            typeLabel={AUDIO_SCRIPT_CONFIG.typeLabel}
+          />
+
+          {/* Record */}
+          <div className="flex items-center gap-3">
+            <button
+              onClick={isRecording ? stopRecording : startRecording}
+              disabled={sending}
+              className="btn-ghost flex items-center gap-2 !py-2"
+            >
+              <span
+                className={`w-2.5 h-2.5 rounded-full ${isRecording ? 'animate-pulse' : ''}`}
+                style={{ background: 'var(--danger)' }}
+              />
+              {isRecording ? 'Stop recording' : 'Record narration'}
+            </button>
+            {isRecording && (
+              <span className="text-xs font-mono" style={{ color: 'var(--text-tertiary)' }}>
+                {Math.floor(seconds / 60)}:{String(seconds % 60).padStart(2, '0')} / {AUDIO_SCRIPT_CONFIG.maxRecordingDuration / 60000}:00
+              </span>
+            )}
+          </div>
+
+          {/* Preview */}
+          {file && previewUrl && !isRecording && (
+            <div className="space-y-2">
+              <p className="text-xs truncate" style={{ color: 'var(--text-secondary)' }}>{file.name}</p>
+              <audio src={previewUrl} controls className="w-full" />
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 rounded-lg text-sm" style={{ background: 'var(--danger-muted)', border: '1px solid rgba(248, 113, 113, 0.2)', color: 'var(--danger)' }}>
+              {error}
+            </div>
+          )}
+
+          <button
+            onClick={handleSend}
+            disabled={!file || isRecording || sending || !isConnected}
+            className="btn-copper w-full !py-2.5"
+            title={isConnected ? undefined : 'Connect to the presenter first'}
+          >
+            {sending ? 'Uploading...' : 'Send to Presenter'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,127 @@
+'use client';
+
+import { CaptionSettings, CaptionFormat } from '@/types/captions';
+
+interface CaptionPanelProps {
+  settings: CaptionSettings;
+  onChange: (updates: Partial<CaptionSettings>) => void;
+  cueCount: number;
+  onExport: (format: CaptionFormat) => void;
+  onClearCues: () => void;
+  isAlignedToRecording: boolean; // exports are timed from the last session recording
+  onClose: () => void;
+}
+
+type OptionKey = Exclude<keyof CaptionSettings, 'enabled'>;
+type Option<K extends OptionKey> = { key: K; label: string; values: CaptionSettings[K][] };
+
+const OPTIONS: [Option<'size'>, Option<'position'>, Option<'contrast'>] = [
+  { key: 'size', label: 'Size', values: ['small', 'medium', 'large'] },
+  { key: 'position', label: 'Position', values: ['top', 'bottom'] },
+  { key: 'contrast', label: 'Contrast', values: ['standard', 'high'] },
+];
+
+/**
+ * Live caption appearance and WebVTT/SRT export of the session's captions
+ */
+export function CaptionPanel({
+  settings,
+  onChange,
+  cueCount,
+  onExport,
+  onClearCues,
+  isAlignedToRecording,
+  onClose,
+}: CaptionPanelProps) {
+  return (
+    <div className="fixed top-0 right-0 h-full w-full max-w-sm z-50 p-3 animate-fade-in">
+      <div className="panel-float h-full flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="flex justify-between items-center px-5 py-4" style={{ borderBottom: '1px solid var(--border-subtle)' }}>
+          <div>
+            <h2 className="font-display text-xl" style={{ color: 'var(--text-primary)' }}>
+              Captions
+            </h2>
+            <p className="text-xs mt-0.5" style={{ color: 'var(--text-muted)' }}>
+              Shows what the presenter is saying on the video
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 rounded-lg flex items-center justify-center transition-colors hover:bg-white/5"
+            style={{ color: 'var(--text-muted)' }}
+          >
+            <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M18 6L6 18M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar px-5 py-4 space-y-5">
+          <label className="flex items-center gap-2 text-sm" style={{ color: 'var(--text-secondary)' }}>
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(e) => onChange({ enabled: e.target.checked })}
+              style={{ accentColor: 'var(--copper)' }}
+            />
+            Show live captions
+          </label>
+
+          <div className="space-y-3" style={{ opacity: settings.enabled ? 1 : 0.4 }}>
+            {OPTIONS.map(({ key, label, values }) => (
+              <div key={key} className="flex items-center justify-between text-xs" style={{ color: 'var(--text-secondary)' }}>
+                <span className="font-medium">{label}</span>
+                <div className="flex gap-1.5">
+                  {values.map(value => (
+                    <button
+                      key={value}
+                      onClick={() => onChange({ [key]: value })}
+                      className={`tag !text-[10px] capitalize ${settings[key] === value ? 'tag-copper' : ''}`}
+                    >
+                      {value}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Export */}
+          <div className="space-y-3 pt-4" style={{ borderTop: '1px solid var(--border-subtle)' }}>
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-semibold" style={{ color: 'var(--text-primary)' }}>Session captions</h4>
+              <span className="text-xs font-mono" style={{ color: 'var(--text-muted)' }}>
+                {cueCount} cue{cueCount === 1 ? '' : 's'}
+              </span>
+            </div>
+            <p className="text-[11px]" style={{ color: 'var(--text-muted)' }}>
+              {isAlignedToRecording
+                ? 'Timed from the start of the last session recording, so the files line up with the video.'
+                : 'Timed from the first caption. Start a session recording to get captions aligned to the video.'}
+            </p>
+            <div className="flex gap-2">
+              {(['vtt', 'srt'] as const).map(format => (
+                <button
+                  key={format}
+                  onClick={() => onExport(format)}
+                  disabled={cueCount === 0}
+                  className="btn-ghost flex-1 !py-1.5 !text-xs disabled:opacity-30"
+                >
+                  {format === 'vtt' ? 'WebVTT' : 'SRT'}
+                </button>
+              ))}
+              <button
+                onClick={onClearCues}
+                disabled={cueCount === 0}
+                className="btn-ghost !px-3 !py-1.5 !text-xs disabled:opacity-30"
+              >
+                Clear
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
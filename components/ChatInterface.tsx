@@ -2,6 +2,7 @@
 
 import { useState, useCallback, useRef, useEffect, KeyboardEvent } from 'react';
 import { ChatMessage } from '@/types/conversation';
+import { SsmlEditor } from './SsmlEditor';
 
 interface ChatInterfaceProps {
   messages: ChatMessage[];
@@ -17,6 +18,7 @@ interface ChatInterfaceProps {
     handleRecordCancel: () => Promise<string | null>;
   };
   onVoiceTranscription?: (text: string) => void;
+  onSendScript?: (script: string) => void; // enables the SSML editor for scripted lines
 }
 
 export function ChatInterface({
@@ -27,16 +29,21 @@ export function ChatInterface({
   placeholder = "Type your message here...",
   voiceRecording,
   onVoiceTranscription,
+  onSendScript,
 }: ChatInterfaceProps) {
   const [inputValue, setInputValue] = useState('');
+  const [isScriptMode, setIsScriptMode] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
 
-  const displayMessages = messages.filter(msg => msg.role !== 'system');
+  // Empty assistant placeholders are shown as the "Thinking..." indicator instead
+  const displayMessages = messages.filter(msg => msg.role !== 'system' && !(msg.role === 'assistant' && !msg.content));
+  const lastMessage = messages[messages.length - 1];
+  const isReplyStreaming = isLoading && lastMessage?.role === 'assistant' && lastMessage.content.length > 0;
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [displayMessages.length, isLoading]);
+  }, [displayMessages.length, isLoading, lastMessage?.content]);
 
   const handleSend = useCallback(() => {
     const trimmedMessage = inputValue.trim();
@@ -112,12 +119,25 @@ export function ChatInterface({
                       backdropFilter: message.role === 'assistant' ? 'blur(8px)' : 'none',
                     }}
                   >
-                    <p className="leading-relaxed">{message.content}</p>
+                    <p className="leading-relaxed">
+                      {message.truncatedAt !== undefined ? (
+                        <>
+                          {message.content.slice(0, message.truncatedAt)}
+                          <span className="line-through" style={{ color: 'var(--text-muted)' }}>
+                            {message.content.slice(message.truncatedAt)}
+                          </span>
+                          <span className="tag tag-copper ml-1.5 align-middle">Interrupted</span>
+                        </>
+                      ) : message.content}
+                      {isReplyStreaming && index === displayMessages.length - 1 && (
+                        <span className="inline-block w-1 h-3 ml-0.5 align-middle animate-pulse" style={{ background: 'var(--copper)' }} />
+                      )}
+                    </p>
                   </div>
                 </div>
               ))}
 
-              {isLoading && (
+              {isLoading && !isReplyStreaming && (
                 <div className="flex justify-start animate-slide-up" style={{ opacity: 0, animationFillMode: 'forwards' }}>
                   <div className="rounded flex-shrink-0 mr-1.5 mt-0.5 flex items-center justify-center" style={{
                     background: 'var(--copper-glow)',
@@ -175,77 +195,93 @@ export function ChatInterface({
 
       {/* ── Input Section — pinned at bottom ── */}
       <div className="flex-shrink-0 pt-2.5 mt-1" style={{ borderTop: '1px solid var(--border-subtle)' }}>
-        <div className="flex gap-1.5">
-          <input
-            type="text"
-            value={inputValue}
-            onChange={(e) => setInputValue(e.target.value)}
-            onKeyDown={handleKeyPress}
-            placeholder={placeholder}
-            disabled={disabled || isLoading}
-            className="input-base flex-1 !text-xs !py-2 !px-3"
-          />
+        {onSendScript && (
+          <div className="flex justify-end mb-1.5">
+            <button
+              onClick={() => setIsScriptMode(!isScriptMode)}
+              className={`tag !text-[10px] ${isScriptMode ? 'tag-copper' : ''}`}
+              title={isScriptMode ? 'Back to chatting with the assistant' : 'Write a scripted line with SSML'}
+            >
+              {isScriptMode ? 'Chat' : 'SSML script'}
+            </button>
+          </div>
+        )}
+
+        {onSendScript && isScriptMode ? (
+          <SsmlEditor onSend={onSendScript} disabled={disabled} />
+        ) : (
+          <div className="flex gap-1.5">
+            <input
+              type="text"
+              value={inputValue}
+              onChange={(e) => setInputValue(e.target.value)}
+              onKeyDown={handleKeyPress}
+              placeholder={placeholder}
+              disabled={disabled || isLoading}
+              className="input-base flex-1 !text-xs !py-2 !px-3"
+            />
 
-          {/* Voice Button */}
-          {voiceRecording && (
+            {/* Voice Button */}
+            {voiceRecording && (
+              <button
+                onMouseDown={handleVoiceStart}
+                onMouseUp={handleVoiceStop}
+                onMouseLeave={handleVoiceCancel}
+                onTouchStart={handleVoiceStart}
+                onTouchEnd={handleVoiceStop}
+                disabled={disabled || voiceRecording.isProcessing}
+                className="w-9 h-9 rounded-lg flex items-center justify-center flex-shrink-0 transition-all duration-200"
+                style={{
+                  background: voiceRecording.isRecording
+                    ? 'var(--danger-muted)'
+                    : 'rgba(255, 255, 255, 0.03)',
+                  border: voiceRecording.isRecording
+                    ? '1px solid rgba(248, 113, 113, 0.3)'
+                    : '1px solid var(--border-subtle)',
+                  color: voiceRecording.isRecording
+                    ? 'var(--danger)'
+                    : voiceRecording.isProcessing
+                      ? 'var(--text-muted)'
+                      : 'var(--text-secondary)',
+                  cursor: disabled || voiceRecording.isProcessing ? 'not-allowed' : 'pointer',
+                  opacity: disabled || voiceRecording.isProcessing ? 0.4 : 1,
+                  animation: voiceRecording.isRecording ? 'pulse-copper 1.5s ease-in-out infinite' : 'none',
+                }}
+              >
+                {voiceRecording.isProcessing ? (
+                  <div className="w-3.5 h-3.5 rounded-full animate-spin" style={{
+                    border: '2px solid var(--border-subtle)',
+                    borderTopColor: 'var(--copper)',
+                  }} />
+                ) : voiceRecording.isRecording ? (
+                  <div className="w-2.5 h-2.5 rounded-sm" style={{ background: 'var(--danger)' }} />
+                ) : (
+                  <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 24 24">
+                    <path d="M12 14c1.66 0 2.99-1.34 2.99-3L15 5c0-1.66-1.34-3-3-3S9 3.34 9 5v6c0 1.66 1.34 3 3 3zm5.3-3c0 3-2.54 5.1-5.3 5.1S6.7 14 6.7 11H5c0 3.41 2.72 6.23 6 6.72V21h2v-3.28c3.28-.48 6-3.3 6-6.72h-1.7z" />
+                  </svg>
+                )}
+              </button>
+            )}
+
+            {/* Send Button */}
             <button
-              onMouseDown={handleVoiceStart}
-              onMouseUp={handleVoiceStop}
-              onMouseLeave={handleVoiceCancel}
-              onTouchStart={handleVoiceStart}
-              onTouchEnd={handleVoiceStop}
-              disabled={disabled || voiceRecording.isProcessing}
-              className="w-9 h-9 rounded-lg flex items-center justify-center flex-shrink-0 transition-all duration-200"
-              style={{
-                background: voiceRecording.isRecording
-                  ? 'var(--danger-muted)'
-                  : 'rgba(255, 255, 255, 0.03)',
-                border: voiceRecording.isRecording
-                  ? '1px solid rgba(248, 113, 113, 0.3)'
-                  : '1px solid var(--border-subtle)',
-                color: voiceRecording.isRecording
-                  ? 'var(--danger)'
-                  : voiceRecording.isProcessing
-                    ? 'var(--text-muted)'
-                    : 'var(--text-secondary)',
-                cursor: disabled || voiceRecording.isProcessing ? 'not-allowed' : 'pointer',
-                opacity: disabled || voiceRecording.isProcessing ? 0.4 : 1,
-                animation: voiceRecording.isRecording ? 'pulse-copper 1.5s ease-in-out infinite' : 'none',
-              }}
+              onClick={handleSend}
+              disabled={!inputValue.trim() || disabled || isLoading}
+              className="btn-copper w-9 h-9 !p-0 flex items-center justify-center flex-shrink-0"
             >
-              {voiceRecording.isProcessing ? (
+              {isLoading ? (
                 <div className="w-3.5 h-3.5 rounded-full animate-spin" style={{
-                  border: '2px solid var(--border-subtle)',
-                  borderTopColor: 'var(--copper)',
+                  border: '2px solid rgba(12, 10, 9, 0.3)',
+                  borderTopColor: 'var(--bg-primary)',
                 }} />
-              ) : voiceRecording.isRecording ? (
-                <div className="w-2.5 h-2.5 rounded-sm" style={{ background: 'var(--danger)' }} />
               ) : (
-                <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 24 24">
-                  <path d="M12 14c1.66 0 2.99-1.34 2.99-3L15 5c0-1.66-1.34-3-3-3S9 3.34 9 5v6c0 1.66 1.34 3 3 3zm5.3-3c0 3-2.54 5.1-5.3 5.1S6.7 14 6.7 11H5c0 3.41 2.72 6.23 6 6.72V21h2v-3.28c3.28-.48 6-3.3 6-6.72h-1.7z" />
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
                 </svg>
               )}
             </button>
-          )}
-
-          {/* Send Button */}
-          <button
-            onClick={handleSend}
-            disabled={!inputValue.trim() || disabled || isLoading}
-            className="btn-copper w-9 h-9 !p-0 flex items-center justify-center flex-shrink-0"
-          >
-            {isLoading ? (
-              <div className="w-3.5 h-3.5 rounded-full animate-spin" style={{
-                border: '2px solid rgba(12, 10, 9, 0.3)',
-                borderTopColor: 'var(--bg-primary)',
-              }} />
-            ) : (
-              <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
-              </svg>
-            )}
-          </button>
-        </div>
+          </div>
+        )}
 
         {/* Voice recording indicator */}
         {voiceRecording?.isRecording && (
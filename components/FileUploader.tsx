@@ -6,6 +6,7 @@ interface FileUploaderProps {
   onFileSelect: (file: File) => void;
   acceptedTypes?: string[];
   maxSize?: number;
+  typeLabel?: string; // human-readable list of acceptedTypes
   className?: string;
 }
 
@@ -13,6 +14,7 @@ export function FileUploader({
   onFileSelect,
   acceptedTypes = ['image/jpeg', 'image/png', 'image/webp', 'video/mp4', 'video/quicktime', 'video/webm'],
   maxSize = 10 * 1024 * 1024,
+  typeLabel = 'JPEG, PNG, WebP, MP4, MOV, WebM',
   className = '',
 }: FileUploaderProps) {
   const [isDragging, setIsDragging] = useState(false);
@@ -21,7 +23,7 @@ export function FileUploader({
   const validateFile = useCallback((file: File): boolean => {
     setError(null);
     if (!acceptedTypes.includes(file.type)) {
-      setError('Invalid file type. Please upload an image (JPEG, PNG, WebP) or video (MP4, MOV, WebM).');
+      setError(`Invalid file type. Please upload one of: ${typeLabel}.`);
       return false;
     }
     if (file.size > maxSize) {
@@ -29,7 +31,7 @@ export function FileUploader({
       return false;
     }
     return true;
-  }, [acceptedTypes, maxSize]);
+  }, [acceptedTypes, maxSize, typeLabel]);
 
   const handleFile = useCallback((file: File) => {
     if (validateFile(file)) onFileSelect(file);
@@ -85,7 +87,7 @@ export function FileUploader({
             or click to browse
           </p>
           <p className="text-xs mt-2" style={{ color: 'var(--text-muted)' }}>
-            JPEG, PNG, WebP, MP4, MOV, WebM &middot; Max {maxSize / 1024 / 1024}MB
+            {typeLabel} &middot; Max {maxSize / 1024 / 1024}MB
           </p>
         </div>
       </div>
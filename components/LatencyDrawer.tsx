@@ -0,0 +1,159 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { latencyTracker, getStageDuration } from '@/lib/services/latencyTracker';
+import { LATENCY_CONFIG, LATENCY_STAGES } from '@/lib/utils/constants';
+import { LatencyTurn } from '@/types/latency';
+
+interface LatencyDrawerProps {
+  onClose: () => void;
+}
+
+// One colour per stage, in LATENCY_STAGES order
+const STAGE_COLORS = ['#60A5FA', 'var(--copper)', 'var(--copper-light)', 'var(--warning)', '#A78BFA', 'var(--success)', 'var(--text-tertiary)'];
+
+function formatMs(ms: number | null): string {
+  if (ms === null) return '—';
+  return ms >= 1000 ? `${(ms / 1000).toFixed(2)}s` : `${Math.round(ms)}ms`;
+}
+
+/**
+ * Time from the turn start to its last mark, used to scale the waterfall
+ */
+function getTurnSpan(turn: LatencyTurn): number {
+  const marks = Object.values(turn.marks);
+  return marks.length > 0 ? Math.max(...marks) - turn.startedAt : 0;
+}
+
+/**
+ * Debug drawer with per-stage session percentiles and a waterfall of the latest turns
+ */
+export function LatencyDrawer({ onClose }: LatencyDrawerProps) {
+  const [turns, setTurns] = useState<LatencyTurn[]>(() => latencyTracker.getTurns());
+
+  useEffect(() => latencyTracker.on('change', setTurns), []);
+
+  // Recomputed from the tracker whenever its turns change
+  const stats = latencyTracker.getStageStats();
+  const recentTurns = turns.slice(-LATENCY_CONFIG.waterfallTurns).reverse();
+  const scale = Math.max(1, ...recentTurns.map(getTurnSpan));
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(latencyTracker.export(), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `latency-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  return (
+    <div className="fixed top-0 right-0 h-full w-full max-w-md z-50 p-3 animate-fade-in">
+      <div className="panel-float h-full flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="flex justify-between items-center px-5 py-4" style={{ borderBottom: '1px solid var(--border-subtle)' }}>
+          <div>
+            <h2 className="font-display text-xl" style={{ color: 'var(--text-primary)' }}>
+              Latency
+            </h2>
+            <p className="text-xs mt-0.5" style={{ color: 'var(--text-muted)' }}>
+              {turns.length} turn{turns.length === 1 ? '' : 's'} this session
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleExport}
+              disabled={turns.length === 0}
+              className="btn-ghost !px-3 !py-1.5 !text-xs disabled:opacity-30"
+            >
+              Export JSON
+            </button>
+            <button
+              onClick={() => latencyTracker.clear()}
+              disabled={turns.length === 0}
+              className="btn-ghost !px-3 !py-1.5 !text-xs disabled:opacity-30"
+            >
+              Clear
+            </button>
+            <button
+              onClick={onClose}
+              className="w-8 h-8 rounded-lg flex items-center justify-center transition-colors hover:bg-white/5"
+              style={{ color: 'var(--text-muted)' }}
+            >
+              <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M18 6L6 18M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar px-5 py-4 space-y-6">
+          {/* Session percentiles */}
+          <table className="w-full text-xs">
+            <thead>
+              <tr style={{ color: 'var(--text-muted)' }}>
+                <th className="text-left font-normal pb-2">Stage</th>
+                <th className="text-right font-normal pb-2">n</th>
+                <th className="text-right font-normal pb-2">p50</th>
+                <th className="text-right font-normal pb-2">p95</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stats.map(({ stage, count, p50, p95 }, index) => (
+                <tr key={stage.id} style={{ color: 'var(--text-secondary)' }}>
+                  <td className="py-1">
+                    <span className="inline-block w-2 h-2 rounded-sm mr-2" style={{ background: STAGE_COLORS[index % STAGE_COLORS.length] }} />
+                    {stage.label}
+                  </td>
+                  <td className="py-1 text-right font-mono" style={{ color: 'var(--text-tertiary)' }}>{count}</td>
+                  <td className="py-1 text-right font-mono">{formatMs(p50)}</td>
+                  <td className="py-1 text-right font-mono">{formatMs(p95)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {/* Waterfall per turn, newest first, all on the same time scale */}
+          <div className="space-y-4">
+            {recentTurns.length === 0 && (
+              <p className="text-xs text-center py-6" style={{ color: 'var(--text-muted)' }}>
+                Send a message to record a turn
+              </p>
+            )}
+            {recentTurns.map(turn => (
+              <div key={turn.id} className="space-y-1">
+                <div className="flex justify-between text-[11px]" style={{ color: 'var(--text-tertiary)' }}>
+                  <span>
+                    {turn.id} · {turn.source}
+                  </span>
+                  <span className="font-mono">{formatMs(getTurnSpan(turn))}</span>
+                </div>
+                {LATENCY_STAGES.map((stage, index) => {
+                  const duration = getStageDuration(turn, stage);
+                  if (duration === null) return null;
+                  const from = stage.from === 'start' ? turn.startedAt : turn.marks[stage.from] ?? turn.startedAt;
+                  const offset = from - turn.startedAt;
+
+                  return (
+                    <div key={stage.id} className="relative h-1.5 rounded-full" style={{ background: 'var(--border-subtle)' }}>
+                      <div
+                        className="absolute top-0 h-full rounded-full"
+                        title={`${stage.label}: ${formatMs(duration)}`}
+                        style={{
+                          left: `${(offset / scale) * 100}%`,
+                          width: `${Math.max(0.5, (duration / scale) * 100)}%`,
+                          background: STAGE_COLORS[index % STAGE_COLORS.length],
+                        }}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
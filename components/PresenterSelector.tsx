@@ -4,6 +4,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { ClipsPresenter } from '@/types/did';
 import { usePresenter } from '@/contexts/PresenterContext';
 import { AnimationService } from '@/lib/services/animationService';
+import { VoicePicker } from './VoicePicker';
 import Image from 'next/image';
 
 interface AnimationCache {
@@ -21,7 +22,7 @@ interface PresenterSelectorProps {
 
 export function PresenterSelector({ onClose }: PresenterSelectorProps) {
   const { serviceType, presenterConfig, setTalksMode, setClipsMode, resetToDefault } = usePresenter();
-  const [mode, setMode] = useState<'clips' | 'talks'>(serviceType);
+  const [mode, setMode] = useState<'clips' | 'talks' | 'voice'>(serviceType);
   const [presenters, setPresenters] = useState<ClipsPresenter[]>([]);
   const [hoveredId, setHoveredId] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
@@ -174,7 +175,7 @@ export function PresenterSelector({ onClose }: PresenterSelectorProps) {
                 Select Presenter
               </h2>
               <p className="text-xs mt-1" style={{ color: 'var(--text-muted)' }}>
-                Choose a presenter or upload a custom image
+                Choose a presenter, upload a custom image or pick a voice
               </p>
             </div>
             <button
@@ -190,7 +191,7 @@ export function PresenterSelector({ onClose }: PresenterSelectorProps) {
 
           {/* Mode Toggle */}
           <div className="flex gap-1 p-1 rounded-lg mb-6" style={{ background: 'var(--bg-primary)' }}>
-            {(['clips', 'talks'] as const).map((m) => (
+            {(['clips', 'talks', 'voice'] as const).map((m) => (
               <button
                 key={m}
                 onClick={() => setMode(m)}
@@ -207,7 +208,9 @@ export function PresenterSelector({ onClose }: PresenterSelectorProps) {
 
           {/* Content */}
           <div className="overflow-y-auto custom-scrollbar max-h-[calc(80vh-220px)]">
-            {mode === 'clips' ? (
+            {mode === 'voice' ? (
+              <VoicePicker />
+            ) : mode === 'clips' ? (
               <div>
                 {loading && (
                   <div className="text-center py-12">
@@ -0,0 +1,36 @@
+'use client';
+
+interface SparklineProps {
+  values: number[];
+  width?: number;
+  height?: number;
+  color?: string;
+}
+
+/**
+ * Tiny inline line chart scaled from zero to the largest value
+ */
+export function Sparkline({ values, width = 64, height = 16, color = 'var(--copper)' }: SparklineProps) {
+  if (values.length < 2) {
+    return <svg width={width} height={height} aria-hidden />;
+  }
+
+  const max = Math.max(...values) || 1;
+  const step = width / (values.length - 1);
+  const points = values
+    .map((value, i) => `${(i * step).toFixed(1)},${(height - 1 - (value / max) * (height - 2)).toFixed(1)}`)
+    .join(' ');
+
+  return (
+    <svg width={width} height={height} aria-hidden>
+      <polyline
+        points={points}
+        fill="none"
+        stroke={color}
+        strokeWidth={1.25}
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      />
+    </svg>
+  );
+}
\ No newline at end of file
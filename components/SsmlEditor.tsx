@@ -0,0 +1,136 @@
+'use client';
+
+import { useState, useRef, useMemo, KeyboardEvent } from 'react';
+import { sanitizeSsmlInput, validateSsml, stripSsml, ssmlTag } from '@/lib/utils/ssml';
+import { SSML_CONFIG } from '@/lib/utils/constants';
+
+interface SsmlEditorProps {
+  onSend: (script: string) => void;
+  disabled?: boolean;
+}
+
+interface ToolbarAction {
+  label: string;
+  title: string;
+  // Markup placed before and after the selection; null when cancelled
+  markup: () => [string, string] | null;
+}
+
+const TOOLBAR: ToolbarAction[] = [
+  { label: 'Pause', title: `Insert a ${SSML_CONFIG.defaultBreakMs}ms pause`, markup: () => [ssmlTag('break', { time: `${SSML_CONFIG.defaultBreakMs}ms` }, true), ''] },
+  { label: 'Emphasis', title: 'Stress the selection', markup: () => [ssmlTag('emphasis', { level: 'strong' }), '</emphasis>'] },
+  { label: 'Slower', title: 'Speak the selection slowly', markup: () => [ssmlTag('prosody', { rate: 'slow' }), '</prosody>'] },
+  { label: 'Faster', title: 'Speak the selection quickly', markup: () => [ssmlTag('prosody', { rate: 'fast' }), '</prosody>'] },
+  { label: 'Higher', title: 'Raise the pitch of the selection', markup: () => [ssmlTag('prosody', { pitch: '+10%' }), '</prosody>'] },
+  { label: 'Lower', title: 'Lower the pitch of the selection', markup: () => [ssmlTag('prosody', { pitch: '-10%' }), '</prosody>'] },
+  { label: 'Date', title: 'Read the selection as a day/month/year date', markup: () => [ssmlTag('say-as', { 'interpret-as': 'date', format: 'dmy' }), '</say-as>'] },
+  { label: 'Number', title: 'Read the selection as a number', markup: () => [ssmlTag('say-as', { 'interpret-as': 'cardinal' }), '</say-as>'] },
+  {
+    label: 'Phoneme',
+    title: 'Give the selection an IPA pronunciation',
+    markup: () => {
+      const ph = window.prompt('IPA pronunciation (e.g. ˈtomate)');
+      return ph?.trim() ? [ssmlTag('phoneme', { alphabet: 'ipa', ph: ph.trim() }), '</phoneme>'] : null;
+    },
+  },
+];
+
+/**
+ * Editor for scripted lines: toolbar buttons wrap the selection in SSML tags,
+ * and the script is validated as it is typed
+ */
+export function SsmlEditor({ onSend, disabled = false }: SsmlEditorProps) {
+  const [value, setValue] = useState('');
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const script = useMemo(() => sanitizeSsmlInput(value.trim()), [value]);
+  const errors = useMemo(() => validateSsml(script), [script]);
+  const spokenText = useMemo(() => stripSsml(script), [script]);
+  const canSend = !disabled && spokenText.length > 0 && errors.length === 0;
+
+  const applyAction = (action: ToolbarAction) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const markup = action.markup();
+    if (!markup) return;
+
+    const [before, after] = markup;
+    const { selectionStart, selectionEnd } = textarea;
+    const selected = value.slice(selectionStart, selectionEnd);
+    setValue(value.slice(0, selectionStart) + before + selected + after + value.slice(selectionEnd));
+
+    // Keep the wrapped text selected so actions can be stacked
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + before.length, selectionStart + before.length + selected.length);
+    });
+  };
+
+  const handleSend = () => {
+    if (!canSend) return;
+    onSend(script);
+    setValue('');
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+      event.preventDefault();
+      handleSend();
+    }
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex flex-wrap gap-1">
+        {TOOLBAR.map(action => (
+          <button
+            key={action.label}
+            onClick={() => applyAction(action)}
+            disabled={disabled}
+            title={action.title}
+            className="btn-ghost !px-2 !py-0.5 !text-[10px]"
+          >
+            {action.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-1.5">
+        <textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Scripted line, spoken exactly as written (Ctrl+Enter to send)"
+          disabled={disabled}
+          rows={3}
+          spellCheck={false}
+          className="input-base flex-1 !text-xs !py-2 !px-3 font-mono resize-none"
+        />
+        <button
+          onClick={handleSend}
+          disabled={!canSend}
+          className="btn-copper w-9 !p-0 flex items-center justify-center flex-shrink-0"
+          title="Speak this line"
+        >
+          <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
+          </svg>
+        </button>
+      </div>
+
+      {errors.length > 0 ? (
+        <ul className="text-[11px] space-y-0.5" style={{ color: 'var(--danger)' }}>
+          {errors.map((error, i) => (
+            <li key={i}>{error}</li>
+          ))}
+        </ul>
+      ) : spokenText && (
+        <p className="text-[11px] truncate" style={{ color: 'var(--text-muted)' }} title={spokenText}>
+          Speaks: {spokenText}
+        </p>
+      )}
+    </div>
+  );
+}
\ No newline at end of file
@@ -1,23 +1,70 @@
 'use client';
 
+import { useState } from 'react';
+import { ConnectionPhase, ConnectionTransition, StreamStats, ProtocolDiagnostics, MessageTimelineEntry } from '@/types/did';
+import { Sparkline } from './Sparkline';
+
 interface StatusPanelProps {
   connectionStatus: {
-    status: 'connecting' | 'connected' | 'disconnected' | 'error';
+    status: 'connecting' | 'reconnecting' | 'connected' | 'disconnected' | 'error';
     message: string;
   };
+  phase: ConnectionPhase;
+  transitions?: ConnectionTransition[];
   streamStatus: string;
   isVideoPlaying: boolean;
+  statsHistory?: StreamStats[];
+  protocol?: ProtocolDiagnostics;
+  timeline?: MessageTimelineEntry[];
+}
+
+const RECENT_TRANSITIONS = 8;
+const RECENT_MESSAGES = 8;
+
+const TIMELINE_STATUS_COLORS: Record<MessageTimelineEntry['status'], string> = {
+  sent: 'var(--text-muted)',
+  speaking: 'var(--copper)',
+  done: 'var(--text-secondary)',
+  error: 'var(--danger)',
+  interrupted: 'var(--text-tertiary)',
+};
+
+function formatBitrate(kbps: number): string {
+  return kbps >= 1000 ? `${(kbps / 1000).toFixed(1)} Mbps` : `${Math.round(kbps)} kbps`;
+}
+
+function MetricRow({ label, value, history }: { label: string; value: string; history?: number[] }) {
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <span className="text-[11px]" style={{ color: 'var(--text-muted)' }}>{label}</span>
+      <div className="flex items-center gap-2">
+        {history && <Sparkline values={history} />}
+        <span className="text-[11px] font-mono tabular-nums w-16 text-right" style={{ color: 'var(--text-secondary)' }}>
+          {value}
+        </span>
+      </div>
+    </div>
+  );
 }
 
 export function StatusPanel({
   connectionStatus,
+  phase,
+  transitions = [],
   streamStatus,
   isVideoPlaying,
+  statsHistory = [],
+  protocol,
+  timeline = [],
 }: StatusPanelProps) {
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const latest = statsHistory[statsHistory.length - 1];
+
   const getLedClass = (status: string) => {
     switch (status) {
       case 'connected': return 'led-green';
-      case 'connecting': return 'led-amber';
+      case 'connecting':
+      case 'reconnecting': return 'led-amber';
       case 'error': return 'led-red';
       default: return 'led-off';
     }
@@ -41,6 +88,12 @@ export function StatusPanel({
           </div>
         </div>
 
+        {/* State machine phase */}
+        <div className="flex items-center justify-between">
+          <span className="text-xs" style={{ color: 'var(--text-tertiary)' }}>State</span>
+          <span className={`tag ${phase === 'failed' ? 'tag-danger' : 'tag-copper'}`}>{phase}</span>
+        </div>
+
         {/* Video */}
         <div className="flex items-center justify-between">
           <span className="text-xs" style={{ color: 'var(--text-tertiary)' }}>Video</span>
@@ -61,6 +114,163 @@ export function StatusPanel({
         )}
       </div>
 
+      {/* Diagnostics */}
+      <div className="pt-2" style={{ borderTop: '1px solid var(--border-subtle)' }}>
+        <button
+          onClick={() => setShowDiagnostics(!showDiagnostics)}
+          className="w-full flex items-center justify-between text-xs transition-colors"
+          style={{ color: 'var(--text-tertiary)' }}
+        >
+          <span className="flex items-center gap-1.5">
+            Diagnostics
+            {protocol && protocol.unknownMessages + protocol.invalidMessages > 0 && (
+              <span className="tag tag-danger !text-[9px]" title="Signaling messages rejected by validation">
+                {protocol.unknownMessages + protocol.invalidMessages}
+              </span>
+            )}
+          </span>
+          <svg
+            className={`w-3 h-3 transition-transform ${showDiagnostics ? 'rotate-180' : ''}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </button>
+
+        {showDiagnostics && (
+          <div className="mt-2.5 space-y-3 animate-fade-in">
+            {!latest ? (
+              <p className="text-[11px]" style={{ color: 'var(--text-muted)' }}>No media stats yet</p>
+            ) : (
+              <>
+                <div className="space-y-1.5">
+                  <span className="text-[10px] font-semibold uppercase tracking-wider" style={{ color: 'var(--text-muted)' }}>Video</span>
+                  {latest.video ? (
+                    <>
+                      <MetricRow
+                        label="Bitrate"
+                        value={formatBitrate(latest.video.bitrate)}
+                        history={statsHistory.map(s => s.video?.bitrate ?? 0)}
+                      />
+                      <MetricRow
+                        label="Frame rate"
+                        value={`${Math.round(latest.video.frameRate)} fps`}
+                        history={statsHistory.map(s => s.video?.frameRate ?? 0)}
+                      />
+                      <MetricRow label="Resolution" value={`${latest.video.width}×${latest.video.height}`} />
+                      <MetricRow
+                        label="Jitter"
+                        value={`${latest.video.jitter.toFixed(1)} ms`}
+                        history={statsHistory.map(s => s.video?.jitter ?? 0)}
+                      />
+                      <MetricRow label="Packet loss" value={`${latest.video.packetLoss.toFixed(1)}%`} />
+                      <MetricRow label="Freezes" value={String(latest.video.freezeCount)} />
+                    </>
+                  ) : (
+                    <p className="text-[11px]" style={{ color: 'var(--text-muted)' }}>No video track</p>
+                  )}
+                </div>
+
+                <div className="space-y-1.5">
+                  <span className="text-[10px] font-semibold uppercase tracking-wider" style={{ color: 'var(--text-muted)' }}>Audio</span>
+                  {latest.audio ? (
+                    <>
+                      <MetricRow
+                        label="Bitrate"
+                        value={formatBitrate(latest.audio.bitrate)}
+                        history={statsHistory.map(s => s.audio?.bitrate ?? 0)}
+                      />
+                      <MetricRow label="Jitter" value={`${latest.audio.jitter.toFixed(1)} ms`} />
+                      <MetricRow label="Packet loss" value={`${latest.audio.packetLoss.toFixed(1)}%`} />
+                    </>
+                  ) : (
+                    <p className="text-[11px]" style={{ color: 'var(--text-muted)' }}>No audio track</p>
+                  )}
+                </div>
+
+                <div className="space-y-1.5">
+                  <span className="text-[10px] font-semibold uppercase tracking-wider" style={{ color: 'var(--text-muted)' }}>Network</span>
+                  <MetricRow
+                    label="Round trip"
+                    value={latest.roundTripTime !== null ? `${Math.round(latest.roundTripTime)} ms` : '—'}
+                    history={statsHistory.map(s => s.roundTripTime ?? 0)}
+                  />
+                </div>
+              </>
+            )}
+
+            {timeline.length > 0 && (
+              <div className="space-y-1">
+                <span className="text-[10px] font-semibold uppercase tracking-wider" style={{ color: 'var(--text-muted)' }}>Utterances</span>
+                <ul className="space-y-0.5 max-h-32 overflow-y-auto custom-scrollbar">
+                  {timeline.slice(-RECENT_MESSAGES).reverse().map((entry) => (
+                    <li
+                      key={entry.id}
+                      className="flex items-center justify-between gap-2 text-[10px] font-mono"
+                      title={`${entry.videoId ?? 'no video id'} · sent ${new Date(entry.sentAt).toLocaleTimeString()}`}
+                    >
+                      <span className="truncate" style={{ color: 'var(--text-secondary)' }}>
+                        {entry.utteranceId ?? entry.kind} #{entry.messageIndex}
+                      </span>
+                      <span className="flex-shrink-0 tabular-nums" style={{ color: TIMELINE_STATUS_COLORS[entry.status] }}>
+                        {entry.startedAt !== null ? `${entry.startedAt - entry.sentAt}ms` : '—'}
+                        {' · '}
+                        {entry.duration !== null ? `${(entry.duration / 1000).toFixed(1)}s` : entry.status}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {protocol && (
+              <div className="space-y-1.5">
+                <span className="text-[10px] font-semibold uppercase tracking-wider" style={{ color: 'var(--text-muted)' }}>Signaling</span>
+                <MetricRow label="Unknown messages" value={String(protocol.unknownMessages)} />
+                <MetricRow label="Invalid messages" value={String(protocol.invalidMessages)} />
+                {protocol.recentErrors.length > 0 && (
+                  <ul className="space-y-0.5 max-h-24 overflow-y-auto custom-scrollbar">
+                    {protocol.recentErrors.slice().reverse().map((error, i) => (
+                      <li
+                        key={`${error.timestamp}-${i}`}
+                        className="text-[10px] font-mono truncate"
+                        style={{ color: 'var(--danger)' }}
+                        title={error.raw}
+                      >
+                        {error.messageType ?? error.kind}: {error.reason}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {transitions.length > 0 && (
+              <div className="space-y-1">
+                <span className="text-[10px] font-semibold uppercase tracking-wider" style={{ color: 'var(--text-muted)' }}>Transitions</span>
+                <ul className="space-y-0.5 max-h-32 overflow-y-auto custom-scrollbar">
+                  {transitions.slice(-RECENT_TRANSITIONS).reverse().map((transition) => (
+                    <li
+                      key={`${transition.timestamp}-${transition.from}-${transition.to}`}
+                      className="text-[10px] font-mono truncate"
+                      style={{ color: 'var(--text-secondary)' }}
+                      title={transition.reason}
+                    >
+                      <span style={{ color: 'var(--text-muted)' }}>
+                        {new Date(transition.timestamp).toLocaleTimeString()}
+                      </span>{' '}
+                      {transition.from} → {transition.to}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
       {connectionStatus.status === 'error' && (
         <div className="mt-2 p-3 rounded-lg text-xs" style={{ background: 'var(--danger-muted)', border: '1px solid rgba(248, 113, 113, 0.15)', color: 'var(--danger)' }}>
           {connectionStatus.message}
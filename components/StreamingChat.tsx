@@ -1,16 +1,37 @@
 'use client';
 
-import { useCallback, useEffect, useState, useMemo } from 'react';
-import { VideoDisplay } from './VideoDisplay';
+import { useCallback, useEffect, useState, useMemo, useRef } from 'react';
+import { VideoDisplay, VideoDisplayHandle } from './VideoDisplay';
 import { ChatInterface } from './ChatInterface';
 import { ErrorBoundary } from './ErrorBoundary';
 import { PresenterSelector } from './PresenterSelector';
+import { AudioScriptPanel } from './AudioScriptPanel';
+import { UtteranceQueue } from './UtteranceQueue';
+import { StatusPanel } from './StatusPanel';
+import { LatencyDrawer } from './LatencyDrawer';
+import { VirtualBackgroundPanel } from './VirtualBackgroundPanel';
+import { CaptionPanel } from './CaptionPanel';
 import { useDidStreaming } from '@/hooks/useDidStreaming';
 import { useVoiceRecording } from '@/hooks/useVoiceRecording';
 import { useConversation } from '@/hooks/useConversation';
+import { useSessionRecording } from '@/hooks/useSessionRecording';
+import { useVirtualBackground } from '@/hooks/useVirtualBackground';
+import { useCaptions } from '@/hooks/useCaptions';
+import { usePresenter } from '@/contexts/PresenterContext';
 import { DeepgramClient } from '@/lib/services/deepgramClient';
 import { OpenAIClient } from '@/lib/services/openaiClient';
+import { latencyTracker } from '@/lib/services/latencyTracker';
 import { getApiConfig } from '@/lib/utils/env';
+import { SentenceSegmenter } from '@/lib/utils/sentenceSegmenter';
+import { BARGE_IN_CONFIG, RECORDING_CONFIG } from '@/lib/utils/constants';
+
+/**
+ * Formats a duration as m:ss for the recording timer
+ */
+function formatElapsed(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+}
 
 export function StreamingChat() {
   const [clients, setClients] = useState<{
@@ -21,13 +42,17 @@ export function StreamingChat() {
   const [initError, setInitError] = useState<string | null>(null);
   const [isInterfaceOpen, setIsInterfaceOpen] = useState(true);
   const [showPresenterSelector, setShowPresenterSelector] = useState(false);
+  const [showAudioPanel, setShowAudioPanel] = useState(false);
+  const [showLatencyDrawer, setShowLatencyDrawer] = useState(false);
+  const [showBackgroundPanel, setShowBackgroundPanel] = useState(false);
+  const [showCaptionPanel, setShowCaptionPanel] = useState(false);
 
   useEffect(() => {
     try {
       const config = getApiConfig();
       setClients({
-        deepgram: new DeepgramClient(config.deepgramApiKey),
-        openai: new OpenAIClient(config.openaiApiKey),
+        deepgram: new DeepgramClient(config.deepgramApiKey, config.apiMode),
+        openai: new OpenAIClient(config.openaiApiKey, config.apiMode),
       });
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to initialize';
@@ -47,23 +72,109 @@ export function StreamingChat() {
   }, [clients.deepgram, clients.openai]);
 
   const streaming = useDidStreaming(config);
-  const voiceRecording = useVoiceRecording(clients.deepgram);
+  const { serviceType } = usePresenter();
   const conversation = useConversation(clients.openai);
+  const replyUtteranceRef = useRef<string | null>(null);
+
+  const { interrupt } = streaming;
+  const { truncateLastReply } = conversation;
+
+  /**
+   * Stops the presenter and records in the history how much of the reply was heard
+   */
+  const handleInterrupt = useCallback(() => {
+    const { cutUtteranceId, spokenChunks, droppedIds } = interrupt();
+    const latestReply = replyUtteranceRef.current;
+    if (!latestReply) return;
+
+    if (cutUtteranceId === latestReply) {
+      truncateLastReply(spokenChunks);
+    } else if (droppedIds.includes(latestReply)) {
+      truncateLastReply([]);
+    }
+  }, [interrupt, truncateLastReply]);
+
+  const videoDisplayRef = useRef<VideoDisplayHandle>(null);
+  const getVideoLayers = useCallback(() => videoDisplayRef.current?.getVisibleLayers() ?? [], []);
+  const sessionRecording = useSessionRecording(getVideoLayers, streaming.streamVideo);
+  const virtualBackground = useVirtualBackground();
+  const captions = useCaptions(streaming.timeline);
+  const { isRecording: isSessionRecording, addAudioStream } = sessionRecording;
+
+  const handleVoiceRecordingStart = useCallback(() => {
+    if (BARGE_IN_CONFIG.onRecordingStart) {
+      handleInterrupt();
+    }
+    // Put the user's side of the conversation in the session recording too
+    const micStream = clients.deepgram?.getStream();
+    if (RECORDING_CONFIG.includeMicrophone && isSessionRecording && micStream) {
+      addAudioStream(micStream);
+    }
+  }, [handleInterrupt, clients.deepgram, isSessionRecording, addAudioStream]);
+
+  const voiceRecording = useVoiceRecording(clients.deepgram, {
+    onRecordingStart: handleVoiceRecordingStart,
+  });
+
+  const { error: sessionRecordingError, clearError: clearSessionRecordingError } = sessionRecording;
+  useEffect(() => {
+    if (sessionRecordingError) {
+      alert(sessionRecordingError);
+      clearSessionRecordingError();
+    }
+  }, [sessionRecordingError, clearSessionRecordingError]);
 
   const handleSendMessage = useCallback(async (userMessage: string) => {
     if (!streaming.isReady()) {
       alert('Please connect to the streaming service first');
       return;
     }
+    if (BARGE_IN_CONFIG.onNewMessage) {
+      handleInterrupt();
+    }
+
+    // Voice turns were opened when the recording stopped
+    const turnId = latencyTracker.getPendingTurnId() ?? latencyTracker.startTurn('text');
+    latencyTracker.mark('message-sent', turnId);
+
+    let utteranceId: string | null = null;
     try {
-      const assistantResponse = await conversation.sendMessage(userMessage);
-      await streaming.sendTextMessage(assistantResponse);
+      // Speak the reply sentence by sentence as tokens arrive
+      utteranceId = streaming.beginStreamedMessage();
+      replyUtteranceRef.current = utteranceId;
+      latencyTracker.attachUtterance(turnId, utteranceId);
+      const segmenter = new SentenceSegmenter();
+      const id = utteranceId;
+
+      await conversation.sendMessageStreaming(userMessage, (token) => {
+        segmenter.push(token).forEach(chunk => streaming.appendToMessage(id, chunk));
+      });
+
+      const rest = segmenter.flush();
+      if (rest) streaming.appendToMessage(id, rest);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       alert(errorMessage);
       console.error('Failed to send message:', error);
+    } finally {
+      if (utteranceId) streaming.endStreamedMessage(utteranceId);
     }
-  }, [streaming, conversation]);
+  }, [streaming, conversation, handleInterrupt]);
+
+  // Scripted lines are spoken as written, without going through the assistant
+  const handleSendScript = useCallback(async (script: string) => {
+    if (!streaming.isReady()) {
+      alert('Please connect to the streaming service first');
+      return;
+    }
+    try {
+      await streaming.sendTextMessage(script, { ssml: true });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      alert(errorMessage);
+      console.error('Failed to send script:', error);
+    }
+  }, [streaming]);
 
   const handleVoiceTranscription = useCallback((transcription: string) => {
     console.log('Voice transcription:', transcription);
@@ -79,6 +190,7 @@ export function StreamingChat() {
     return {
       isConnected: status.status === 'connected',
       isConnecting: status.status === 'connecting',
+      isReconnecting: status.status === 'reconnecting',
       statusText: status.message,
     };
   };
@@ -136,10 +248,18 @@ export function StreamingChat() {
         {/* ═══ Video Background ═══ */}
         <div className="absolute inset-0">
           <VideoDisplay
+            ref={videoDisplayRef}
             streamVideo={streaming.streamVideo}
+            previousStreamVideo={streaming.presenterSwitch?.previousStream ?? null}
+            holdStreamVideo={streaming.presenterSwitch !== null}
             idleVideoSrc={streaming.idleVideoSrc}
             isVideoPlaying={streaming.isVideoPlaying}
             isStreamReady={streaming.getConnectionStatus().status === 'connected'}
+            isMuted={streaming.isInterrupted}
+            audioOnlyMessage={streaming.videoFallback?.message ?? null}
+            virtualBackground={virtualBackground.settings}
+            caption={captions.caption}
+            captionSettings={captions.settings}
           />
         </div>
 
@@ -172,7 +292,7 @@ export function StreamingChat() {
 
               {/* Status LED */}
               <div className="flex items-center gap-2 ml-4">
-                <div className={`led-indicator ${connectionStatus.isConnected ? 'led-green' : connectionStatus.isConnecting ? 'led-amber' : 'led-off'}`} />
+                <div className={`led-indicator ${connectionStatus.isConnected ? 'led-green' : connectionStatus.isConnecting || connectionStatus.isReconnecting ? 'led-amber' : 'led-off'}`} />
                 <span className="text-xs font-medium" style={{ color: 'var(--text-tertiary)' }}>
                   {connectionStatus.statusText}
                 </span>
@@ -188,10 +308,83 @@ export function StreamingChat() {
                 </div>
               )}
 
+              {/* Session recording */}
+              <button
+                onClick={() => sessionRecording.isRecording
+                  ? sessionRecording.stopRecording(conversation.messages, captions.cues)
+                  : sessionRecording.startRecording()}
+                className="btn-ghost flex items-center gap-1.5 !px-3 !py-1.5 !text-xs"
+                title={sessionRecording.isRecording ? 'Stop and download the recording' : 'Record this session'}
+              >
+                <span
+                  className={`w-2 h-2 rounded-full ${sessionRecording.isRecording ? 'animate-pulse' : ''}`}
+                  style={{ background: sessionRecording.isRecording ? 'var(--danger)' : 'var(--text-muted)' }}
+                />
+                {sessionRecording.isRecording ? formatElapsed(sessionRecording.elapsedMs) : 'Rec'}
+              </button>
+
+              {/* Stop (barge-in) button */}
+              {(streaming.activeUtteranceId || streaming.queue.length > 0) && (
+                <button
+                  onClick={handleInterrupt}
+                  className="btn-ghost flex items-center gap-1.5 !px-3 !py-1.5 !text-xs animate-fade-in"
+                  title="Stop the presenter"
+                >
+                  <div className="w-2.5 h-2.5 rounded-sm" style={{ background: 'var(--danger)' }} />
+                  Stop
+                </button>
+              )}
+
+              {/* Audio script button */}
+              <button
+                onClick={() => setShowAudioPanel(true)}
+                disabled={!connectionStatus.isConnected}
+                className="btn-ghost flex items-center gap-1.5 !px-3 !py-1.5 !text-xs disabled:opacity-30"
+                title="Have the presenter lip-sync to an audio clip"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3" />
+                </svg>
+                Audio
+              </button>
+
+              {/* Captions */}
+              <button
+                onClick={() => setShowCaptionPanel(prev => !prev)}
+                className={`btn-ghost flex items-center gap-1.5 !px-3 !py-1.5 !text-xs ${captions.settings.enabled ? '!border-[var(--copper)]' : ''}`}
+                title="Live captions and caption export"
+              >
+                <span className="font-mono font-semibold text-[10px]">CC</span>
+              </button>
+
+              {/* Virtual background */}
+              <button
+                onClick={() => setShowBackgroundPanel(prev => !prev)}
+                className={`btn-ghost flex items-center gap-1.5 !px-3 !py-1.5 !text-xs ${virtualBackground.settings.mode !== 'off' ? '!border-[var(--copper)]' : ''}`}
+                title="Replace the presenter's background"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                </svg>
+                Background
+              </button>
+
+              {/* Latency debug drawer */}
+              <button
+                onClick={() => setShowLatencyDrawer(prev => !prev)}
+                className="btn-ghost flex items-center gap-1.5 !px-3 !py-1.5 !text-xs"
+                title="Pipeline latency per turn"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                Latency
+              </button>
+
               {/* Presenter button */}
               <button
                 onClick={() => setShowPresenterSelector(true)}
-                disabled={connectionStatus.isConnected || connectionStatus.isConnecting}
+                disabled={connectionStatus.isConnecting || connectionStatus.isReconnecting}
                 className="btn-ghost flex items-center gap-1.5 !px-3 !py-1.5 !text-xs disabled:opacity-30"
               >
                 <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -201,11 +394,14 @@ export function StreamingChat() {
               </button>
 
               {/* Connect / Disconnect */}
-              {!connectionStatus.isConnected ? (
+              {!connectionStatus.isConnected && !connectionStatus.isReconnecting ? (
                 <button
                   onClick={streaming.connect}
                   disabled={connectionStatus.isConnecting}
                   className="btn-copper flex items-center gap-1.5 !text-xs"
+                  title={streaming.prewarmStatus === 'ready'
+                    ? 'Stream is ready and connects instantly'
+                    : streaming.prewarmStatus === 'warming' ? 'Preparing the stream in the background' : undefined}
                 >
                   {connectionStatus.isConnecting ? (
                     <>
@@ -221,6 +417,12 @@ export function StreamingChat() {
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M13 10V3L4 14h7v7l9-11h-7z" />
                       </svg>
                       Connect
+                      {streaming.prewarmStatus !== 'idle' && (
+                        <span
+                          className={`w-1.5 h-1.5 rounded-full ${streaming.prewarmStatus === 'warming' ? 'animate-pulse' : ''}`}
+                          style={{ background: streaming.prewarmStatus === 'ready' ? 'var(--success)' : 'var(--bg-primary)' }}
+                        />
+                      )}
                     </>
                   )}
                 </button>
@@ -242,6 +444,20 @@ export function StreamingChat() {
           {/* ── Spacer (pushes chat to bottom) ── */}
           <div className="flex-1" />
 
+          {/* ── Status & Diagnostics (bottom-left) ── */}
+          <div className="fixed left-4 bottom-4 z-20 w-[260px] animate-fade-in">
+            <StatusPanel
+              connectionStatus={streaming.getConnectionStatus()}
+              phase={streaming.connectionState.phase}
+              transitions={streaming.transitions}
+              streamStatus={streaming.streamStatus}
+              isVideoPlaying={streaming.isVideoPlaying}
+              statsHistory={streaming.statsHistory}
+              protocol={streaming.protocol}
+              timeline={streaming.timeline}
+            />
+          </div>
+
           {/* ── Right-side Floating Chat Panel ── */}
           {/* Collapsed toggle — bottom-right corner */}
           {!isInterfaceOpen && (
@@ -311,6 +527,13 @@ export function StreamingChat() {
                 </div>
               </div>
 
+              {/* Pending utterances */}
+              <UtteranceQueue
+                queue={streaming.queue}
+                onCancel={streaming.cancelQueuedMessage}
+                onClear={streaming.clearQueue}
+              />
+
               {/* Chat content — fills remaining space */}
               <div className="flex-1 min-h-0 px-3.5 pb-3.5 pt-0">
                 <ChatInterface
@@ -321,6 +544,7 @@ export function StreamingChat() {
                   placeholder={streaming.isReady() ? "Type a message..." : "Connect to start"}
                   voiceRecording={voiceRecording}
                   onVoiceTranscription={handleVoiceTranscription}
+                  onSendScript={serviceType === 'clips' ? handleSendScript : undefined}
                 />
               </div>
             </div>
@@ -384,6 +608,43 @@ export function StreamingChat() {
         {showPresenterSelector && (
           <PresenterSelector onClose={() => setShowPresenterSelector(false)} />
         )}
+
+        {/* ═══ Audio Script Modal ═══ */}
+        {showAudioPanel && (
+          <AudioScriptPanel
+            onClose={() => setShowAudioPanel(false)}
+            onSend={streaming.sendAudioMessage}
+            isConnected={connectionStatus.isConnected}
+          />
+        )}
+
+        {/* ═══ Virtual Background Panel ═══ */}
+        {showBackgroundPanel && (
+          <VirtualBackgroundPanel
+            settings={virtualBackground.settings}
+            onChange={virtualBackground.updateSettings}
+            onReset={virtualBackground.resetSettings}
+            onClose={() => setShowBackgroundPanel(false)}
+          />
+        )}
+
+        {/* ═══ Caption Panel ═══ */}
+        {showCaptionPanel && (
+          <CaptionPanel
+            settings={captions.settings}
+            onChange={captions.updateSettings}
+            cueCount={captions.cues.length}
+            onExport={(format) => captions.exportCaptions(format, sessionRecording.startedAt ?? undefined)}
+            onClearCues={captions.clearCues}
+            isAlignedToRecording={sessionRecording.startedAt !== null}
+            onClose={() => setShowCaptionPanel(false)}
+          />
+        )}
+
+        {/* ═══ Latency Drawer ═══ */}
+        {showLatencyDrawer && (
+          <LatencyDrawer onClose={() => setShowLatencyDrawer(false)} />
+        )}
       </div>
     </ErrorBoundary>
   );
@@ -0,0 +1,57 @@
+'use client';
+
+import { QueuedUtterance } from '@/hooks/useDidStreaming';
+
+interface UtteranceQueueProps {
+  queue: QueuedUtterance[];
+  onCancel: (id: string) => void;
+  onClear: () => void;
+}
+
+export function UtteranceQueue({ queue, onCancel, onClear }: UtteranceQueueProps) {
+  if (queue.length === 0) return null;
+
+  return (
+    <div className="px-3.5 py-2 flex-shrink-0 animate-fade-in" style={{ borderBottom: '1px solid var(--border-subtle)' }}>
+      <div className="flex items-center justify-between mb-1.5">
+        <div className="flex items-center gap-1.5">
+          <span className="text-[11px] font-semibold" style={{ color: 'var(--text-tertiary)' }}>Up next</span>
+          <span className="tag tag-copper">{queue.length}</span>
+        </div>
+        <button
+          onClick={onClear}
+          className="text-[11px] font-medium transition-colors"
+          style={{ color: 'var(--text-muted)' }}
+          onMouseEnter={(e) => (e.currentTarget.style.color = 'var(--text-primary)')}
+          onMouseLeave={(e) => (e.currentTarget.style.color = 'var(--text-muted)')}
+        >
+          Clear all
+        </button>
+      </div>
+
+      <ul className="space-y-1 max-h-24 overflow-y-auto custom-scrollbar">
+        {queue.map((item) => (
+          <li
+            key={item.id}
+            className="flex items-center gap-2 px-2 py-1 rounded-md"
+            style={{ background: 'rgba(41, 37, 36, 0.5)', border: '1px solid var(--border-subtle)' }}
+          >
+            <span className="flex-1 min-w-0 truncate text-[11px]" style={{ color: 'var(--text-secondary)' }}>
+              {item.text || 'Composing reply...'}
+            </span>
+            <button
+              onClick={() => onCancel(item.id)}
+              className="p-0.5 rounded transition-colors hover:bg-white/5 flex-shrink-0"
+              style={{ color: 'var(--text-muted)' }}
+              title="Remove from queue"
+            >
+              <svg className="w-2.5 h-2.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
\ No newline at end of file
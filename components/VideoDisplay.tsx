@@ -1,23 +1,56 @@
 'use client';
 
-import { useEffect, useRef, useState } from 'react';
+import { Ref, useCallback, useEffect, useImperativeHandle, useRef, useState } from 'react';
 import { usePresenter } from '@/contexts/PresenterContext';
+import { VideoLayer } from '@/lib/services/sessionRecorder';
+import { BackgroundCompositor } from '@/lib/services/backgroundCompositor';
+import { VirtualBackgroundSettings } from '@/types/background';
+import { CaptionSettings } from '@/types/captions';
+import { DEFAULT_CAPTION_SETTINGS, PRESENTER_SWITCH_CONFIG } from '@/lib/utils/constants';
+
+export interface VideoDisplayHandle {
+  /** On-screen video layers, back to front, at their current (animated) opacity */
+  getVisibleLayers: () => VideoLayer[];
+}
 
 interface VideoDisplayProps {
   streamVideo: MediaStream | null;
+  previousStreamVideo?: MediaStream | null; // outgoing presenter after a switch, faded out over streamVideo
+  holdStreamVideo?: boolean; // keep the stream on screen, e.g. while the next presenter's stream is prepared
   idleVideoSrc: string | null;
   isVideoPlaying: boolean;
   isStreamReady: boolean;
+  isMuted?: boolean; // silences a stream that is still winding down after an interrupt
+  audioOnlyMessage?: string | null; // set when the stream video stalled: play its audio over a still presenter
+  virtualBackground?: VirtualBackgroundSettings;
+  caption?: string | null; // text being spoken right now
+  captionSettings?: CaptionSettings;
+  ref?: Ref<VideoDisplayHandle>;
 }
 
+const CAPTION_SIZE_CLASSES: Record<CaptionSettings['size'], string> = {
+  small: 'text-base',
+  medium: 'text-xl',
+  large: 'text-3xl leading-snug',
+};
+
 export function VideoDisplay({
   streamVideo,
+  previousStreamVideo = null,
+  holdStreamVideo = false,
   idleVideoSrc,
   isVideoPlaying,
-  isStreamReady
+  isStreamReady,
+  isMuted = false,
+  audioOnlyMessage = null,
+  virtualBackground,
+  caption = null,
+  captionSettings = DEFAULT_CAPTION_SETTINGS,
+  ref,
 }: VideoDisplayProps) {
-  const { serviceType, customAnimationUrl } = usePresenter();
+  const { serviceType, customAnimationUrl, presenterConfig } = usePresenter();
   const streamVideoRef = useRef<HTMLVideoElement>(null);
+  const previousStreamVideoRef = useRef<HTMLVideoElement>(null);
   const idleVideoRef = useRef<HTMLVideoElement>(null);
   const animationVideoRef = useRef<HTMLVideoElement>(null);
   const [fallbackVideoSrc, setFallbackVideoSrc] = useState<string | null>(null);
@@ -25,22 +58,91 @@ export function VideoDisplay({
   const [idleProgress, setIdleProgress] = useState(0);
   const [animationLoading, setAnimationLoading] = useState(false);
   const progressIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const compositorCanvasRef = useRef<HTMLCanvasElement>(null);
+  const compositorRef = useRef<BackgroundCompositor | null>(null);
+  const [compositorError, setCompositorError] = useState<string | null>(null);
+
+  const keyingMode = virtualBackground?.mode ?? 'off';
+  const isCompositing = keyingMode !== 'off' && !compositorError;
+
+  const getVideoLayers = useCallback((): VideoLayer[] => (
+    [animationVideoRef.current, idleVideoRef.current, streamVideoRef.current, previousStreamVideoRef.current]
+      .filter((video): video is HTMLVideoElement => video !== null)
+      .map(video => ({ source: video, opacity: parseFloat(getComputedStyle(video).opacity) }))
+      .filter(layer => layer.opacity > 0)
+  ), []);
+
+  useImperativeHandle(ref, () => ({
+    // The compositor canvas already contains every layer over the virtual background
+    getVisibleLayers: () => isCompositing && compositorCanvasRef.current
+      ? [{ source: compositorCanvasRef.current, opacity: 1 }]
+      : getVideoLayers(),
+  }), [isCompositing, getVideoLayers]);
+
+  // Give the compositor another chance when the keying mode changes
+  useEffect(() => {
+    setCompositorError(null);
+  }, [keyingMode]);
+
+  useEffect(() => {
+    if (!isCompositing || !compositorCanvasRef.current) return;
+
+    const handleError = (error: Error) => {
+      console.warn('Virtual background disabled:', error.message);
+      setCompositorError(error.message);
+    };
+
+    let compositor: BackgroundCompositor;
+    try {
+      compositor = new BackgroundCompositor(compositorCanvasRef.current, getVideoLayers, handleError);
+    } catch (error) {
+      handleError(error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
+    compositorRef.current = compositor;
+    compositor.start();
+
+    return () => {
+      compositor.destroy();
+      compositorRef.current = null;
+    };
+  }, [isCompositing, getVideoLayers]);
+
+  useEffect(() => {
+    if (virtualBackground && isCompositing) {
+      compositorRef.current?.setSettings(virtualBackground);
+    }
+  }, [virtualBackground, isCompositing]);
 
   useEffect(() => {
     if (streamVideoRef.current && streamVideo) {
       streamVideoRef.current.srcObject = streamVideo;
-      streamVideoRef.current.muted = !isStreamReady;
+      streamVideoRef.current.muted = !isStreamReady || isMuted;
       if (streamVideoRef.current.paused) {
         streamVideoRef.current.play().catch((error) => {
           if (error.name !== 'AbortError') console.error('Video play error:', error);
         });
       }
     }
-  }, [streamVideo, isStreamReady]);
+  }, [streamVideo, isStreamReady, isMuted]);
+
+  useEffect(() => {
+    const video = previousStreamVideoRef.current;
+    if (!video || !previousStreamVideo) return;
 
-  const showStreamVideo = isVideoPlaying && isStreamReady;
+    video.srcObject = previousStreamVideo;
+    video.play().catch((error) => {
+      if (error.name !== 'AbortError') console.error('Video play error:', error);
+    });
+  }, [previousStreamVideo]);
+
+  // In audio-only mode the stream element stays mounted (and audible) but hidden
+  const isAudioOnly = audioOnlyMessage !== null;
+  const showStreamVideo = (isVideoPlaying || holdStreamVideo) && isStreamReady && !isAudioOnly;
   const showCustomAnimation = !showStreamVideo && serviceType === 'talks' && customAnimationUrl;
   const showIdleVideo = !showStreamVideo && !showCustomAnimation;
+  // Talks presenters are a photo: a still of them beats the generic idle loop while audio plays
+  const posterSrc = isAudioOnly && serviceType === 'talks' && !customAnimationUrl ? presenterConfig.talks.source_url : null;
 
   const streamOpacity = showStreamVideo ? 1 : 0;
   const customAnimationOpacity = showCustomAnimation ? 1 : 0;
@@ -174,6 +276,7 @@ export function VideoDisplay({
         <video
           ref={animationVideoRef}
           src={customAnimationUrl}
+          crossOrigin={keyingMode !== 'off' ? 'anonymous' : undefined} // WebGL can only read CORS-enabled videos
           className="absolute inset-0 w-full h-full object-cover"
           style={{ opacity: customAnimationOpacity, transition: 'opacity 0.6s cubic-bezier(0.16, 1, 0.3, 1)' }}
           autoPlay loop muted playsInline
@@ -185,6 +288,7 @@ export function VideoDisplay({
         <video
           ref={idleVideoRef}
           src={fallbackVideoSrc || idleVideoSrc || undefined}
+          crossOrigin={keyingMode !== 'off' ? 'anonymous' : undefined}
           className="absolute inset-0 w-full h-full object-cover"
           style={{ opacity: idleOpacity, transition: 'opacity 0.6s cubic-bezier(0.16, 1, 0.3, 1)' }}
           autoPlay loop muted playsInline
@@ -199,6 +303,62 @@ export function VideoDisplay({
         autoPlay playsInline
       />
 
+      {/* Outgoing presenter, fading out over the new one after a switch */}
+      {previousStreamVideo && (
+        <video
+          ref={previousStreamVideoRef}
+          className="absolute inset-0 w-full h-full object-cover"
+          style={{ animation: `fade-out ${PRESENTER_SWITCH_CONFIG.crossfadeDuration}ms ease-in-out forwards` }}
+          autoPlay muted playsInline
+        />
+      )}
+
+      {/* Virtual background: every layer above, keyed and composited over the chosen background */}
+      {isCompositing && (
+        <canvas ref={compositorCanvasRef} className="absolute inset-0 w-full h-full" />
+      )}
+      {compositorError && (
+        <div className="absolute bottom-4 left-4 tag tag-danger" style={{ zIndex: 11 }} title={compositorError}>
+          Virtual background unavailable
+        </div>
+      )}
+
+      {/* Audio-only fallback */}
+      {posterSrc && (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={posterSrc}
+          alt="Presenter"
+          className="absolute inset-0 w-full h-full object-cover animate-fade-in"
+        />
+      )}
+      {audioOnlyMessage && (
+        <div className="absolute top-20 left-1/2 -translate-x-1/2 tag tag-danger animate-fade-in" style={{ zIndex: 11 }}>
+          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072M12 6v12m0 0l-4-4H5a1 1 0 01-1-1v-2a1 1 0 011-1h3l4-4" />
+          </svg>
+          {audioOnlyMessage}
+        </div>
+      )}
+
+      {/* Live captions */}
+      {caption && (
+        <div
+          className={`absolute inset-x-0 flex justify-center px-6 pointer-events-none ${captionSettings.position === 'top' ? 'top-20' : 'bottom-24'}`}
+          style={{ zIndex: 11 }}
+          aria-live="polite"
+        >
+          <p
+            className={`max-w-3xl text-center whitespace-pre-line rounded-lg px-4 py-2 ${CAPTION_SIZE_CLASSES[captionSettings.size]}`}
+            style={captionSettings.contrast === 'high'
+              ? { background: '#000', color: '#fff', fontWeight: 600 }
+              : { background: 'rgba(12, 10, 9, 0.6)', color: 'var(--text-primary)', backdropFilter: 'blur(4px)' }}
+          >
+            {caption}
+          </p>
+        </div>
+      )}
+
       {/* Loading overlays */}
       {animationLoading && showCustomAnimation && <LoadingOverlay message="Loading animation..." />}
       {idleLoading && showIdleVideo && <LoadingOverlay message="Loading presenter..." />}
@@ -0,0 +1,216 @@
+'use client';
+
+import { VirtualBackgroundSettings, KeyingMode, BackgroundSource } from '@/types/background';
+import { VIRTUAL_BACKGROUND_CONFIG } from '@/lib/utils/constants';
+
+interface VirtualBackgroundPanelProps {
+  settings: VirtualBackgroundSettings;
+  onChange: (updates: Partial<VirtualBackgroundSettings>) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+type SliderSetting = 'similarity' | 'smoothness' | 'spill' | 'lumaThreshold' | 'feather';
+
+const MODES: { mode: KeyingMode; label: string }[] = [
+  { mode: 'off', label: 'Off' },
+  { mode: 'chroma', label: 'Chroma key' },
+  { mode: 'luma', label: 'Luma key' },
+];
+
+const SLIDERS: Record<Exclude<KeyingMode, 'off'>, { key: SliderSetting; label: string; hint: string }[]> = {
+  chroma: [
+    { key: 'similarity', label: 'Similarity', hint: 'How close to the key colour a pixel must be to disappear' },
+    { key: 'smoothness', label: 'Smoothness', hint: 'Width of the soft edge around the key' },
+    { key: 'spill', label: 'Spill', hint: 'Removes key-colour reflections on the presenter' },
+    { key: 'feather', label: 'Feather', hint: 'Blurs the matte edge, in pixels' },
+  ],
+  luma: [
+    { key: 'lumaThreshold', label: 'Threshold', hint: 'Brightness that counts as background' },
+    { key: 'smoothness', label: 'Smoothness', hint: 'Width of the soft edge around the threshold' },
+    { key: 'feather', label: 'Feather', hint: 'Blurs the matte edge, in pixels' },
+  ],
+};
+
+const SOURCE_TYPES: BackgroundSource['type'][] = ['color', 'image', 'video'];
+
+/**
+ * Keying and background controls for the virtual background; changes apply live
+ */
+export function VirtualBackgroundPanel({ settings, onChange, onReset, onClose }: VirtualBackgroundPanelProps) {
+  const { mode, background } = settings;
+
+  const setSourceType = (type: BackgroundSource['type']) => {
+    if (type === background.type) return;
+    onChange({
+      background: type === 'color'
+        ? { type, color: VIRTUAL_BACKGROUND_CONFIG.colorPresets[1] }
+        : { type, url: background.type === 'color' ? '' : background.url },
+    });
+  };
+
+  const commitUrl = (url: string) => {
+    if (background.type !== 'color' && url.trim() !== background.url) {
+      onChange({ background: { type: background.type, url: url.trim() } });
+    }
+  };
+
+  return (
+    <div className="fixed top-0 right-0 h-full w-full max-w-sm z-50 p-3 animate-fade-in">
+      <div className="panel-float h-full flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="flex justify-between items-center px-5 py-4" style={{ borderBottom: '1px solid var(--border-subtle)' }}>
+          <div>
+            <h2 className="font-display text-xl" style={{ color: 'var(--text-primary)' }}>
+              Virtual Background
+            </h2>
+            <p className="text-xs mt-0.5" style={{ color: 'var(--text-muted)' }}>
+              Keys out the presenter&apos;s background
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={onReset} className="btn-ghost !px-2.5 !py-1 !text-[11px]">
+              Reset
+            </button>
+            <button
+              onClick={onClose}
+              className="w-8 h-8 rounded-lg flex items-center justify-center transition-colors hover:bg-white/5"
+              style={{ color: 'var(--text-muted)' }}
+            >
+              <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M18 6L6 18M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar px-5 py-4 space-y-5">
+          {/* Keying mode */}
+          <div className="flex gap-1.5">
+            {MODES.map(option => (
+              <button
+                key={option.mode}
+                onClick={() => onChange({ mode: option.mode })}
+                className={`tag flex-1 justify-center ${mode === option.mode ? 'tag-copper' : ''}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {mode !== 'off' && (
+            <div className="space-y-3">
+              {mode === 'chroma' ? (
+                <label className="flex items-center justify-between text-xs" style={{ color: 'var(--text-secondary)' }}>
+                  <span className="font-medium">Key colour</span>
+                  <input
+                    type="color"
+                    value={settings.keyColor}
+                    onChange={(e) => onChange({ keyColor: e.target.value })}
+                    className="w-10 h-6 rounded cursor-pointer bg-transparent"
+                  />
+                </label>
+              ) : (
+                <div className="flex items-center justify-between text-xs" style={{ color: 'var(--text-secondary)' }}>
+                  <span className="font-medium">Background is</span>
+                  <div className="flex gap-1.5">
+                    {(['dark', 'light'] as const).map(lumaKey => (
+                      <button
+                        key={lumaKey}
+                        onClick={() => onChange({ lumaKey })}
+                        className={`tag !text-[10px] ${settings.lumaKey === lumaKey ? 'tag-copper' : ''}`}
+                      >
+                        {lumaKey}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {SLIDERS[mode].map(({ key, label, hint }) => {
+                const { min, max, step } = VIRTUAL_BACKGROUND_CONFIG[key];
+                return (
+                  <div key={key} title={hint}>
+                    <div className="flex justify-between text-xs mb-1">
+                      <label htmlFor={`background-${key}`} className="font-medium" style={{ color: 'var(--text-secondary)' }}>{label}</label>
+                      <span className="font-mono" style={{ color: 'var(--text-muted)' }}>
+                        {key === 'feather' ? `${settings[key]}px` : settings[key].toFixed(2)}
+                      </span>
+                    </div>
+                    <input
+                      id={`background-${key}`}
+                      type="range"
+                      min={min}
+                      max={max}
+                      step={step}
+                      value={settings[key]}
+                      onChange={(e) => onChange({ [key]: Number(e.target.value) })}
+                      className="w-full"
+                      style={{ accentColor: 'var(--copper)' }}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {/* Replacement background */}
+          <div className="space-y-3" style={{ opacity: mode === 'off' ? 0.4 : 1 }}>
+            <h4 className="text-sm font-semibold" style={{ color: 'var(--text-primary)' }}>Background</h4>
+            <div className="flex gap-1.5">
+              {SOURCE_TYPES.map(type => (
+                <button
+                  key={type}
+                  onClick={() => setSourceType(type)}
+                  className={`tag flex-1 justify-center capitalize ${background.type === type ? 'tag-copper' : ''}`}
+                >
+                  {type}
+                </button>
+              ))}
+            </div>
+
+            {background.type === 'color' ? (
+              <div className="flex items-center gap-2">
+                {VIRTUAL_BACKGROUND_CONFIG.colorPresets.map(color => (
+                  <button
+                    key={color}
+                    onClick={() => onChange({ background: { type: 'color', color } })}
+                    className="w-7 h-7 rounded-lg"
+                    style={{
+                      background: color,
+                      border: `2px solid ${background.color === color ? 'var(--copper)' : 'var(--border-subtle)'}`,
+                    }}
+                    title={color}
+                  />
+                ))}
+                <input
+                  type="color"
+                  value={background.color}
+                  onChange={(e) => onChange({ background: { type: 'color', color: e.target.value } })}
+                  className="w-7 h-7 rounded-lg cursor-pointer bg-transparent"
+                  title="Custom colour"
+                />
+              </div>
+            ) : (
+              <div className="space-y-1">
+                {/* Applied on blur or Enter rather than on every keystroke, which would reload the media */}
+                <input
+                  key={background.type}
+                  type="url"
+                  defaultValue={background.url}
+                  onBlur={(e) => commitUrl(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && commitUrl(e.currentTarget.value)}
+                  placeholder={background.type === 'image' ? 'https://…/background.jpg' : 'https://…/background.mp4'}
+                  className="input-base w-full !text-xs"
+                />
+                <p className="text-[11px]" style={{ color: 'var(--text-muted)' }}>
+                  The server must allow cross-origin requests (CORS){background.type === 'video' ? '; videos loop muted' : ''}
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,203 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { CatalogVoice, VoiceGender, VoicesApiResponse } from '@/types/did';
+import { VOICE_CATALOG_CONFIG } from '@/lib/utils/constants';
+import { getLanguageLabel } from '@/lib/utils/voice';
+
+interface VoiceCatalogProps {
+  selectedVoiceId: string | null;
+  playingId: string | null;
+  onPreview: (voice: CatalogVoice) => void;
+  onSelect: (voice: CatalogVoice) => void;
+}
+
+const GENDERS: VoiceGender[] = ['female', 'male', 'neutral'];
+
+/**
+ * Browsable, filterable grid of the ElevenLabs voices on the account
+ */
+export function VoiceCatalog({ selectedVoiceId, playingId, onPreview, onSelect }: VoiceCatalogProps) {
+  const [voices, setVoices] = useState<CatalogVoice[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [gender, setGender] = useState<VoiceGender | ''>('');
+  const [language, setLanguage] = useState('');
+  const [accent, setAccent] = useState('');
+  const [visibleCount, setVisibleCount] = useState<number>(VOICE_CATALOG_CONFIG.pageSize);
+
+  useEffect(() => {
+    fetchVoices();
+  }, []);
+
+  const fetchVoices = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(VOICE_CATALOG_CONFIG.route);
+      if (!response.ok) throw new Error('Failed to fetch voices');
+      const data: VoicesApiResponse = await response.json();
+      setVoices(data.voices || []);
+    } catch (err) {
+      setError('Failed to load ElevenLabs voices. Please try again.');
+      console.error('Error fetching voices:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const languages = useMemo(
+    () => Array.from(new Set(voices.flatMap(voice => voice.languages))).sort(),
+    [voices]
+  );
+  const accents = useMemo(
+    () => Array.from(new Set(voices.map(voice => voice.accent).filter((a): a is string => !!a))).sort(),
+    [voices]
+  );
+
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return voices.filter(voice =>
+      (!query || voice.name.toLowerCase().includes(query) || voice.description?.toLowerCase().includes(query)) &&
+      (!gender || voice.gender === gender) &&
+      (!language || voice.languages.includes(language)) &&
+      (!accent || voice.accent === accent)
+    );
+  }, [voices, search, gender, language, accent]);
+
+  // Start from the first page whenever the filters change
+  useEffect(() => {
+    setVisibleCount(VOICE_CATALOG_CONFIG.pageSize);
+  }, [search, gender, language, accent]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold" style={{ color: 'var(--text-primary)' }}>ElevenLabs Library</h4>
+        {!loading && !error && (
+          <span className="text-xs" style={{ color: 'var(--text-muted)' }}>
+            {filtered.length} of {voices.length} voices
+          </span>
+        )}
+      </div>
+
+      {/* Filters */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        <input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search voices"
+          className="input-base w-full"
+        />
+        <select value={gender} onChange={(e) => setGender(e.target.value as VoiceGender | '')} className="input-base w-full">
+          <option value="">Any gender</option>
+          {GENDERS.map(g => (
+            <option key={g} value={g} className="capitalize">{g}</option>
+          ))}
+        </select>
+        <select value={language} onChange={(e) => setLanguage(e.target.value)} className="input-base w-full">
+          <option value="">Any language</option>
+          {languages.map(code => (
+            <option key={code} value={code}>{getLanguageLabel(code)}</option>
+          ))}
+        </select>
+        <select value={accent} onChange={(e) => setAccent(e.target.value)} className="input-base w-full">
+          <option value="">Any accent</option>
+          {accents.map(a => (
+            <option key={a} value={a}>{a}</option>
+          ))}
+        </select>
+      </div>
+
+      {loading && (
+        <p className="text-sm text-center py-6" style={{ color: 'var(--text-muted)' }}>Loading voices...</p>
+      )}
+
+      {error && (
+        <div className="flex items-center justify-between p-3 rounded-lg text-sm" style={{ background: 'var(--danger-muted)', border: '1px solid rgba(248, 113, 113, 0.2)', color: 'var(--danger)' }}>
+          {error}
+          <button onClick={fetchVoices} className="btn-ghost !px-2.5 !py-1 !text-[11px]">Retry</button>
+        </div>
+      )}
+
+      {!loading && !error && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2">
+            {filtered.slice(0, visibleCount).map((voice) => {
+              const selected = voice.voiceId === selectedVoiceId;
+              const tags = [
+                voice.gender !== 'unknown' ? voice.gender : null,
+                voice.accent,
+                voice.age,
+                ...voice.languages.map(getLanguageLabel),
+              ].filter((tag): tag is string => !!tag);
+
+              return (
+                <div
+                  key={voice.voiceId}
+                  className="flex flex-col gap-2 p-3 rounded-lg transition-all"
+                  style={{
+                    background: selected ? 'var(--copper-subtle)' : 'var(--bg-primary)',
+                    border: selected ? '1px solid var(--copper)' : '1px solid var(--border-subtle)',
+                  }}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <h5 className="text-xs font-semibold truncate" style={{ color: 'var(--text-primary)' }}>{voice.name}</h5>
+                      {voice.description && (
+                        <p className="text-[11px] truncate" style={{ color: 'var(--text-muted)' }}>{voice.description}</p>
+                      )}
+                    </div>
+                    <span className="text-[10px] uppercase tracking-wide flex-shrink-0" style={{ color: 'var(--text-tertiary)' }}>
+                      {voice.category}
+                    </span>
+                  </div>
+
+                  {tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {tags.map(tag => (
+                        <span key={tag} className="tag !text-[10px] capitalize">{tag}</span>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => onPreview(voice)}
+                      disabled={!voice.previewUrl}
+                      className="btn-ghost flex-1 !px-2.5 !py-1 !text-[11px] disabled:opacity-30"
+                      title={voice.previewUrl ? 'Play the ElevenLabs preview' : 'No preview available'}
+                    >
+                      {playingId === voice.voiceId ? 'Stop' : 'Preview'}
+                    </button>
+                    <button
+                      onClick={() => onSelect(voice)}
+                      disabled={selected}
+                      className="btn-copper flex-1 !px-2.5 !py-1 !text-[11px]"
+                    >
+                      {selected ? 'In use' : 'Use'}
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {filtered.length > visibleCount && (
+            <button
+              onClick={() => setVisibleCount(count => count + VOICE_CATALOG_CONFIG.pageSize)}
+              className="btn-ghost w-full !py-2 !text-xs"
+            >
+              Show more
+            </button>
+          )}
+
+          {voices.length > 0 && filtered.length === 0 && (
+            <p className="text-xs text-center py-4" style={{ color: 'var(--text-muted)' }}>No voices match these filters</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,260 @@
+'use client';
+
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { TtsProvider, VoiceConfig, CatalogVoice } from '@/types/did';
+import { usePresenter } from '@/contexts/PresenterContext';
+import { VOICE_PRESETS, VOICE_AUDITION_CONFIG, ELEVENLABS_CONFIG } from '@/lib/utils/constants';
+import { VoiceCatalog } from './VoiceCatalog';
+import { VoiceSettingsPanel } from './VoiceSettingsPanel';
+import { getProviderLabel, isSameVoice } from '@/lib/utils/voice';
+
+const PROVIDERS: TtsProvider[] = ['elevenlabs', 'microsoft', 'amazon', 'google'];
+
+/**
+ * Voice selection for the current presenter, with ElevenLabs previews and auditions
+ */
+export function VoicePicker() {
+  const { voiceConfig, setVoiceConfig } = usePresenter();
+  const [custom, setCustom] = useState<VoiceConfig>(voiceConfig);
+  const [auditioningId, setAuditioningId] = useState<string | null>(null);
+  const [auditionError, setAuditionError] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const audioUrlRef = useRef<string | null>(null);
+  const auditionRequestRef = useRef(0); // bumped to discard samples that arrive after a newer click
+
+  useEffect(() => {
+    setCustom(voiceConfig);
+  }, [voiceConfig]);
+
+  const stopAudition = useCallback(() => {
+    auditionRequestRef.current++;
+    audioRef.current?.pause();
+    audioRef.current = null;
+    if (audioUrlRef.current) {
+      URL.revokeObjectURL(audioUrlRef.current);
+      audioUrlRef.current = null;
+    }
+    setAuditioningId(null);
+  }, []);
+
+  useEffect(() => stopAudition, [stopAudition]);
+
+  /**
+   * Plays a sample from a URL, or from audio synthesized on demand; clicking the playing sample stops it
+   */
+  const playSample = async (id: string, source: string | (() => Promise<Blob>)) => {
+    if (auditioningId === id) {
+      stopAudition();
+      return;
+    }
+    stopAudition();
+    const requestId = auditionRequestRef.current;
+    setAuditionError(null);
+    setAuditioningId(id);
+
+    try {
+      let url: string;
+      if (typeof source === 'string') {
+        url = source;
+      } else {
+        const sample = await source();
+        if (requestId !== auditionRequestRef.current) return;
+
+        url = URL.createObjectURL(sample);
+        audioUrlRef.current = url;
+      }
+
+      const audio = new Audio(url);
+      audio.onended = stopAudition;
+      audioRef.current = audio;
+      await audio.play();
+    } catch (err) {
+      if (requestId !== auditionRequestRef.current) return;
+      console.error('Voice audition error:', err);
+      setAuditionError(err instanceof Error ? err.message : 'Failed to play audition');
+      stopAudition();
+    }
+  };
+
+  const handleAudition = (id: string, voice: VoiceConfig) => playSample(id, async () => {
+    const response = await fetch(VOICE_AUDITION_CONFIG.route, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ voiceId: voice.voiceId, modelId: voice.modelId, settings: voiceConfig.settings }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || `Audition failed (${response.status})`);
+    }
+    return response.blob();
+  });
+
+  const handleCatalogSelect = (voice: CatalogVoice) => {
+    setVoiceConfig({
+      provider: 'elevenlabs',
+      voiceId: voice.voiceId,
+      modelId: ELEVENLABS_CONFIG.model_id,
+      settings: voiceConfig.settings,
+    });
+  };
+
+  const updateCustom = (updates: Partial<VoiceConfig>) => {
+    setCustom(prev => ({ ...prev, ...updates }));
+  };
+
+  const handleApplyCustom = () => {
+    setVoiceConfig({
+      provider: custom.provider,
+      voiceId: custom.voiceId.trim(),
+      ...(custom.provider === 'elevenlabs' && custom.modelId?.trim() && { modelId: custom.modelId.trim() }),
+      ...(custom.language?.trim() && { language: custom.language.trim() }),
+      ...(custom.provider === 'microsoft' && custom.style?.trim() && { style: custom.style.trim() }),
+      settings: voiceConfig.settings,
+    });
+  };
+
+  return (
+    <div className="space-y-5">
+      {/* Presets */}
+      <div className="space-y-2">
+        <h4 className="text-sm font-semibold" style={{ color: 'var(--text-primary)' }}>Voices</h4>
+        <p className="text-xs" style={{ color: 'var(--text-muted)' }}>
+          Applies to the current presenter from its next sentence; no reconnect needed
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {VOICE_PRESETS.map((preset) => {
+            const selected = isSameVoice(preset.voice, voiceConfig);
+            const canAudition = preset.voice.provider === 'elevenlabs';
+            return (
+              <div
+                key={preset.id}
+                className="flex items-center gap-3 p-3 rounded-lg transition-all"
+                style={{
+                  background: selected ? 'var(--copper-subtle)' : 'var(--bg-primary)',
+                  border: selected ? '1px solid var(--copper)' : '1px solid var(--border-subtle)',
+                }}
+              >
+                <button onClick={() => setVoiceConfig({ ...preset.voice, settings: voiceConfig.settings })} className="flex-1 min-w-0 text-left">
+                  <h5 className="text-xs font-semibold truncate" style={{ color: 'var(--text-primary)' }}>{preset.label}</h5>
+                  <p className="text-[11px] truncate" style={{ color: 'var(--text-muted)' }}>{preset.description}</p>
+                </button>
+                <button
+                  onClick={() => handleAudition(preset.id, preset.voice)}
+                  disabled={!canAudition}
+                  className="btn-ghost !px-2.5 !py-1 !text-[11px] flex-shrink-0 disabled:opacity-30"
+                  title={canAudition ? 'Play a sample' : 'Audition is only available for ElevenLabs voices'}
+                >
+                  {auditioningId === preset.id ? 'Stop' : 'Listen'}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        {auditionError && (
+          <p className="text-xs" style={{ color: 'var(--danger)' }}>{auditionError}</p>
+        )}
+      </div>
+
+      {/* Tuning, kept across voice changes */}
+      {voiceConfig.provider === 'elevenlabs' && (
+        <div className="pt-5" style={{ borderTop: '1px solid var(--border-subtle)' }}>
+          <VoiceSettingsPanel
+            settings={voiceConfig.settings}
+            onChange={(settings) => setVoiceConfig({ ...voiceConfig, settings })}
+          />
+        </div>
+      )}
+
+      {/* ElevenLabs library */}
+      <div className="pt-5" style={{ borderTop: '1px solid var(--border-subtle)' }}>
+        <VoiceCatalog
+          selectedVoiceId={voiceConfig.provider === 'elevenlabs' ? voiceConfig.voiceId : null}
+          playingId={auditioningId}
+          onPreview={(voice) => voice.previewUrl && playSample(voice.voiceId, voice.previewUrl)}
+          onSelect={handleCatalogSelect}
+        />
+      </div>
+
+      {/* Custom voice */}
+      <div className="pt-5 space-y-3" style={{ borderTop: '1px solid var(--border-subtle)' }}>
+        <h4 className="text-sm font-semibold" style={{ color: 'var(--text-primary)' }}>Custom Voice</h4>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs font-medium mb-2" style={{ color: 'var(--text-secondary)' }}>Provider</label>
+            <select
+              value={custom.provider}
+              onChange={(e) => updateCustom({ provider: e.target.value as TtsProvider })}
+              className="input-base w-full"
+            >
+              {PROVIDERS.map(provider => (
+                <option key={provider} value={provider}>{getProviderLabel(provider)}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium mb-2" style={{ color: 'var(--text-secondary)' }}>Voice ID</label>
+            <input
+              value={custom.voiceId}
+              onChange={(e) => updateCustom({ voiceId: e.target.value })}
+              placeholder={custom.provider === 'microsoft' ? 'es-ES-ElviraNeural' : 'Voice ID'}
+              className="input-base w-full"
+            />
+          </div>
+          {custom.provider === 'elevenlabs' && (
+            <div>
+              <label className="block text-xs font-medium mb-2" style={{ color: 'var(--text-secondary)' }}>Model</label>
+              <input
+                value={custom.modelId ?? ''}
+                onChange={(e) => updateCustom({ modelId: e.target.value })}
+                placeholder="eleven_turbo_v2_5"
+                className="input-base w-full"
+              />
+            </div>
+          )}
+          <div>
+            <label className="block text-xs font-medium mb-2" style={{ color: 'var(--text-secondary)' }}>Language</label>
+            <input
+              value={custom.language ?? ''}
+              onChange={(e) => updateCustom({ language: e.target.value })}
+              placeholder="es-ES"
+              className="input-base w-full"
+            />
+          </div>
+          {custom.provider === 'microsoft' && (
+            <div>
+              <label className="block text-xs font-medium mb-2" style={{ color: 'var(--text-secondary)' }}>Style</label>
+              <input
+                value={custom.style ?? ''}
+                onChange={(e) => updateCustom({ style: e.target.value })}
+                placeholder="cheerful"
+                className="input-base w-full"
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          {custom.provider === 'elevenlabs' && (
+            <button
+              onClick={() => handleAudition('custom', custom)}
+              disabled={!custom.voiceId.trim()}
+              className="btn-ghost flex-1 !py-2.5"
+            >
+              {auditioningId === 'custom' ? 'Stop' : 'Listen'}
+            </button>
+          )}
+          <button
+            onClick={handleApplyCustom}
+            disabled={!custom.voiceId.trim()}
+            className="btn-copper flex-1 !py-2.5"
+          >
+            Use Voice
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,80 @@
+'use client';
+
+import { VoiceSettings } from '@/types/did';
+import { VOICE_SETTINGS_CONFIG } from '@/lib/utils/constants';
+
+interface VoiceSettingsPanelProps {
+  settings: VoiceSettings | undefined;
+  onChange: (settings: VoiceSettings | undefined) => void;
+}
+
+type NumericSetting = keyof typeof VOICE_SETTINGS_CONFIG;
+
+const SLIDERS: { key: NumericSetting; label: string; hint: string }[] = [
+  { key: 'stability', label: 'Stability', hint: 'Lower is more expressive, higher more consistent' },
+  { key: 'similarityBoost', label: 'Similarity', hint: 'How closely to match the original voice' },
+  { key: 'style', label: 'Style', hint: 'Exaggerates the voice\'s style; adds latency' },
+  { key: 'speed', label: 'Speed', hint: '1.00 is normal speed' },
+];
+
+/**
+ * ElevenLabs tuning sliders; untouched settings fall back to the voice's defaults
+ */
+export function VoiceSettingsPanel({ settings, onChange }: VoiceSettingsPanelProps) {
+  const update = (updates: VoiceSettings) => {
+    onChange({ ...settings, ...updates });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold" style={{ color: 'var(--text-primary)' }}>Voice Settings</h4>
+        <button
+          onClick={() => onChange(undefined)}
+          disabled={!settings}
+          className="btn-ghost !px-2.5 !py-1 !text-[11px] disabled:opacity-30"
+        >
+          Reset
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-3">
+        {SLIDERS.map(({ key, label, hint }) => {
+          const { min, max, step } = VOICE_SETTINGS_CONFIG[key];
+          const value = settings?.[key] ?? VOICE_SETTINGS_CONFIG[key].default;
+          return (
+            <div key={key} title={hint}>
+              <div className="flex justify-between text-xs mb-1">
+                <label htmlFor={`voice-${key}`} className="font-medium" style={{ color: 'var(--text-secondary)' }}>{label}</label>
+                <span className="font-mono" style={{ color: settings?.[key] !== undefined ? 'var(--copper)' : 'var(--text-muted)' }}>
+                  {value.toFixed(2)}
+                </span>
+              </div>
+              <input
+                id={`voice-${key}`}
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={value}
+                onChange={(e) => update({ [key]: Number(e.target.value) })}
+                className="w-full"
+                style={{ accentColor: 'var(--copper)' }}
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      <label className="flex items-center gap-2 text-xs" style={{ color: 'var(--text-secondary)' }}>
+        <input
+          type="checkbox"
+          checked={settings?.useSpeakerBoost ?? true}
+          onChange={(e) => update({ useSpeakerBoost: e.target.checked })}
+          style={{ accentColor: 'var(--copper)' }}
+        />
+        Speaker boost
+      </label>
+    </div>
+  );
+}
\ No newline at end of file
@@ -1,14 +1,36 @@
 'use client';
 
-import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
-import { PresenterConfig, ClipsPresenter } from '@/types/did';
-import { PRESENTER_CONFIG } from '@/lib/utils/constants';
+import React, { createContext, useContext, useState, useCallback, useEffect, ReactNode } from 'react';
+import { PresenterConfig, ClipsPresenter, VoiceConfig } from '@/types/did';
+import { PRESENTER_CONFIG, DEFAULT_VOICE } from '@/lib/utils/constants';
+import { getPresenterKey, validateVoiceSettings } from '@/lib/utils/voice';
+
+const VOICES_STORAGE_KEY = 'did-presenter-voices';
+
+function loadStoredVoices(): Record<string, VoiceConfig> {
+  try {
+    const stored = localStorage.getItem(VOICES_STORAGE_KEY);
+    const voices: Record<string, VoiceConfig> = stored ? JSON.parse(stored) : {};
+
+    // Drop tuning saved under older ranges rather than failing every message
+    for (const voice of Object.values(voices)) {
+      if (voice.settings && validateVoiceSettings(voice.settings).length > 0) {
+        delete voice.settings;
+      }
+    }
+    return voices;
+  } catch {
+    return {};
+  }
+}
 
 interface PresenterContextType {
   serviceType: 'talks' | 'clips';
   presenterConfig: PresenterConfig;
   idleVideoUrl: string | null;
   customAnimationUrl: string | null;
+  voiceConfig: VoiceConfig; // voice of the current presenter
+  setVoiceConfig: (voice: VoiceConfig) => void;
   setTalksMode: (imageUrl?: string, animationUrl?: string) => void;
   setClipsMode: (presenter: ClipsPresenter) => void;
   resetToDefault: () => void;
@@ -28,6 +50,28 @@ export function PresenterProvider({ children }: PresenterProviderProps) {
   const [idleVideoUrl, setIdleVideoUrl] = useState<string | null>(null);
   const [customAnimationUrl, setCustomAnimationUrl] = useState<string | null>(null);
   const [onModeChangeCallback, setOnModeChangeCallback] = useState<(() => void) | undefined>();
+  const [voicesByPresenter, setVoicesByPresenter] = useState<Record<string, VoiceConfig>>({});
+
+  // Read after mount so server and client render the same default voice
+  useEffect(() => {
+    setVoicesByPresenter(loadStoredVoices());
+  }, []);
+
+  const presenterKey = getPresenterKey(serviceType, presenterConfig);
+  const voiceConfig = voicesByPresenter[presenterKey] ?? DEFAULT_VOICE;
+
+  // Voice changes apply to the next message, so unlike presenter changes they don't disconnect
+  const setVoiceConfig = useCallback((voice: VoiceConfig) => {
+    setVoicesByPresenter(prev => {
+      const next = { ...prev, [presenterKey]: voice };
+      try {
+        localStorage.setItem(VOICES_STORAGE_KEY, JSON.stringify(next));
+      } catch (error) {
+        console.warn('Failed to save presenter voices:', error);
+      }
+      return next;
+    });
+  }, [presenterKey]);
 
   const setTalksMode = useCallback((imageUrl?: string, animationUrl?: string) => {
     // Trigger disconnect before changing mode
@@ -80,6 +124,8 @@ export function PresenterProvider({ children }: PresenterProviderProps) {
     presenterConfig,
     idleVideoUrl,
     customAnimationUrl,
+    voiceConfig,
+    setVoiceConfig,
     setTalksMode,
     setClipsMode,
     resetToDefault,
@@ -0,0 +1,111 @@
+import { useState, useCallback, useEffect } from 'react';
+import { MessageTimelineEntry } from '@/types/did';
+import { CaptionCue, CaptionFormat, CaptionSettings } from '@/types/captions';
+import { CAPTION_CONFIG, DEFAULT_CAPTION_SETTINGS } from '@/lib/utils/constants';
+import { getLiveCaption, formatCaptions } from '@/lib/utils/captions';
+
+const STORAGE_KEY = 'did-caption-settings';
+
+/**
+ * Cue identity that survives a new DidClient restarting its message ids
+ */
+function getCueId(entry: MessageTimelineEntry): string {
+  return `${entry.id}@${entry.sentAt}`;
+}
+
+/**
+ * Hook for live captions of what the presenter is saying, built from the
+ * message timeline, plus the session's cues for WebVTT/SRT export
+ */
+export function useCaptions(timeline: MessageTimelineEntry[]) {
+  const [settings, setSettings] = useState<CaptionSettings>(DEFAULT_CAPTION_SETTINGS);
+  const [cues, setCues] = useState<CaptionCue[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Read after mount so server and client render the same defaults
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) setSettings({ ...DEFAULT_CAPTION_SETTINGS, ...JSON.parse(stored) });
+    } catch {
+      // Ignore unreadable settings and keep the defaults
+    }
+  }, []);
+
+  const updateSettings = useCallback((updates: Partial<CaptionSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...updates };
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      } catch (error) {
+        console.warn('Failed to save caption settings:', error);
+      }
+      return next;
+    });
+  }, []);
+
+  /**
+   * Keeps every spoken message as a cue; the timeline itself is capped and reset on connect
+   */
+  useEffect(() => {
+    setCues(prev => {
+      const known = new Set(prev.map(cue => cue.id));
+      const finished: CaptionCue[] = timeline
+        .filter(entry => entry.text && entry.startedAt !== null && entry.doneAt !== null && !known.has(getCueId(entry)))
+        .map(entry => ({
+          id: getCueId(entry),
+          text: entry.text as string,
+          start: entry.startedAt as number,
+          end: entry.doneAt as number,
+          interrupted: entry.status === 'interrupted',
+        }));
+      return finished.length > 0 ? [...prev, ...finished].slice(-CAPTION_CONFIG.maxCues) : prev;
+    });
+  }, [timeline]);
+
+  const speaking = timeline.find(entry => entry.status === 'speaking' && entry.text && entry.startedAt !== null);
+  const speakingId = speaking ? getCueId(speaking) : null;
+
+  // Re-page the live caption while a message is being spoken
+  useEffect(() => {
+    if (!speakingId) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), CAPTION_CONFIG.tickInterval);
+    return () => clearInterval(interval);
+  }, [speakingId]);
+
+  const caption = speaking?.text && speaking.startedAt !== null
+    ? getLiveCaption(speaking.text, Math.max(0, now - speaking.startedAt))
+    : null;
+
+  /**
+   * Downloads the session's captions, timed from origin (defaults to the first cue)
+   */
+  const exportCaptions = useCallback((format: CaptionFormat, origin?: number) => {
+    if (cues.length === 0) return;
+
+    const start = origin ?? cues[0].start;
+    const blob = new Blob([formatCaptions(cues, start, format)], {
+      type: format === 'vtt' ? 'text/vtt' : 'application/x-subrip',
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `captions-${new Date(start).toISOString().replace(/[:.]/g, '-')}.${format}`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }, [cues]);
+
+  const clearCues = useCallback(() => {
+    setCues([]);
+  }, []);
+
+  return {
+    settings,
+    updateSettings,
+    caption: settings.enabled ? caption : null,
+    cues,
+    exportCaptions,
+    clearCues,
+  };
+}
\ No newline at end of file
@@ -1,8 +1,18 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { ChatMessage, ConversationState } from '@/types/conversation';
 import { OpenAIClient } from '@/lib/services/openaiClient';
 import { SYSTEM_PROMPT } from '@/lib/utils/constants';
 
+/**
+ * Builds the history sent to the LLM, keeping only what was actually spoken
+ */
+function toCompletionMessages(messages: ChatMessage[]): ChatMessage[] {
+  return messages.map(({ role, content, truncatedAt }) => ({
+    role,
+    content: truncatedAt !== undefined ? content.slice(0, truncatedAt) : content,
+  }));
+}
+
 /**
  * Hook for managing conversation history and LLM interactions
  */
@@ -19,6 +29,22 @@ export function useConversation(openaiClient: OpenAIClient | null) {
     error: null,
   });
 
+  // Source of truth for messages so back-to-back sends never see stale history
+  const messagesRef = useRef<ChatMessage[]>(state.messages);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  /**
+   * Applies an update to the message list and mirrors it into state
+   */
+  const updateMessages = useCallback((
+    update: (messages: ChatMessage[]) => ChatMessage[],
+    extra: Partial<Omit<ConversationState, 'messages'>> = {}
+  ) => {
+    messagesRef.current = update(messagesRef.current);
+    const messages = messagesRef.current;
+    setState(prev => ({ ...prev, ...extra, messages }));
+  }, []);
+
   /**
    * Sends message to LLM and returns response
    */
@@ -33,16 +59,11 @@ export function useConversation(openaiClient: OpenAIClient | null) {
       timestamp: Date.now(),
     };
 
-    setState(prev => ({
-      ...prev,
-      messages: [...prev.messages, userMsg],
-      isLoading: true,
-      error: null,
-    }));
+    const history = [...messagesRef.current, userMsg];
+    updateMessages(messages => [...messages, userMsg], { isLoading: true, error: null });
 
     try {
-      const updatedMessages = [...state.messages, userMsg];
-      const assistantResponse = await openaiClient.getChatCompletion(updatedMessages);
+      const assistantResponse = await openaiClient.getChatCompletion(toCompletionMessages(history));
 
       const assistantMsg: ChatMessage = {
         role: 'assistant',
@@ -50,39 +71,135 @@ export function useConversation(openaiClient: OpenAIClient | null) {
         timestamp: Date.now(),
       };
 
-      setState(prev => ({
-        ...prev,
-        messages: [...prev.messages, assistantMsg],
+      updateMessages(messages => [...messages, assistantMsg], { isLoading: false });
+
+      return assistantResponse;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      // Remove user message on error
+      updateMessages(messages => messages.filter(msg => msg !== userMsg), {
         isLoading: false,
-      }));
+        error: errorMessage,
+      });
+
+      throw error;
+    }
+  }, [openaiClient, updateMessages]);
+
+  /**
+   * Streams LLM response token by token, updating the assistant message as it grows
+   */
+  const sendMessageStreaming = useCallback(async (
+    userMessage: string,
+    onToken: (token: string) => void
+  ): Promise<string> => {
+    if (!openaiClient) {
+      throw new Error('OpenAI client not initialized');
+    }
+
+    const userMsg: ChatMessage = {
+      role: 'user',
+      content: userMessage,
+      timestamp: Date.now(),
+    };
+
+    let assistantMsg: ChatMessage = {
+      role: 'assistant',
+      content: '',
+      timestamp: Date.now(),
+    };
+
+    const history = [...messagesRef.current, userMsg];
+    updateMessages(messages => [...messages, userMsg, assistantMsg], { isLoading: true, error: null });
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let assistantResponse = '';
+
+    try {
+      const tokens = openaiClient.streamChatCompletion(toCompletionMessages(history), abortController.signal);
+
+      for await (const token of tokens) {
+        assistantResponse += token;
+        const content = assistantResponse;
+
+        // Preserve fields set meanwhile (e.g. truncatedAt) on the growing message
+        updateMessages(messages => messages.map(msg => {
+          if (msg !== assistantMsg) return msg;
+          assistantMsg = { ...msg, content };
+          return assistantMsg;
+        }));
+
+        onToken(token);
+      }
+
+      setState(prev => ({ ...prev, isLoading: false }));
 
       return assistantResponse;
     } catch (error) {
+      if (abortController.signal.aborted) {
+        // Interrupted by the user: keep whatever was generated
+        setState(prev => ({ ...prev, isLoading: false }));
+        return assistantResponse;
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
-      setState(prev => ({
-        ...prev,
-        messages: prev.messages.slice(0, -1), // Remove user message on error
+      // Remove user and partial assistant message on error
+      updateMessages(messages => messages.filter(msg => msg !== userMsg && msg !== assistantMsg), {
         isLoading: false,
         error: errorMessage,
-      }));
+      });
 
       throw error;
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
     }
-  }, [openaiClient, state.messages]);
+  }, [openaiClient, updateMessages]);
+
+  /**
+   * Stops an in-progress streamed reply and marks how much of it was spoken
+   */
+  const truncateLastReply = useCallback((spokenChunks: string[]) => {
+    abortControllerRef.current?.abort();
+
+    updateMessages(messages => {
+      const lastIndex = messages.length - 1;
+      const last = messages[lastIndex];
+      if (!last || last.role !== 'assistant') return messages;
+
+      // Walk the spoken chunks through the content to find where speech stopped
+      let truncatedAt = 0;
+      for (const chunk of spokenChunks) {
+        const position = last.content.indexOf(chunk, truncatedAt);
+        if (position === -1) break;
+        truncatedAt = position + chunk.length;
+      }
+
+      if (truncatedAt >= last.content.trim().length) return messages;
+
+      return [...messages.slice(0, lastIndex), { ...last, truncatedAt }];
+    }, { isLoading: false });
+  }, [updateMessages]);
 
   /**
    * Clears conversation history (keeps system message)
    */
   const clearConversation = useCallback(() => {
+    abortControllerRef.current?.abort();
+    messagesRef.current = [
+      {
+        role: 'system',
+        content: SYSTEM_PROMPT,
+        timestamp: Date.now(),
+      },
+    ];
+
     setState({
-      messages: [
-        {
-          role: 'system',
-          content: SYSTEM_PROMPT,
-          timestamp: Date.now(),
-        },
-      ],
+      messages: messagesRef.current,
       isLoading: false,
       error: null,
     });
@@ -98,6 +215,8 @@ export function useConversation(openaiClient: OpenAIClient | null) {
   return {
     ...state,
     sendMessage,
+    sendMessageStreaming,
+    truncateLastReply,
     clearConversation,
     clearError,
   };
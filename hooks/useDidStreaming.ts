@@ -1,67 +1,196 @@
 import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { DidClient } from '@/lib/services/didClient';
-import { ConnectionState } from '@/types/did';
+import { StreamPool, PrewarmStatus, ClaimedStream } from '@/lib/services/streamPool';
+import { isConnectedPhase, isConnectingPhase } from '@/lib/services/connectionStateMachine';
+import { ConnectionState, ConnectionTransition, StreamStats, VoiceSettings, ProtocolDiagnostics, MessageTimelineEntry, VideoModeEvent } from '@/types/did';
 import { ApiConfig } from '@/types/api';
 import { usePresenter } from '@/contexts/PresenterContext';
+import { RECONNECT_CONFIG, STREAM_CONFIG, STATS_CONFIG, PRESENTER_SWITCH_CONFIG } from '@/lib/utils/constants';
+import { latencyTracker } from '@/lib/services/latencyTracker';
+import { validateVoiceSettings } from '@/lib/utils/voice';
+import { sanitizeSsmlInput, stripSsml, validateSsml } from '@/lib/utils/ssml';
+
+export interface QueuedUtterance {
+  id: string;
+  text: string;
+  chunks: string[];
+  isOpen: boolean; // still receiving chunks, e.g. an LLM reply being streamed
+  enqueuedAt: number;
+  voiceSettings?: VoiceSettings; // per-message override of the presenter's voice settings
+  audioUrl?: string; // pre-recorded audio spoken instead of the text, which is only a label
+  ssml?: boolean; // chunks are SSML scripts; text holds the words without markup
+}
+
+export interface UtteranceOptions {
+  voiceSettings?: VoiceSettings;
+  ssml?: boolean;
+}
+
+export interface InterruptResult {
+  cutUtteranceId: string | null; // utterance that was being spoken, if any
+  spokenChunks: string[]; // its chunks that finished playing before the cut
+  droppedIds: string[]; // queued utterances that never started
+}
+
+export interface PresenterSwitch {
+  status: 'preparing' | 'crossfading'; // negotiating the new presenter's stream / fading over to it
+  previousStream: MediaStream | null; // outgoing presenter's video while cross-fading
+}
+
+interface ActiveUtterance {
+  utterance: QueuedUtterance;
+  sentCount: number;
+  doneCount: number;
+  hasStarted: boolean;
+}
+
+/**
+ * Returns a copy of the utterance with one more chunk appended
+ */
+function appendChunk(utterance: QueuedUtterance, chunk: string): QueuedUtterance {
+  const words = utterance.ssml ? stripSsml(chunk) : chunk;
+  return {
+    ...utterance,
+    chunks: [...utterance.chunks, chunk],
+    text: utterance.text ? `${utterance.text} ${words}` : words,
+  };
+}
 
 export interface StreamingState {
   connectionState: ConnectionState;
+  transitions: ConnectionTransition[]; // state machine history, for debugging
+  protocol: ProtocolDiagnostics; // inbound signaling messages that failed validation
   streamVideo: MediaStream | null;
   streamStatus: string;
   isVideoPlaying: boolean;
+  videoFallback: VideoModeEvent | null; // set while only the presenter's audio is played
   isStreaming: boolean;
+  isInterrupted: boolean;
+  activeUtteranceId: string | null;
+  queue: QueuedUtterance[];
+  presenterSwitch: PresenterSwitch | null; // set while a connected session moves to another presenter
 }
 
 /**
  * Hook for managing D-ID streaming connection and video display
  */
 export function useDidStreaming(config: ApiConfig | null) {
-  const { serviceType, presenterConfig, idleVideoUrl, setOnModeChange } = usePresenter();
+  const { serviceType, presenterConfig, voiceConfig, idleVideoUrl, setOnModeChange } = usePresenter();
 
   const [state, setState] = useState<StreamingState>({
     connectionState: {
-      isConnecting: false,
-      isConnected: false,
+      phase: 'idle',
+      reconnectAttempt: 0,
       streamId: null,
       sessionId: null,
       error: null,
     },
+    transitions: [],
+    protocol: { unknownMessages: 0, invalidMessages: 0, recentErrors: [] },
     streamVideo: null,
     streamStatus: '',
     isVideoPlaying: false,
+    videoFallback: null,
     isStreaming: false,
+    isInterrupted: false,
+    activeUtteranceId: null,
+    queue: [],
+    presenterSwitch: null,
   });
 
+  // Kept apart from StreamingState: samples arrive every poll interval
+  const [statsHistory, setStatsHistory] = useState<StreamStats[]>([]);
+  const [timeline, setTimeline] = useState<MessageTimelineEntry[]>([]);
+  const [prewarmStatus, setPrewarmStatus] = useState<PrewarmStatus>('idle');
+
   const didClientRef = useRef<DidClient | null>(null);
+  // Exposed so other consumers (recorder, captions, analytics) can subscribe to client events
+  const [client, setClient] = useState<DidClient | null>(null);
+  const unsubscribeRef = useRef<(() => void)[]>([]);
   const messageIndexRef = useRef(0);
   const lastStreamTimeRef = useRef<number>(0);
+  const queueRef = useRef<QueuedUtterance[]>([]);
+  const activeRef = useRef<ActiveUtterance | null>(null);
+  const isConnectedRef = useRef(false);
+  const dispatchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const utteranceTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const utteranceIdRef = useRef(0);
+  const interruptPendingRef = useRef(0);
+  const interruptTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const poolRef = useRef<StreamPool | null>(null);
+  const pendingSwitchKeyRef = useRef<string | null>(null);
+  const isSwitchReadyRef = useRef(false); // new presenter is ready, waiting for the current utterance
+  const switchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const crossfadeTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const previousClientRef = useRef<DidClient | null>(null);
+
+  // Identifies the presenter a client or pre-warmed stream was set up for
+  const presenterKey = useMemo(
+    () => `${serviceType}:${JSON.stringify(presenterConfig[serviceType])}`,
+    [serviceType, presenterConfig]
+  );
+  const initialPresenterKeyRef = useRef(presenterKey);
+  const hasSelectedPresenterRef = useRef(false);
+  const clientPresenterKeyRef = useRef(presenterKey);
+  const isConnected = isConnectedPhase(state.connectionState.phase);
+  // Once connect starts, the stream belongs to the presenter it was opened for
+  const hasSession = isConnected || isConnectingPhase(state.connectionState.phase);
 
   /**
-   * Initialise client once, then update its mode on presenter changes.
+   * Initialise client once, then update its mode on presenter or voice changes.
    */
   useEffect(() => {
     if (!config) return;
 
     if (!didClientRef.current) {
-      didClientRef.current = new DidClient(config, serviceType, presenterConfig);
+      didClientRef.current = new DidClient(config, serviceType, presenterConfig, voiceConfig);
+      setClient(didClientRef.current);
+      clientPresenterKeyRef.current = presenterKey;
+      poolRef.current = new StreamPool(config.didPrewarm.idleTimeout);
+      poolRef.current.on('status', setPrewarmStatus);
       return;
     }
 
-    // Update existing client when user switches Clips/Talks or presenter.
+    // A connected (or still connecting) client keeps its presenter until the
+    // switch to the new one completes; the switch starts once it is ready
+    if (hasSession && clientPresenterKeyRef.current !== presenterKey) return;
+
+    // Update existing client when user switches Clips/Talks, presenter or voice.
     didClientRef.current.updateMode(serviceType, presenterConfig);
-  }, [config, serviceType, presenterConfig]);
+    didClientRef.current.updateVoice(voiceConfig);
+    clientPresenterKeyRef.current = presenterKey;
+  }, [config, serviceType, presenterConfig, voiceConfig, presenterKey, hasSession]);
+
+  /**
+   * Pre-warms a stream for the selected presenter (or the default one on page
+   * load) while not connected, so Connect can use it straight away; runs again
+   * once a session has closed
+   */
+  useEffect(() => {
+    if (!config || !poolRef.current || config.didPrewarm.mode === 'off') return;
+
+    if (presenterKey !== initialPresenterKeyRef.current) hasSelectedPresenterRef.current = true;
+    if (config.didPrewarm.mode === 'select' && !hasSelectedPresenterRef.current) return;
+    const phase = state.connectionState.phase;
+    if (phase !== 'idle' && phase !== 'closed' && phase !== 'failed') return;
+
+    // A voice change keeps the held stream; the voice is applied when it is claimed
+    poolRef.current.warmUp(presenterKey, () => new DidClient(config, serviceType, presenterConfig, voiceConfig));
+  }, [config, presenterKey, serviceType, presenterConfig, voiceConfig, state.connectionState.phase]);
 
   /**
    * Set up disconnect callback for presenter changes
    */
   useEffect(() => {
+    const { phase, reconnectAttempt } = state.connectionState;
     const disconnect = () => {
-      if (didClientRef.current && state.connectionState.isConnected) {
+      // Connected and connecting sessions move to the new presenter in the background instead
+      if (didClientRef.current && !isConnectedPhase(phase) && reconnectAttempt > 0) {
         didClientRef.current.disconnect();
       }
     };
     setOnModeChange(disconnect);
-  }, [setOnModeChange, state.connectionState.isConnected]);
+  }, [setOnModeChange, state.connectionState]);
 
   /**
    * Set idle video source based on context
@@ -80,54 +209,281 @@ export function useDidStreaming(config: ApiConfig | null) {
   }, [serviceType, idleVideoUrl]);
 
   /**
-   * Connects to D-ID streaming service
+   * Mirrors the utterance queue ref into React state for the UI
    */
-  const connect = useCallback(async () => {
-    if (!didClientRef.current) return;
+  const syncQueue = useCallback(() => {
+    setState(prev => ({ ...prev, queue: [...queueRef.current] }));
+  }, []);
+
+  /**
+   * Releases the active utterance so the next queued one can go out
+   */
+  const releaseActive = useCallback(() => {
+    activeRef.current = null;
+    setState(prev => ({ ...prev, activeUtteranceId: null }));
+    if (utteranceTimeoutRef.current) {
+      clearTimeout(utteranceTimeoutRef.current);
+      utteranceTimeoutRef.current = null;
+    }
+  }, []);
+
+  /**
+   * Sends chunks of the active utterance that have not gone out yet
+   */
+  const sendPendingChunks = useCallback(() => {
+    const active = activeRef.current;
+    if (!active || !didClientRef.current) return;
+
+    const { utterance } = active;
+    while (active.sentCount < utterance.chunks.length) {
+      // Chunk indices restart at 0 per utterance so ElevenLabs treats each reply as "first"
+      const index = active.sentCount;
+      console.log(`Sending chunk ${index} of ${utterance.id}`);
+      if (utterance.audioUrl) {
+        didClientRef.current.sendAudioMessage(utterance.audioUrl, index, { utteranceId: utterance.id });
+      } else {
+        didClientRef.current.sendTextMessage(utterance.chunks[index], index, {
+          utteranceId: utterance.id,
+          voiceSettings: utterance.voiceSettings,
+          ssml: utterance.ssml,
+        });
+      }
+      active.sentCount++;
+      if (index === 0) latencyTracker.markUtterance(utterance.id, 'stream-text-sent');
+
+      // Still increment our internal counter for logging
+      messageIndexRef.current++;
+    }
+  }, []);
+
+  /**
+   * Sends the next queued utterance if nothing is currently being spoken
+   */
+  const dispatchNext = useCallback(() => {
+    if (!didClientRef.current || !isConnectedRef.current || activeRef.current) return;
+    if (interruptTimeoutRef.current) return; // wait for the interrupted stream to settle
+    if (isSwitchReadyRef.current) return; // the next utterance goes to the new presenter
+
+    const next = queueRef.current.shift();
+    if (!next) return;
+    syncQueue();
+
+    activeRef.current = { utterance: next, sentCount: 0, doneCount: 0, hasStarted: false };
+    setState(prev => ({ ...prev, activeUtteranceId: next.id }));
+    lastStreamTimeRef.current = Date.now();
+
+    // Never let a lost stream/done stall the queue forever
+    if (utteranceTimeoutRef.current) clearTimeout(utteranceTimeoutRef.current);
+    utteranceTimeoutRef.current = setTimeout(() => {
+      console.warn('No stream/done received in time, releasing queue:', next.id);
+      releaseActive();
+      setState(prev => ({ ...prev, isStreaming: false }));
+      dispatchNext();
+    }, STREAM_CONFIG.utteranceTimeout);
 
     try {
-      await didClientRef.current.connect({
-        onConnectionStateChange: (connectionState) => {
-          setState(prev => ({ ...prev, connectionState }));
-        },
-        onVideoTrack: (stream) => {
-          setState(prev => ({
-            ...prev,
-            streamVideo: stream,
-            isVideoPlaying: true,
-          }));
-        },
-        onStreamEvent: (status) => {
-          console.log('Stream event received:', status);
-
-          // Log timing for debugging
-          if (status === 'started') {
-            console.log('Stream started at:', new Date().toISOString());
-          } else if (status === 'done') {
-            console.log('Stream completed at:', new Date().toISOString());
-            const streamDuration = Date.now() - lastStreamTimeRef.current;
-            console.log('Stream duration:', streamDuration + 'ms');
-
-            // WORKAROUND: Add delay after stream completion to let ElevenLabs reset
-            setTimeout(() => {
-              console.log('ElevenLabs reset delay completed - ready for next message');
-              // Force reset streaming state in case it gets stuck
-              setState(prev => ({ ...prev, isStreaming: false }));
-            }, 2000);
+      sendPendingChunks();
+    } catch (error) {
+      console.error('Failed to send text message:', error);
+      const active = activeRef.current;
+      releaseActive();
+
+      // The session dropped: stop draining and keep the utterance (if none of it
+      // went out) for when the reconnect reaches ready, which dispatches again
+      if (!isConnectedPhase(didClientRef.current.getConnectionState().phase)) {
+        if (active && active.sentCount === 0) {
+          queueRef.current.unshift(active.utterance);
+          syncQueue();
+        }
+        return;
+      }
+      dispatchNext();
+    }
+  }, [syncQueue, releaseActive, sendPendingChunks]);
+
+  /**
+   * Schedules the next dispatch once the previous utterance has finished
+   */
+  const scheduleDispatch = useCallback((delay: number) => {
+    if (dispatchTimeoutRef.current) clearTimeout(dispatchTimeoutRef.current);
+    dispatchTimeoutRef.current = setTimeout(() => {
+      dispatchTimeoutRef.current = null;
+      dispatchNext();
+    }, delay);
+  }, [dispatchNext]);
+
+  /**
+   * Completes the active utterance once it is closed and every chunk is done
+   */
+  const finishIfComplete = useCallback(() => {
+    const active = activeRef.current;
+    if (!active || active.utterance.isOpen || active.doneCount < active.sentCount) return;
+
+    releaseActive();
+    // Short gap lets ElevenLabs reset before the next utterance
+    scheduleDispatch(STREAM_CONFIG.utteranceGap);
+  }, [releaseActive, scheduleDispatch]);
+
+  /**
+   * Ends the post-interrupt quiet period and resumes the queue
+   */
+  const settleInterrupt = useCallback(() => {
+    if (interruptTimeoutRef.current) {
+      clearTimeout(interruptTimeoutRef.current);
+      interruptTimeoutRef.current = null;
+    }
+    interruptPendingRef.current = 0;
+    setState(prev => ({ ...prev, isInterrupted: false }));
+    scheduleDispatch(0);
+  }, [scheduleDispatch]);
+
+  /**
+   * Subscribes to the client's events, replacing the listeners on the previous
+   * client; done on every connect so they close over the latest callbacks
+   */
+  const attachClient = useCallback((client: DidClient) => {
+    unsubscribeRef.current.forEach(unsubscribe => unsubscribe());
+    unsubscribeRef.current = [
+      client.on('state', (connectionState) => {
+        const wasConnected = isConnectedRef.current;
+        isConnectedRef.current = isConnectedPhase(connectionState.phase);
+
+        if (!isConnectedRef.current) {
+          // Whatever was being spoken died with the session
+          releaseActive();
+        } else if (!wasConnected) {
+          // Flush anything queued while connecting or reconnecting
+          scheduleDispatch(0);
+        }
+
+        setState(prev => ({
+          ...prev,
+          connectionState,
+          transitions: client.getTransitionHistory(),
+          // A dropped session loses whatever was being spoken
+          ...(connectionState.phase === 'reconnecting' && {
+            isVideoPlaying: false,
+            isStreaming: false,
+            streamStatus: '',
+          }),
+        }));
+      }),
+      client.on('track', (stream) => {
+        setState(prev => ({
+          ...prev,
+          streamVideo: stream,
+          isVideoPlaying: true,
+        }));
+      }),
+      client.on('stream-event', (status) => {
+        console.log('Stream event received:', status);
+
+        // Events still trickling in for an interrupted utterance are swallowed
+        if (interruptTimeoutRef.current) {
+          if (status === 'done' || status === 'error') {
+            interruptPendingRef.current--;
+            if (interruptPendingRef.current <= 0) settleInterrupt();
+          }
+          return;
+        }
+
+        // Log timing for debugging
+        if (status === 'started') {
+          console.log('Stream started at:', new Date().toISOString());
+
+          const active = activeRef.current;
+          if (active && !active.hasStarted) {
+            active.hasStarted = true;
+            console.log('Time to first word:', Date.now() - active.utterance.enqueuedAt + 'ms');
           }
+        } else if (status === 'done') {
+          console.log('Stream completed at:', new Date().toISOString());
+          const streamDuration = Date.now() - lastStreamTimeRef.current;
+          console.log('Stream duration:', streamDuration + 'ms');
+        }
+
+        if ((status === 'done' || status === 'error') && activeRef.current) {
+          activeRef.current.doneCount++;
+          finishIfComplete();
+        }
+
+        setState(prev => ({
+          ...prev,
+          streamStatus: status,
+          isVideoPlaying: status === 'started' ? true : status === 'done' ? false : prev.isVideoPlaying,
+          isStreaming: status === 'started' ? true : status === 'done' ? false : prev.isStreaming,
+        }));
+      }),
+      client.on('stats', (stats) => {
+        setStatsHistory(prev => [...prev, stats].slice(-STATS_CONFIG.historyLength));
+      }),
+      client.on('protocol-error', ({ diagnostics }) => {
+        setState(prev => ({ ...prev, protocol: diagnostics }));
+      }),
+      client.on('timeline', setTimeline),
+      client.on('video-mode', (event) => {
+        setState(prev => ({ ...prev, videoFallback: event.mode === 'audio-only' ? event : null }));
+      }),
+      client.on('utterance-started', ({ utteranceId, timestamp }) => {
+        if (utteranceId) latencyTracker.markUtterance(utteranceId, 'stream-started', timestamp);
+      }),
+      client.on('utterance-done', ({ utteranceId, timestamp }) => {
+        if (utteranceId) latencyTracker.markUtterance(utteranceId, 'stream-done', timestamp);
+      }),
+    ];
+  }, [releaseActive, scheduleDispatch, finishIfComplete, settleInterrupt]);
 
-          setState(prev => ({
-            ...prev,
-            streamStatus: status,
-            isVideoPlaying: status === 'started' ? true : status === 'done' ? false : prev.isVideoPlaying,
-            isStreaming: status === 'started' ? true : status === 'done' ? false : prev.isStreaming,
-          }));
-        },
-      });
+  /**
+   * Makes a client negotiated in the background (pre-warmed, or for a presenter
+   * switch) the current one
+   */
+  const adoptClient = useCallback(({ client, stream }: ClaimedStream) => {
+    didClientRef.current = client;
+    setClient(client);
+    attachClient(client);
+
+    // Catch up on what happened before the listeners were attached
+    const connectionState = client.getConnectionState();
+    isConnectedRef.current = isConnectedPhase(connectionState.phase);
+    setState(prev => ({
+      ...prev,
+      connectionState,
+      transitions: client.getTransitionHistory(),
+      protocol: client.getProtocolDiagnostics(),
+      streamVideo: stream,
+      isVideoPlaying: stream !== null,
+      videoFallback: null,
+      streamStatus: '',
+      isStreaming: false,
+    }));
+    setTimeline(client.getTimeline());
+  }, [attachClient]);
+
+  /**
+   * Connects to D-ID streaming service
+   */
+  const connect = useCallback(async () => {
+    // A stream negotiated in the background replaces the idle client
+    const warm = poolRef.current?.claim(presenterKey) ?? null;
+    poolRef.current?.discard();
+    if (warm) {
+      warm.client.updateVoice(voiceConfig);
+      adoptClient(warm);
+      return;
+    }
+
+    const client = didClientRef.current;
+    if (!client) return;
+
+    setState(prev => ({ ...prev, protocol: { unknownMessages: 0, invalidMessages: 0, recentErrors: [] } }));
+    attachClient(client);
+
+    try {
+      await client.connect();
     } catch (error) {
       console.error('Failed to connect to D-ID:', error);
     }
-  }, []);
+  }, [presenterKey, voiceConfig, adoptClient, attachClient]);
 
   /**
    * Disconnects from D-ID streaming service
@@ -137,83 +493,381 @@ export function useDidStreaming(config: ApiConfig | null) {
       didClientRef.current.disconnect();
     }
 
+    // A presenter switch in progress is abandoned; the client picks up the new presenter once closed
+    pendingSwitchKeyRef.current = null;
+    isSwitchReadyRef.current = false;
+    if (switchTimeoutRef.current) {
+      clearTimeout(switchTimeoutRef.current);
+      switchTimeoutRef.current = null;
+    }
+    poolRef.current?.discard();
+    if (crossfadeTimeoutRef.current) {
+      clearTimeout(crossfadeTimeoutRef.current);
+      crossfadeTimeoutRef.current = null;
+    }
+    previousClientRef.current?.disconnect();
+    previousClientRef.current = null;
+
+    // connectionState itself arrives through onConnectionStateChange
     setState(prev => ({
       ...prev,
-      connectionState: {
-        isConnecting: false,
-        isConnected: false,
-        streamId: null,
-        sessionId: null,
-        error: null,
-      },
+      presenterSwitch: null,
       streamVideo: null,
       isVideoPlaying: false,
+      videoFallback: null,
       streamStatus: '',
       isStreaming: false,
+      isInterrupted: false,
+      queue: [],
     }));
+    setStatsHistory([]);
+
+    queueRef.current = [];
+    interruptPendingRef.current = 0;
+    if (interruptTimeoutRef.current) {
+      clearTimeout(interruptTimeoutRef.current);
+      interruptTimeoutRef.current = null;
+    }
+    isConnectedRef.current = false;
+    releaseActive();
+    if (dispatchTimeoutRef.current) {
+      clearTimeout(dispatchTimeoutRef.current);
+      dispatchTimeoutRef.current = null;
+    }
 
     messageIndexRef.current = 0;
     lastStreamTimeRef.current = 0;
-  }, []);
+  }, [releaseActive]);
+
+  /**
+   * Gives up on a presenter switch; the session is closed so the next connect
+   * uses the new presenter, as if it had been picked while disconnected
+   */
+  const abortPresenterSwitch = useCallback((reason: string) => {
+    console.warn(`Presenter switch failed (${reason}), disconnecting`);
+    disconnect();
+  }, [disconnect]);
+
+  /**
+   * Hands the session over to the new presenter's stream once the current
+   * presenter has finished the utterance it is speaking, then fades out the old
+   * video and closes its stream; queued utterances carry over
+   */
+  const completePresenterSwitch = useCallback(() => {
+    const key = pendingSwitchKeyRef.current;
+    if (!key) return;
+
+    if (switchTimeoutRef.current) {
+      clearTimeout(switchTimeoutRef.current);
+      switchTimeoutRef.current = null;
+    }
+
+    if (activeRef.current) {
+      isSwitchReadyRef.current = true;
+      switchTimeoutRef.current = setTimeout(completePresenterSwitch, PRESENTER_SWITCH_CONFIG.pollInterval);
+      return;
+    }
+
+    pendingSwitchKeyRef.current = null;
+    isSwitchReadyRef.current = false;
+    const next = poolRef.current?.claim(key);
+    if (!next) {
+      abortPresenterSwitch('the new stream was lost');
+      return;
+    }
+
+    // Finish off an earlier cross-fade that is somehow still running
+    if (crossfadeTimeoutRef.current) clearTimeout(crossfadeTimeoutRef.current);
+    previousClientRef.current?.disconnect();
+
+    console.log('Switching to presenter', key);
+    previousClientRef.current = didClientRef.current;
+    clientPresenterKeyRef.current = key;
+    next.client.updateVoice(voiceConfig);
+    setState(prev => ({ ...prev, presenterSwitch: { status: 'crossfading', previousStream: prev.streamVideo } }));
+    adoptClient(next);
+
+    crossfadeTimeoutRef.current = setTimeout(() => {
+      crossfadeTimeoutRef.current = null;
+      previousClientRef.current?.disconnect();
+      previousClientRef.current = null;
+      setState(prev => ({ ...prev, presenterSwitch: null }));
+    }, PRESENTER_SWITCH_CONFIG.crossfadeDuration);
+
+    scheduleDispatch(0);
+  }, [voiceConfig, adoptClient, abortPresenterSwitch, scheduleDispatch]);
+
+  /**
+   * A presenter picked while connected gets its own stream, negotiated in the
+   * background; the current presenter stays on screen until it is ready. One
+   * picked while the first connection is still being set up is switched to once
+   * that connection is ready.
+   */
+  useEffect(() => {
+    const pool = poolRef.current;
+    if (!config || !pool || !isConnected) return;
+
+    if (presenterKey === clientPresenterKeyRef.current) {
+      // Switched back to the presenter already on screen
+      if (pendingSwitchKeyRef.current) {
+        pendingSwitchKeyRef.current = null;
+        isSwitchReadyRef.current = false;
+        if (switchTimeoutRef.current) {
+          clearTimeout(switchTimeoutRef.current);
+          switchTimeoutRef.current = null;
+        }
+        pool.discard();
+        setState(prev => ({ ...prev, presenterSwitch: null }));
+        scheduleDispatch(0);
+      }
+      return;
+    }
+    if (pendingSwitchKeyRef.current === presenterKey) return;
+
+    // Cleared first: the stream it replaces closing is not a failure
+    pendingSwitchKeyRef.current = null;
+    isSwitchReadyRef.current = false;
+    pool.warmUp(presenterKey, () => new DidClient(config, serviceType, presenterConfig, voiceConfig));
+    pendingSwitchKeyRef.current = presenterKey;
+
+    if (switchTimeoutRef.current) clearTimeout(switchTimeoutRef.current);
+    switchTimeoutRef.current = setTimeout(() => {
+      switchTimeoutRef.current = null;
+      abortPresenterSwitch('timed out');
+    }, PRESENTER_SWITCH_CONFIG.timeout);
+    setState(prev => ({ ...prev, presenterSwitch: { status: 'preparing', previousStream: null } }));
+  }, [config, isConnected, presenterKey, serviceType, presenterConfig, voiceConfig, abortPresenterSwitch, scheduleDispatch]);
 
   /**
-   * Sends text message for streaming
+   * Completes a presenter switch when its stream is ready, or abandons it if the stream was lost
    */
-  const sendTextMessage = useCallback(async (text: string) => {
-    if (!didClientRef.current || !state.connectionState.isConnected) {
+  useEffect(() => {
+    const pool = poolRef.current;
+    if (!config || !pool) return;
+
+    return pool.on('status', (status) => {
+      if (!pendingSwitchKeyRef.current || isSwitchReadyRef.current) return;
+      if (status === 'ready') {
+        completePresenterSwitch();
+      } else if (status === 'idle') {
+        abortPresenterSwitch('the new stream could not be set up');
+      }
+    });
+  }, [config, completePresenterSwitch, abortPresenterSwitch]);
+
+  /**
+   * Adds an utterance to the queue and dispatches it if the presenter is idle
+   */
+  const enqueue = useCallback((
+    chunks: string[],
+    isOpen: boolean,
+    options: UtteranceOptions & Pick<QueuedUtterance, 'audioUrl'> = {}
+  ): string => {
+    if (!didClientRef.current || !isConnectedPhase(state.connectionState.phase)) {
       throw new Error('Not connected to streaming service');
     }
 
-    if (state.isStreaming) {
-      throw new Error('Already streaming a message. Please wait for current stream to complete.');
+    const settingsErrors = options.voiceSettings ? validateVoiceSettings(options.voiceSettings) : [];
+    if (settingsErrors.length > 0) {
+      throw new Error(`Invalid voice settings: ${settingsErrors.join(', ')}`);
     }
 
-    try {
-      lastStreamTimeRef.current = Date.now();
+    const ssmlErrors = options.ssml ? chunks.flatMap(chunk => validateSsml(sanitizeSsmlInput(chunk))) : [];
+    if (ssmlErrors.length > 0) {
+      throw new Error(`Invalid SSML: ${ssmlErrors.join(', ')}`);
+    }
 
-      // WORKAROUND: Use index 0 for all messages to treat each as "first" for ElevenLabs
-      console.log('Sending message with index 0 (workaround for ElevenLabs)');
-      didClientRef.current.sendTextMessage(text, 0);
+    if (queueRef.current.length >= STREAM_CONFIG.maxQueueLength) {
+      throw new Error('Too many pending messages. Please wait for the presenter to catch up.');
+    }
 
-      // Still increment our internal counter for logging
-      messageIndexRef.current++;
-    } catch (error) {
-      console.error('Failed to send text message:', error);
-      throw error;
+    const utterance: QueuedUtterance = {
+      id: `utt-${++utteranceIdRef.current}`,
+      text: options.ssml ? chunks.map(stripSsml).join(' ') : chunks.join(' '),
+      chunks,
+      isOpen,
+      enqueuedAt: Date.now(),
+      voiceSettings: options.voiceSettings,
+      audioUrl: options.audioUrl,
+      ssml: options.ssml,
+    };
+
+    queueRef.current.push(utterance);
+    syncQueue();
+    dispatchNext();
+
+    return utterance.id;
+  }, [state.connectionState.phase, syncQueue, dispatchNext]);
+
+  /**
+   * Queues text message for streaming; it is spoken once earlier ones finish
+   */
+  const sendTextMessage = useCallback(async (text: string, options?: UtteranceOptions): Promise<string> => {
+    return enqueue([text], false, options);
+  }, [enqueue]);
+
+  /**
+   * Queues pre-recorded audio for the presenter to lip-sync to
+   * @param label - shown in the queue in place of text, e.g. the file name
+   */
+  const sendAudioMessage = useCallback(async (audioUrl: string, label: string): Promise<string> => {
+    return enqueue([label], false, { audioUrl });
+  }, [enqueue]);
+
+  /**
+   * Queues an utterance whose text will arrive in chunks (see appendToMessage)
+   */
+  const beginStreamedMessage = useCallback((options?: UtteranceOptions): string => {
+    return enqueue([], true, options);
+  }, [enqueue]);
+
+  /**
+   * Adds a chunk to a streamed utterance, sending it right away if it is active
+   */
+  const appendToMessage = useCallback((id: string, chunk: string) => {
+    const active = activeRef.current;
+    if (active && active.utterance.id === id) {
+      active.utterance = appendChunk(active.utterance, chunk);
+      try {
+        sendPendingChunks();
+      } catch (error) {
+        console.error('Failed to send text chunk:', error);
+      }
+      return;
+    }
+
+    // Chunks for cancelled utterances simply fall through here
+    queueRef.current = queueRef.current.map(item => (item.id === id ? appendChunk(item, chunk) : item));
+    syncQueue();
+  }, [sendPendingChunks, syncQueue]);
+
+  /**
+   * Marks a streamed utterance as complete; empty ones are dropped
+   */
+  const endStreamedMessage = useCallback((id: string) => {
+    const active = activeRef.current;
+    if (active && active.utterance.id === id) {
+      active.utterance = { ...active.utterance, isOpen: false };
+      finishIfComplete();
+      return;
+    }
+
+    queueRef.current = queueRef.current
+      .map(item => (item.id === id ? { ...item, isOpen: false } : item))
+      .filter(item => item.isOpen || item.chunks.length > 0);
+    syncQueue();
+  }, [finishIfComplete, syncQueue]);
+
+  /**
+   * Removes a pending utterance before it is sent
+   */
+  const cancelQueuedMessage = useCallback((id: string) => {
+    queueRef.current = queueRef.current.filter(item => item.id !== id);
+    syncQueue();
+  }, [syncQueue]);
+
+  /**
+   * Drops every pending utterance (the one being spoken is unaffected)
+   */
+  const clearQueue = useCallback(() => {
+    queueRef.current = [];
+    syncQueue();
+  }, [syncQueue]);
+
+  /**
+   * Stops the presenter mid-answer: cancels the active utterance and drops the queue
+   */
+  const interrupt = useCallback((): InterruptResult => {
+    const active = activeRef.current;
+    const droppedIds = queueRef.current.map(item => item.id);
+
+    queueRef.current = [];
+    syncQueue();
+    if (dispatchTimeoutRef.current) {
+      clearTimeout(dispatchTimeoutRef.current);
+      dispatchTimeoutRef.current = null;
     }
-  }, [state.connectionState.isConnected, state.isStreaming]);
+
+    if (!active) return { cutUtteranceId: null, spokenChunks: [], droppedIds };
+
+    console.log('Interrupting utterance:', active.utterance.id);
+    didClientRef.current?.interrupt();
+    releaseActive();
+
+    // Chunks already sent may still report started/done; ignore them until they settle
+    interruptPendingRef.current = active.sentCount - active.doneCount;
+    if (interruptPendingRef.current > 0) {
+      interruptTimeoutRef.current = setTimeout(settleInterrupt, STREAM_CONFIG.interruptSettleTimeout);
+    }
+
+    setState(prev => ({
+      ...prev,
+      streamStatus: 'interrupted',
+      isVideoPlaying: false,
+      isStreaming: false,
+      isInterrupted: interruptPendingRef.current > 0,
+    }));
+
+    return {
+      cutUtteranceId: active.utterance.id,
+      spokenChunks: active.utterance.chunks.slice(0, active.doneCount),
+      droppedIds,
+    };
+  }, [syncQueue, releaseActive, settleInterrupt]);
 
   /**
    * Checks if streaming service is ready to accept messages
    */
   const isReady = useCallback(() => {
-    const ready = state.connectionState.isConnected && !state.connectionState.isConnecting && !state.isStreaming;
-    console.log('isReady check:', {
-      isConnected: state.connectionState.isConnected,
-      isConnecting: state.connectionState.isConnecting,
-      isStreaming: state.isStreaming,
-      ready
-    });
-    return ready;
-  }, [state.connectionState, state.isStreaming]);
+    return isConnectedPhase(state.connectionState.phase);
+  }, [state.connectionState]);
 
   /**
    * Gets current connection status for UI display
    */
-  const getConnectionStatus = useCallback(() => {
-    const { isConnecting, isConnected, error } = state.connectionState;
+  const getConnectionStatus = useCallback((): {
+    status: 'connecting' | 'reconnecting' | 'connected' | 'disconnected' | 'error';
+    message: string;
+  } => {
+    const { phase, reconnectAttempt, error } = state.connectionState;
 
-    if (error) return { status: 'error', message: error };
-    if (isConnecting) return { status: 'connecting', message: 'Connecting...' };
-    if (isConnected) return { status: 'connected', message: 'Connected' };
-    return { status: 'disconnected', message: 'Disconnected' };
-  }, [state.connectionState]);
+    if (phase === 'failed') return { status: 'error', message: error || 'Connection failed' };
+
+    // Recovery attempts pass through signaling/negotiating again
+    if (phase === 'reconnecting' || (reconnectAttempt > 0 && isConnectingPhase(phase))) {
+      return {
+        status: 'reconnecting',
+        message: `Reconnecting (${reconnectAttempt}/${RECONNECT_CONFIG.maxAttempts})...`,
+      };
+    }
+
+    if (isConnectedPhase(phase) && state.presenterSwitch?.status === 'preparing') {
+      return { status: 'connected', message: 'Switching presenter...' };
+    }
+
+    switch (phase) {
+      case 'signaling': return { status: 'connecting', message: 'Connecting...' };
+      case 'negotiating': return { status: 'connecting', message: 'Negotiating media...' };
+      case 'ready': return { status: 'connected', message: 'Connected' };
+      case 'speaking': return { status: 'connected', message: 'Speaking' };
+      case 'closing': return { status: 'disconnected', message: 'Disconnecting...' };
+      default: return { status: 'disconnected', message: 'Disconnected' };
+    }
+  }, [state.connectionState, state.presenterSwitch]);
 
   /**
    * Cleanup on unmount
    */
   useEffect(() => {
     return () => {
+      if (dispatchTimeoutRef.current) clearTimeout(dispatchTimeoutRef.current);
+      if (utteranceTimeoutRef.current) clearTimeout(utteranceTimeoutRef.current);
+      if (interruptTimeoutRef.current) clearTimeout(interruptTimeoutRef.current);
+      if (switchTimeoutRef.current) clearTimeout(switchTimeoutRef.current);
+      if (crossfadeTimeoutRef.current) clearTimeout(crossfadeTimeoutRef.current);
+      unsubscribeRef.current.forEach(unsubscribe => unsubscribe());
+      poolRef.current?.discard();
+      previousClientRef.current?.disconnect();
       if (didClientRef.current) {
         didClientRef.current.disconnect();
       }
@@ -222,10 +876,21 @@ export function useDidStreaming(config: ApiConfig | null) {
 
   return {
     ...state,
+    statsHistory,
+    timeline,
+    prewarmStatus,
+    client,
     idleVideoSrc,
     connect,
     disconnect,
     sendTextMessage,
+    sendAudioMessage,
+    beginStreamedMessage,
+    appendToMessage,
+    endStreamedMessage,
+    interrupt,
+    cancelQueuedMessage,
+    clearQueue,
     isReady,
     getConnectionStatus,
   };
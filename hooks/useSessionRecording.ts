@@ -0,0 +1,175 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { SessionRecorder, VideoLayer } from '@/lib/services/sessionRecorder';
+import { ChatMessage } from '@/types/conversation';
+import { CaptionCue } from '@/types/captions';
+import { formatCaptions } from '@/lib/utils/captions';
+
+export interface SessionRecordingState {
+  isRecording: boolean;
+  elapsedMs: number;
+  startedAt: number | null; // start of the current or last recording, for aligning exports
+  error: string | null;
+}
+
+export interface RecordingTranscript {
+  recordingStartedAt: string;
+  durationMs: number;
+  videoFile: string;
+  captionsFile: string | null; // WebVTT sidecar, if anything was spoken
+  messages: {
+    role: 'user' | 'assistant';
+    content: string; // only what was actually spoken for interrupted replies
+    offsetMs: number; // from the start of the recording
+    interrupted?: boolean;
+  }[];
+}
+
+/**
+ * Saves a blob through a temporary download link
+ */
+function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Hook for recording the presenter session to a WebM file plus a transcript sidecar
+ */
+export function useSessionRecording(getLayers: () => VideoLayer[], streamVideo: MediaStream | null) {
+  const [state, setState] = useState<SessionRecordingState>({
+    isRecording: false,
+    elapsedMs: 0,
+    startedAt: null,
+    error: null,
+  });
+
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const startedAtRef = useRef(0);
+  const timerRef = useRef<NodeJS.Timeout | null>(null);
+
+  const clearTimer = useCallback(() => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+  }, []);
+
+  /**
+   * Follows the presenter stream across reconnects
+   */
+  useEffect(() => {
+    recorderRef.current?.setStreamAudio(streamVideo);
+  }, [streamVideo]);
+
+  /**
+   * Starts recording the composited presenter view
+   */
+  const startRecording = useCallback(() => {
+    if (recorderRef.current) return;
+
+    try {
+      const recorder = new SessionRecorder(getLayers);
+      recorder.start();
+      recorder.setStreamAudio(streamVideo);
+      recorderRef.current = recorder;
+
+      startedAtRef.current = Date.now();
+      setState({ isRecording: true, elapsedMs: 0, startedAt: startedAtRef.current, error: null });
+
+      timerRef.current = setInterval(() => {
+        setState(prev => ({ ...prev, elapsedMs: Date.now() - startedAtRef.current }));
+      }, 1000);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to start session recording';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      console.error('Failed to start session recording:', error);
+    }
+  }, [getLayers, streamVideo]);
+
+  /**
+   * Stops recording and downloads the video, its transcript and its captions
+   */
+  const stopRecording = useCallback(async (messages: ChatMessage[], captionCues: CaptionCue[] = []) => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+
+    recorderRef.current = null;
+    clearTimer();
+
+    try {
+      const video = await recorder.stop();
+      const startedAt = startedAtRef.current;
+      const baseName = `session-${new Date(startedAt).toISOString().replace(/[:.]/g, '-')}`;
+      const recordedCues = captionCues.filter(cue => cue.end > startedAt);
+
+      const transcript: RecordingTranscript = {
+        recordingStartedAt: new Date(startedAt).toISOString(),
+        durationMs: Date.now() - startedAt,
+        videoFile: `${baseName}.webm`,
+        captionsFile: recordedCues.length > 0 ? `${baseName}.vtt` : null,
+        messages: messages
+          .filter(msg => msg.role !== 'system' && msg.content && (msg.timestamp ?? 0) >= startedAt)
+          .map(msg => ({
+            role: msg.role as 'user' | 'assistant',
+            content: msg.truncatedAt !== undefined ? msg.content.slice(0, msg.truncatedAt) : msg.content,
+            offsetMs: (msg.timestamp ?? startedAt) - startedAt,
+            ...(msg.truncatedAt !== undefined && { interrupted: true }),
+          })),
+      };
+
+      downloadBlob(video, transcript.videoFile);
+      downloadBlob(
+        new Blob([JSON.stringify(transcript, null, 2)], { type: 'application/json' }),
+        `${baseName}.json`
+      );
+      if (transcript.captionsFile) {
+        downloadBlob(
+          new Blob([formatCaptions(recordedCues, startedAt, 'vtt')], { type: 'text/vtt' }),
+          transcript.captionsFile
+        );
+      }
+
+      setState({ isRecording: false, elapsedMs: 0, startedAt, error: null });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to save session recording';
+      setState(prev => ({ ...prev, isRecording: false, elapsedMs: 0, error: errorMessage }));
+      console.error('Failed to save session recording:', error);
+    }
+  }, [clearTimer]);
+
+  /**
+   * Mixes an extra audio source (e.g. the user's microphone) into the recording
+   */
+  const addAudioStream = useCallback((stream: MediaStream) => {
+    recorderRef.current?.addAudioStream(stream);
+  }, []);
+
+  /**
+   * Clears error state
+   */
+  const clearError = useCallback(() => {
+    setState(prev => ({ ...prev, error: null }));
+  }, []);
+
+  /**
+   * Cleanup on unmount
+   */
+  useEffect(() => {
+    return () => {
+      clearTimer();
+      recorderRef.current?.stop().catch(() => {});
+    };
+  }, [clearTimer]);
+
+  return {
+    ...state,
+    startRecording,
+    stopRecording,
+    addAudioStream,
+    clearError,
+  };
+}
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { useState, useCallback, useEffect } from 'react';
+import { VirtualBackgroundSettings } from '@/types/background';
+import { DEFAULT_VIRTUAL_BACKGROUND } from '@/lib/utils/constants';
+
+const STORAGE_KEY = 'did-virtual-background';
+
+/**
+ * Hook for the virtual background settings, remembered across sessions
+ */
+export function useVirtualBackground() {
+  const [settings, setSettings] = useState<VirtualBackgroundSettings>(DEFAULT_VIRTUAL_BACKGROUND);
+
+  // Read after mount so server and client render the same defaults
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) setSettings({ ...DEFAULT_VIRTUAL_BACKGROUND, ...JSON.parse(stored) });
+    } catch {
+      // Ignore unreadable settings and keep the defaults
+    }
+  }, []);
+
+  const save = useCallback((next: VirtualBackgroundSettings) => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch (error) {
+      console.warn('Failed to save virtual background:', error);
+    }
+  }, []);
+
+  const updateSettings = useCallback((updates: Partial<VirtualBackgroundSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...updates };
+      save(next);
+      return next;
+    });
+  }, [save]);
+
+  const resetSettings = useCallback(() => {
+    setSettings(DEFAULT_VIRTUAL_BACKGROUND);
+    save(DEFAULT_VIRTUAL_BACKGROUND);
+  }, [save]);
+
+  return {
+    settings,
+    updateSettings,
+    resetSettings,
+  };
+}
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { useState, useCallback, useRef } from 'react';
 import { DeepgramClient } from '@/lib/services/deepgramClient';
+import { latencyTracker } from '@/lib/services/latencyTracker';
 
 export interface VoiceRecordingState {
   isRecording: boolean;
@@ -7,10 +8,15 @@ export interface VoiceRecordingState {
   error: string | null;
 }
 
+export interface VoiceRecordingOptions {
+  onRecordingStart?: () => void; // e.g. barge-in on the presenter
+}
+
 /**
  * Hook for managing voice recording and transcription
  */
-export function useVoiceRecording(deepgramClient: DeepgramClient | null) {
+export function useVoiceRecording(deepgramClient: DeepgramClient | null, options: VoiceRecordingOptions = {}) {
+  const { onRecordingStart } = options;
   const [state, setState] = useState<VoiceRecordingState>({
     isRecording: false,
     isProcessing: false,
@@ -38,6 +44,7 @@ export function useVoiceRecording(deepgramClient: DeepgramClient | null) {
         isRecording: true,
         error: null,
       }));
+      onRecordingStart?.();
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to start recording';
       setState(prev => ({
@@ -46,7 +53,7 @@ export function useVoiceRecording(deepgramClient: DeepgramClient | null) {
       }));
       console.error('Failed to start recording:', error);
     }
-  }, [deepgramClient]);
+  }, [deepgramClient, onRecordingStart]);
 
   /**
    * Stops voice recording and returns transcription
@@ -54,6 +61,9 @@ export function useVoiceRecording(deepgramClient: DeepgramClient | null) {
   const stopRecording = useCallback(async (): Promise<string | null> => {
     if (!state.isRecording || !deepgramClient) return null;
 
+    const turnId = latencyTracker.startTurn('voice');
+    latencyTracker.mark('recording-stopped', turnId);
+
     setState(prev => ({
       ...prev,
       isRecording: false,
@@ -62,6 +72,7 @@ export function useVoiceRecording(deepgramClient: DeepgramClient | null) {
 
     try {
       const transcription = await deepgramClient.stopRecording();
+      if (transcription) latencyTracker.mark('transcript-received', turnId);
       setState(prev => ({
         ...prev,
         isProcessing: false,
@@ -0,0 +1,352 @@
+import { VirtualBackgroundSettings, BackgroundSource } from '@/types/background';
+import { VIRTUAL_BACKGROUND_CONFIG, DEFAULT_VIRTUAL_BACKGROUND } from '@/lib/utils/constants';
+import { VideoLayer, getSourceSize } from './sessionRecorder';
+
+const VERTEX_SHADER = `
+attribute vec2 a_position;
+uniform vec2 u_scale;
+uniform vec2 u_offset;
+varying vec2 v_texCoord;
+
+void main() {
+  vec2 texCoord = vec2((a_position.x + 1.0) / 2.0, (1.0 - a_position.y) / 2.0);
+  v_texCoord = texCoord * u_scale + u_offset;
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}
+`;
+
+// Mode 0 draws the frame as is (the background), 1 keys a colour, 2 keys by brightness
+const FRAGMENT_SHADER = `
+precision mediump float;
+
+uniform sampler2D u_frame;
+uniform int u_mode;
+uniform vec3 u_keyColor;
+uniform float u_similarity;
+uniform float u_smoothness;
+uniform float u_spill;
+uniform float u_lumaThreshold;
+uniform float u_lumaSign;
+uniform vec2 u_texel;
+uniform float u_feather;
+uniform float u_opacity;
+varying vec2 v_texCoord;
+
+const vec3 LUMA = vec3(0.2126, 0.7152, 0.0722);
+
+vec2 toChroma(vec3 rgb) {
+  return vec2(dot(rgb, vec3(-0.169, -0.331, 0.5)), dot(rgb, vec3(0.5, -0.419, -0.081)));
+}
+
+float chromaDistance(vec3 rgb) {
+  return distance(toChroma(rgb), toChroma(u_keyColor)) - u_similarity;
+}
+
+float matte(vec3 rgb) {
+  if (u_mode == 1) {
+    return smoothstep(0.0, max(u_smoothness, 0.001), chromaDistance(rgb));
+  }
+  if (u_mode == 2) {
+    return smoothstep(0.0, max(u_smoothness, 0.001), (dot(rgb, LUMA) - u_lumaThreshold) * u_lumaSign);
+  }
+  return 1.0;
+}
+
+void main() {
+  vec4 color = texture2D(u_frame, v_texCoord);
+  float alpha = matte(color.rgb);
+
+  if (u_feather > 0.0) {
+    vec2 offset = u_texel * u_feather;
+    alpha = (alpha * 2.0
+      + matte(texture2D(u_frame, v_texCoord + vec2(offset.x, offset.y)).rgb)
+      + matte(texture2D(u_frame, v_texCoord + vec2(-offset.x, offset.y)).rgb)
+      + matte(texture2D(u_frame, v_texCoord + vec2(offset.x, -offset.y)).rgb)
+      + matte(texture2D(u_frame, v_texCoord + vec2(-offset.x, -offset.y)).rgb)) / 6.0;
+  }
+
+  if (u_mode == 1) {
+    // Pull key-colour fringes (e.g. green reflections on hair) towards grey
+    float spill = smoothstep(0.0, max(u_spill, 0.001), chromaDistance(color.rgb));
+    color.rgb = mix(vec3(dot(color.rgb, LUMA)), color.rgb, spill);
+  }
+
+  gl_FragColor = vec4(color.rgb, alpha * u_opacity);
+}
+`;
+
+const UNIFORMS = [
+  'u_scale', 'u_offset', 'u_frame', 'u_mode', 'u_keyColor', 'u_similarity', 'u_smoothness',
+  'u_spill', 'u_lumaThreshold', 'u_lumaSign', 'u_texel', 'u_feather', 'u_opacity',
+] as const;
+
+type UniformName = typeof UNIFORMS[number];
+
+/**
+ * Parses '#rrggbb' into 0-1 channels
+ */
+function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace('#', ''), 16);
+  if (isNaN(value)) return [0, 0, 0];
+  return [((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255];
+}
+
+/**
+ * Keys the background out of the presenter's video layers on a WebGL canvas and
+ * composites them, at their current opacities, over an image, video or colour.
+ * Every layer (stream, idle, custom animation) goes through the same key, so
+ * cross-fades between them look the same as without a virtual background.
+ */
+export class BackgroundCompositor {
+  private readonly canvas: HTMLCanvasElement;
+  private readonly getLayers: () => VideoLayer[];
+  private readonly onError: (error: Error) => void;
+  private readonly gl: WebGLRenderingContext;
+  private readonly program: WebGLProgram;
+  private readonly uniforms: Record<UniformName, WebGLUniformLocation | null>;
+  private readonly frameTexture: WebGLTexture;
+  private readonly backgroundTexture: WebGLTexture;
+  private settings: VirtualBackgroundSettings = DEFAULT_VIRTUAL_BACKGROUND;
+  private backgroundElement: HTMLImageElement | HTMLVideoElement | null = null;
+  private backgroundReady = false;
+  private animationFrameId: number | null = null;
+
+  constructor(
+    canvas: HTMLCanvasElement,
+    getLayers: () => VideoLayer[],
+    onError: (error: Error) => void
+  ) {
+    this.canvas = canvas;
+    this.getLayers = getLayers;
+    this.onError = onError;
+
+    // preserveDrawingBuffer lets the session recorder copy frames outside our render loop
+    const gl = canvas.getContext('webgl', { alpha: false, premultipliedAlpha: false, preserveDrawingBuffer: true });
+    if (!gl) {
+      throw new Error('WebGL is not supported in this browser');
+    }
+    this.gl = gl;
+
+    this.program = this.createProgram();
+    this.uniforms = Object.fromEntries(
+      UNIFORMS.map(name => [name, gl.getUniformLocation(this.program, name)])
+    ) as Record<UniformName, WebGLUniformLocation | null>;
+
+    // Full-screen quad as a triangle strip
+    const buffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+    const position = gl.getAttribLocation(this.program, 'a_position');
+    gl.enableVertexAttribArray(position);
+    gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+    this.frameTexture = this.createTexture();
+    this.backgroundTexture = this.createTexture();
+
+    gl.useProgram(this.program);
+    gl.uniform1i(this.uniforms.u_frame, 0);
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+  }
+
+  /**
+   * Starts compositing on every animation frame
+   */
+  start(): void {
+    if (this.animationFrameId !== null) return;
+
+    const loop = () => {
+      this.render();
+      // render() destroys the compositor if a frame can't be read
+      if (this.animationFrameId !== null) this.animationFrameId = requestAnimationFrame(loop);
+    };
+    this.animationFrameId = requestAnimationFrame(loop);
+  }
+
+  /**
+   * Applies new keying settings; the background is reloaded only if its source changed
+   */
+  setSettings(settings: VirtualBackgroundSettings): void {
+    const previous = this.settings.background;
+    this.settings = settings;
+    if (JSON.stringify(previous) !== JSON.stringify(settings.background)) {
+      this.loadBackground(settings.background);
+    }
+  }
+
+  /**
+   * Stops rendering and releases the GL resources and background media
+   */
+  destroy(): void {
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+    this.releaseBackground();
+
+    const { gl } = this;
+    gl.deleteTexture(this.frameTexture);
+    gl.deleteTexture(this.backgroundTexture);
+    gl.deleteProgram(this.program);
+  }
+
+  /**
+   * Draws the background, then every visible layer back to front with its background keyed out
+   */
+  private render(): void {
+    const { gl, settings } = this;
+    this.resize();
+
+    const [red, green, blue] = settings.background.type === 'color' ? hexToRgb(settings.background.color) : [0, 0, 0];
+    gl.clearColor(red, green, blue, 1);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+
+    try {
+      if (this.backgroundElement && this.backgroundReady) {
+        this.drawSource(this.backgroundTexture, this.backgroundElement, 1, false);
+      }
+
+      for (const { source, opacity } of this.getLayers()) {
+        if (opacity > 0) this.drawSource(this.frameTexture, source, opacity, true);
+      }
+    } catch (error) {
+      // Typically a cross-origin video without CORS headers, which WebGL may not read
+      this.destroy();
+      this.onError(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  /**
+   * Uploads a frame and draws it cropped like CSS object-fit: cover
+   */
+  private drawSource(
+    texture: WebGLTexture,
+    source: HTMLVideoElement | HTMLCanvasElement | HTMLImageElement,
+    opacity: number,
+    keyed: boolean
+  ): void {
+    const size = source instanceof HTMLImageElement
+      ? { width: source.naturalWidth, height: source.naturalHeight }
+      : getSourceSize(source);
+    if (!size || !size.width || !size.height) return;
+
+    const { gl, settings, uniforms } = this;
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+
+    const canvasAspect = this.canvas.width / this.canvas.height;
+    const sourceAspect = size.width / size.height;
+    const scaleX = sourceAspect > canvasAspect ? canvasAspect / sourceAspect : 1;
+    const scaleY = sourceAspect > canvasAspect ? 1 : sourceAspect / canvasAspect;
+    gl.uniform2f(uniforms.u_scale, scaleX, scaleY);
+    gl.uniform2f(uniforms.u_offset, (1 - scaleX) / 2, (1 - scaleY) / 2);
+
+    const mode = keyed ? { off: 0, chroma: 1, luma: 2 }[settings.mode] : 0;
+    gl.uniform1i(uniforms.u_mode, mode);
+    gl.uniform3f(uniforms.u_keyColor, ...hexToRgb(settings.keyColor));
+    gl.uniform1f(uniforms.u_similarity, settings.similarity);
+    gl.uniform1f(uniforms.u_smoothness, settings.smoothness);
+    gl.uniform1f(uniforms.u_spill, settings.spill);
+    gl.uniform1f(uniforms.u_lumaThreshold, settings.lumaThreshold);
+    gl.uniform1f(uniforms.u_lumaSign, settings.lumaKey === 'dark' ? 1 : -1);
+    gl.uniform2f(uniforms.u_texel, 1 / size.width, 1 / size.height);
+    gl.uniform1f(uniforms.u_feather, mode === 0 ? 0 : settings.feather);
+    gl.uniform1f(uniforms.u_opacity, opacity);
+
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+  }
+
+  /**
+   * Matches the drawing buffer to the displayed size, capped for high-DPI screens
+   */
+  private resize(): void {
+    const ratio = Math.min(window.devicePixelRatio || 1, VIRTUAL_BACKGROUND_CONFIG.maxPixelRatio);
+    const width = Math.max(1, Math.round(this.canvas.clientWidth * ratio));
+    const height = Math.max(1, Math.round(this.canvas.clientHeight * ratio));
+
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+      this.gl.viewport(0, 0, width, height);
+    }
+  }
+
+  private loadBackground(background: BackgroundSource): void {
+    this.releaseBackground();
+    if (background.type === 'color' || !background.url) return;
+
+    const onReady = () => {
+      this.backgroundReady = true;
+    };
+    const onError = () => console.warn('Virtual background failed to load:', background.url);
+
+    if (background.type === 'image') {
+      const image = new Image();
+      image.crossOrigin = 'anonymous';
+      image.addEventListener('load', onReady, { once: true });
+      image.addEventListener('error', onError, { once: true });
+      image.src = background.url;
+      this.backgroundElement = image;
+    } else {
+      const video = document.createElement('video');
+      video.crossOrigin = 'anonymous';
+      video.muted = true;
+      video.loop = true;
+      video.playsInline = true;
+      video.addEventListener('canplay', onReady, { once: true });
+      video.addEventListener('error', onError, { once: true });
+      video.src = background.url;
+      video.play().catch((error) => {
+        if (error.name !== 'AbortError') console.warn('Virtual background video play failed:', error.message);
+      });
+      this.backgroundElement = video;
+    }
+  }
+
+  private releaseBackground(): void {
+    if (this.backgroundElement instanceof HTMLVideoElement) {
+      this.backgroundElement.pause();
+      this.backgroundElement.removeAttribute('src');
+      this.backgroundElement.load();
+    }
+    this.backgroundElement = null;
+    this.backgroundReady = false;
+  }
+
+  private createProgram(): WebGLProgram {
+    const { gl } = this;
+    const program = gl.createProgram();
+    if (!program) throw new Error('Failed to create WebGL program');
+
+    for (const [type, source] of [[gl.VERTEX_SHADER, VERTEX_SHADER], [gl.FRAGMENT_SHADER, FRAGMENT_SHADER]] as const) {
+      const shader = gl.createShader(type);
+      if (!shader) throw new Error('Failed to create WebGL shader');
+      gl.shaderSource(shader, source);
+      gl.compileShader(shader);
+      if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+        throw new Error(`Shader compilation failed: ${gl.getShaderInfoLog(shader)}`);
+      }
+      gl.attachShader(program, shader);
+    }
+
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      throw new Error(`Shader linking failed: ${gl.getProgramInfoLog(program)}`);
+    }
+    return program;
+  }
+
+  private createTexture(): WebGLTexture {
+    const { gl } = this;
+    const texture = gl.createTexture();
+    if (!texture) throw new Error('Failed to create WebGL texture');
+
+    // Video frames are rarely power-of-two sized: no mipmaps, no repeat
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    return texture;
+  }
+}
\ No newline at end of file
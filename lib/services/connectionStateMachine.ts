@@ -0,0 +1,77 @@
+import { ConnectionPhase, ConnectionTransition } from '@/types/did';
+
+const MAX_HISTORY = 50;
+
+// Every phase a connection may move to from each phase
+const TRANSITIONS: Record<ConnectionPhase, ConnectionPhase[]> = {
+  idle: ['signaling'],
+  signaling: ['negotiating', 'reconnecting', 'closing', 'failed'],
+  negotiating: ['ready', 'reconnecting', 'closing', 'failed'],
+  ready: ['speaking', 'reconnecting', 'closing', 'failed'],
+  speaking: ['ready', 'reconnecting', 'closing', 'failed'],
+  closing: ['closed'],
+  closed: ['signaling'],
+  failed: ['signaling', 'closing'],
+  reconnecting: ['signaling', 'closing', 'failed'],
+};
+
+/**
+ * Whether a session in this phase can accept stream-text messages
+ */
+export function isConnectedPhase(phase: ConnectionPhase): boolean {
+  return phase === 'ready' || phase === 'speaking';
+}
+
+/**
+ * Whether a session in this phase is still being set up
+ */
+export function isConnectingPhase(phase: ConnectionPhase): boolean {
+  return phase === 'signaling' || phase === 'negotiating';
+}
+
+/**
+ * Finite state machine for the D-ID connection lifecycle with guarded transitions
+ */
+export class ConnectionStateMachine {
+  private phase: ConnectionPhase = 'idle';
+  private history: ConnectionTransition[] = [];
+
+  /**
+   * Gets the current phase
+   */
+  getPhase(): ConnectionPhase {
+    return this.phase;
+  }
+
+  /**
+   * Checks whether moving to the given phase is allowed
+   */
+  can(to: ConnectionPhase): boolean {
+    return TRANSITIONS[this.phase].includes(to);
+  }
+
+  /**
+   * Moves to a new phase, recording it in the history
+   * @returns false (and leaves the phase untouched) if the transition is not allowed
+   */
+  transition(to: ConnectionPhase, reason: string): boolean {
+    if (!this.can(to)) {
+      console.warn(`Ignoring connection transition ${this.phase} -> ${to} (${reason})`);
+      return false;
+    }
+
+    const entry: ConnectionTransition = { from: this.phase, to, reason, timestamp: Date.now() };
+    console.log(`Connection: ${entry.from} -> ${entry.to} (${reason})`);
+
+    this.phase = to;
+    this.history = [...this.history, entry].slice(-MAX_HISTORY);
+    return true;
+  }
+
+  /**
+   * Gets the most recent transitions, oldest first
+   */
+  getHistory(): ConnectionTransition[] {
+    return this.history;
+  }
+}
\ No newline at end of file
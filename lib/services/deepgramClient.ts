@@ -1,5 +1,6 @@
 import { DeepgramResponse } from '@/types/conversation';
-import { DEEPGRAM_CONFIG, ERROR_MESSAGES } from '@/lib/utils/constants';
+import { ClientMode } from '@/types/api';
+import { DEEPGRAM_CONFIG, PROXY_CONFIG, ERROR_MESSAGES } from '@/lib/utils/constants';
 
 /**
  * Client for Deepgram speech-to-text transcription
@@ -9,9 +10,14 @@ export class DeepgramClient {
   private audioChunks: Blob[] = [];
   private stream: MediaStream | null = null;
   private readonly deepgramKey: string;
+  private readonly mode: ClientMode;
 
-  constructor(deepgramKey: string) {
+  /**
+   * @param deepgramKey Deepgram key; unused in 'proxy' mode, where /api/transcribe holds it
+   */
+  constructor(deepgramKey: string, mode: ClientMode = 'direct') {
     this.deepgramKey = deepgramKey;
+    this.mode = mode;
   }
 
   /**
@@ -62,22 +68,35 @@ export class DeepgramClient {
     });
   }
 
+  /**
+   * Gets the microphone stream while a recording is in progress
+   */
+  getStream(): MediaStream | null {
+    return this.stream;
+  }
+
   /**
    * Transcribes audio blob using Deepgram API
    */
   private async transcribeAudio(audioBlob: Blob): Promise<string> {
     try {
-      const response = await fetch(
-        `https://api.deepgram.com/v1/listen?model=${DEEPGRAM_CONFIG.model}&smart_format=${DEEPGRAM_CONFIG.smart_format}&language=es`,
-        {
+      const response = this.mode === 'proxy'
+        ? await fetch(PROXY_CONFIG.transcribeRoute, {
           method: 'POST',
-          headers: {
-            Authorization: `Token ${this.deepgramKey}`,
-            'Content-Type': 'audio/wav',
-          },
+          headers: { 'Content-Type': 'audio/wav' },
           body: audioBlob,
-        }
-      );
+        })
+        : await fetch(
+          `https://api.deepgram.com/v1/listen?model=${DEEPGRAM_CONFIG.model}&smart_format=${DEEPGRAM_CONFIG.smart_format}&language=es`,
+          {
+            method: 'POST',
+            headers: {
+              Authorization: `Token ${this.deepgramKey}`,
+              'Content-Type': 'audio/wav',
+            },
+            body: audioBlob,
+          }
+        );
 
       if (!response.ok) {
         throw new Error(`Deepgram API error: ${response.status}`);
@@ -1,58 +1,95 @@
-import { InitStreamMessage, StreamTextMessage, WebSocketResponse, ConnectionState, StreamMessage, PresenterConfig } from '@/types/did';
+import { InitStreamMessage, StreamTextMessage, SignalingResponse, InitStreamResponse, SignalingProtocolError, ProtocolDiagnostics, ProtocolErrorEvent, UtteranceEvent, VideoModeEvent, VideoMode, IceEvent, LatencyEvent, MessageTimelineEntry, ConnectionState, ConnectionPhase, ConnectionTransition, StreamMessage, PresenterConfig, StreamStats, VoiceConfig, VoiceSettings } from '@/types/did';
 import { ApiConfig } from '@/types/api';
 import { WebRTCManager, WebRTCCallbacks } from './webrtcManager';
-import { PRESENTER_CONFIG, ELEVENLABS_CONFIG, ERROR_MESSAGES } from '@/lib/utils/constants';
+import { SignalingTransport, WebSocketSignalingTransport, RelaySignalingTransport } from './signalingTransport';
+import { ConnectionStateMachine, isConnectedPhase, isConnectingPhase } from './connectionStateMachine';
+import { parseSignalingMessage } from './signalingProtocol';
+import { TypedEventEmitter } from './typedEventEmitter';
+import { VideoHealthMonitor } from './videoHealthMonitor';
+import { PRESENTER_CONFIG, DEFAULT_VOICE, ERROR_MESSAGES, RECONNECT_CONFIG, SIGNALING_PROTOCOL_CONFIG, TIMELINE_CONFIG } from '@/lib/utils/constants';
+import { toStreamProvider, requiresExternalKey, validateVoiceSettings } from '@/lib/utils/voice';
+import { escapeSsml, sanitizeSsmlInput, stripSsml } from '@/lib/utils/ssml';
+
+export interface DidClientEvents {
+  state: ConnectionState;
+  track: MediaStream;
+  'stream-event': string; // raw stream status: started, done, error, ready, ...
+  'utterance-started': UtteranceEvent;
+  'utterance-done': UtteranceEvent; // also fired, with status 'error', when an utterance fails
+  ice: IceEvent;
+  stats: StreamStats; // WebRTC quality sample every STATS_CONFIG.pollInterval
+  'protocol-error': ProtocolErrorEvent; // an inbound message failed validation
+  latency: LatencyEvent;
+  timeline: MessageTimelineEntry[]; // per-message timeline, oldest first, after any change
+  'video-mode': VideoModeEvent; // fell back to audio only, or video recovered
+}
+
+export interface MessageOptions {
+  utteranceId?: string; // queued utterance the message belongs to, for the timeline
+}
+
+export interface TextMessageOptions extends MessageOptions {
+  voiceSettings?: VoiceSettings; // overrides for this message only, on top of the voice's settings
+  ssml?: boolean; // text is an SSML script (see lib/utils/ssml) rather than plain text
+}
 
 /**
- * Client for D-ID streaming API with WebSocket and WebRTC
+ * Client for D-ID streaming API with WebSocket and WebRTC.
+ * Consumers subscribe with on/off/once (see DidClientEvents).
  */
-export class DidClient {
-  private ws: WebSocket | null = null;
+export class DidClient extends TypedEventEmitter<DidClientEvents> {
+  private transport: SignalingTransport | null = null;
   private webrtcManager: WebRTCManager;
   private config: ApiConfig;
   private presenterConfig: PresenterConfig;
   private serviceType: 'talks' | 'clips';
+  private voiceConfig: VoiceConfig;
+  private isActive = false; // between connect() and disconnect()
+  private reconnectTimeoutId: NodeJS.Timeout | null = null;
+  private iceDisconnectTimeoutId: NodeJS.Timeout | null = null;
+  private iceRestartTimeoutId: NodeJS.Timeout | null = null;
+  private canRestartIce = false; // the server advertised it answers ICE restart offers
+  private attemptTimeoutId: NodeJS.Timeout | null = null;
+  private currentVideoId: string | null = null;
+  private timeline: MessageTimelineEntry[] = [];
+  private timelineSeq = 0;
+  private machine = new ConnectionStateMachine();
+  private videoHealth = new VideoHealthMonitor();
+  private protocolDiagnostics: ProtocolDiagnostics = { unknownMessages: 0, invalidMessages: 0, recentErrors: [] };
   private connectionState: ConnectionState = {
-    isConnecting: false,
-    isConnected: false,
+    phase: 'idle',
+    reconnectAttempt: 0,
     streamId: null,
     sessionId: null,
     error: null,
   };
 
-  constructor(config: ApiConfig, serviceType: 'talks' | 'clips', presenterConfig?: PresenterConfig) {
+  constructor(config: ApiConfig, serviceType: 'talks' | 'clips', presenterConfig?: PresenterConfig, voiceConfig?: VoiceConfig) {
+    super();
     this.config = config;
     this.serviceType = serviceType;
     this.presenterConfig = presenterConfig || PRESENTER_CONFIG;
+    this.voiceConfig = voiceConfig || DEFAULT_VOICE;
     this.webrtcManager = new WebRTCManager();
   }
 
   /**
    * Connects to D-ID WebSocket and initializes stream
    */
-  async connect(callbacks: {
-    onConnectionStateChange: (state: ConnectionState) => void;
-    onVideoTrack: (stream: MediaStream) => void;
-    onStreamEvent: (status: string) => void;
-  }): Promise<void> {
-    try {
-      this.updateConnectionState({ isConnecting: true, error: null });
-      callbacks.onConnectionStateChange(this.connectionState);
-
-      this.ws = await this.connectToWebSocket();
-      this.setupWebSocketHandlers(callbacks);
+  async connect(): Promise<void> {
+    this.isActive = true;
+    this.timeline = [];
+    this.emit('timeline', this.timeline);
+    this.cancelReconnect();
+    this.protocolDiagnostics = { unknownMessages: 0, invalidMessages: 0, recentErrors: [] };
 
-      const initMessage = this.createInitStreamMessage();
-      console.log('Sending init stream message:', initMessage);
-      this.sendMessage(initMessage);
+    if (!this.transition('signaling', 'Connect requested', { reconnectAttempt: 0, error: null })) return;
 
+    try {
+      await this.openSession();
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Connection failed';
-      this.updateConnectionState({
-        isConnecting: false,
-        error: errorMessage
-      });
-      callbacks.onConnectionStateChange(this.connectionState);
+      this.fail(errorMessage);
       throw error;
     }
   }
@@ -60,38 +97,50 @@ export class DidClient {
   /**
    * Sends text message for streaming
    */
-  sendTextMessage(text: string, messageIndex: number): void {
+  sendTextMessage(text: string, messageIndex: number, options: TextMessageOptions = {}): void {
+    const { voiceSettings } = options;
     console.log('Attempting to send text message:', {
       text,
       messageIndex,
-      hasWebSocket: !!this.ws,
+      hasTransport: !!this.transport,
       streamId: this.connectionState.streamId,
       sessionId: this.connectionState.sessionId,
-      isConnected: this.connectionState.isConnected,
+      phase: this.connectionState.phase,
       service: this.serviceType,
       presenterConfig: this.presenterConfig,
-      voiceId: ELEVENLABS_CONFIG.voice_id
+      voice: this.voiceConfig,
+      voiceSettings,
+      ssml: options.ssml
     });
 
-    if (!this.ws || !this.connectionState.streamId || !this.connectionState.sessionId) {
+    if (!this.transport || !this.connectionState.streamId || !this.connectionState.sessionId) {
       console.error('Connection check failed:', {
-        hasWebSocket: !!this.ws,
+        hasTransport: !!this.transport,
         streamId: this.connectionState.streamId,
         sessionId: this.connectionState.sessionId
       });
       throw new Error('Not connected to streaming service');
     }
 
+    if (this.voiceConfig.provider === 'elevenlabs') {
+      const errors = validateVoiceSettings({ ...this.voiceConfig.settings, ...voiceSettings });
+      if (errors.length > 0) {
+        throw new Error(`Invalid voice settings: ${errors.join(', ')}`);
+      }
+    }
+
+    // Clips always stream as SSML (needed for breaks), so plain text is escaped
+    // to keep a stray '<' or '&' from an LLM reply from breaking the script
+    const ssml = options.ssml || this.serviceType === 'clips';
+    const input = options.ssml ? sanitizeSsmlInput(text) : ssml ? escapeSsml(text) : text;
+
+    const presenterType = this.serviceType === 'clips' ? ('clip' as const) : ('talk' as const);
     const payloadBase = {
       script: {
         type: 'text' as const,
-        input: text,
-        provider: {
-          type: 'elevenlabs' as const,
-          voice_id: ELEVENLABS_CONFIG.voice_id,
-          model_id: ELEVENLABS_CONFIG.model_id,
-        },
-        ssml: this.serviceType === 'clips', // Enable SSML for clips (needed for breaks)
+        input,
+        provider: toStreamProvider(this.voiceConfig, voiceSettings),
+        ssml,
       },
       config: {
         stitch: true,
@@ -99,50 +148,100 @@ export class DidClient {
       session_id: this.connectionState.sessionId,
       stream_id: this.connectionState.streamId,
       index: messageIndex,
-      presenter_type: this.serviceType === 'clips' ? ('clip' as const) : ('talk' as const),
+      presenter_type: presenterType,
     };
 
+    // The relay attaches the ElevenLabs key server-side
+    const attachKey = requiresExternalKey(this.voiceConfig, presenterType) && this.config.didSignalingMode !== 'relay';
+    if (attachKey && !this.config.elevenlabsApiKey) {
+      console.warn('ElevenLabs voice selected but NEXT_PUBLIC_ELEVENLABS_API_KEY is not set');
+    }
+
     const message: StreamTextMessage = {
       type: 'stream-text',
-      payload:
-        this.serviceType === 'clips'
-          ? {
-            ...payloadBase,
-          }
-          : {
-            ...payloadBase,
-            // Only ElevenLabs requires an external API key
-            apiKeyExternal: {
-              elevenlabs: { key: this.config.elevenlabsApiKey },
-            },
+      payload: attachKey && this.config.elevenlabsApiKey
+        ? {
+          ...payloadBase,
+          apiKeyExternal: {
+            elevenlabs: { key: this.config.elevenlabsApiKey },
           },
-    } as StreamTextMessage;
+        }
+        : payloadBase,
+    };
 
     console.log('Sending stream-text message');
     console.log('Full stream message payload:', JSON.stringify(message, null, 2));
     this.sendMessage(message);
+    this.recordSent(messageIndex, 'text', options.utteranceId, options.ssml ? stripSsml(text) : text);
   }
 
   /**
-   * Disconnects from D-ID service
+   * Sends pre-recorded audio for the presenter to lip-sync to
+   * @param audioUrl - URL D-ID can fetch, e.g. one returned by /api/upload
    */
-  disconnect(): void {
-    if (this.ws) {
-      const deleteMessage: StreamMessage = {
-        type: 'delete-stream',
-        payload: {
-          session_id: this.connectionState.sessionId,
-          stream_id: this.connectionState.streamId,
+  sendAudioMessage(audioUrl: string, messageIndex: number, options: MessageOptions = {}): void {
+    if (!this.transport || !this.connectionState.streamId || !this.connectionState.sessionId) {
+      throw new Error('Not connected to streaming service');
+    }
+
+    // No TTS involved, so no provider or external key
+    const message: StreamTextMessage = {
+      type: 'stream-text',
+      payload: {
+        script: {
+          type: 'audio',
+          audio_url: audioUrl,
         },
-      };
-      this.sendMessage(deleteMessage);
+        config: {
+          stitch: true,
+        },
+        session_id: this.connectionState.sessionId,
+        stream_id: this.connectionState.streamId,
+        index: messageIndex,
+        presenter_type: this.serviceType === 'clips' ? 'clip' : 'talk',
+      },
+    };
 
-      this.ws.close();
-      this.ws = null;
-    }
+    console.log('Sending audio stream-text message:', audioUrl);
+    this.sendMessage(message);
+    this.recordSent(messageIndex, 'audio', options.utteranceId, null);
+  }
 
-    this.webrtcManager.close();
-    this.resetConnectionState();
+  /**
+   * Asks D-ID to stop the utterance currently being spoken
+   */
+  interrupt(): void {
+    if (!this.connectionState.streamId || !this.connectionState.sessionId) return;
+
+    console.log('Interrupting current utterance:', this.currentVideoId);
+    this.webrtcManager.sendDataChannelMessage(JSON.stringify({
+      type: 'stream/interrupt',
+      videoId: this.currentVideoId,
+      timestamp: Date.now(),
+    }));
+    this.currentVideoId = null;
+    this.endPendingMessages();
+  }
+
+  /**
+   * Disconnects from D-ID service
+   */
+  disconnect(): void {
+    this.cancelReconnect();
+    if (this.machine.can('closing')) {
+      this.transition('closing', 'Disconnect requested');
+    }
+    this.teardownSession();
+
+    if (this.machine.getPhase() === 'closing') {
+      this.transition('closed', 'Session closed', {
+        reconnectAttempt: 0,
+        streamId: null,
+        sessionId: null,
+        error: null,
+      });
+    }
+    this.isActive = false;
   }
 
   /**
@@ -153,43 +252,319 @@ export class DidClient {
   }
 
   /**
-   * Creates WebSocket connection
+   * Gets recent state machine transitions for debugging
    */
-  private connectToWebSocket(): Promise<WebSocket> {
-    return new Promise((resolve, reject) => {
-      const wsUrl = `${this.config.didWebsocketUrl}?authorization=Basic ${encodeURIComponent(this.config.didApiKey)}`;
-      const ws = new WebSocket(wsUrl);
+  getTransitionHistory(): ConnectionTransition[] {
+    return this.machine.getHistory();
+  }
 
-      ws.onopen = () => {
-        console.log('WebSocket connection opened');
-        resolve(ws);
-      };
+  /**
+   * Sent, started and done times of recent messages, oldest first
+   */
+  getTimeline(): MessageTimelineEntry[] {
+    return this.timeline;
+  }
 
-      ws.onerror = (error) => {
-        console.error('WebSocket error:', error);
-        reject(new Error('WebSocket connection failed'));
-      };
+  /**
+   * Counts of inbound signaling messages that failed validation since connect()
+   */
+  getProtocolDiagnostics(): ProtocolDiagnostics {
+    return this.protocolDiagnostics;
+  }
 
-      ws.onclose = () => {
-        console.log('WebSocket connection closed');
-      };
+  /**
+   * Whether the presenter video is shown or only its audio is played
+   */
+  getVideoMode(): VideoMode {
+    return this.videoHealth.getMode();
+  }
+
+  /**
+   * Opens the signaling channel and requests a new stream for the current presenter
+   */
+  private async openSession(): Promise<void> {
+    this.transport = await this.openTransport();
+    this.setupWebSocketHandlers();
+
+    const initMessage = this.createInitStreamMessage();
+    console.log('Sending init stream message:', initMessage);
+    this.sendMessage(initMessage);
+  }
+
+  /**
+   * Deletes the current stream and closes signaling channel and peer connection
+   */
+  private teardownSession(): void {
+    if (this.iceDisconnectTimeoutId) {
+      clearTimeout(this.iceDisconnectTimeoutId);
+      this.iceDisconnectTimeoutId = null;
+    }
+
+    this.clearIceRestart();
+    this.canRestartIce = false;
+
+    if (this.attemptTimeoutId) {
+      clearTimeout(this.attemptTimeoutId);
+      this.attemptTimeoutId = null;
+    }
+
+    if (this.transport) {
+      if (this.connectionState.streamId) {
+        const deleteMessage: StreamMessage = {
+          type: 'delete-stream',
+          payload: {
+            session_id: this.connectionState.sessionId,
+            stream_id: this.connectionState.streamId,
+          },
+        };
+        this.sendMessage(deleteMessage);
+      }
+
+      // Transports detach their handlers so an intentional close is not mistaken for a drop
+      this.transport.close();
+      this.transport = null;
+    }
+
+    this.webrtcManager.close();
+    this.currentVideoId = null;
+    this.endPendingMessages();
+
+    const videoReset = this.videoHealth.reset();
+    if (videoReset) this.emit('video-mode', videoReset);
+  }
+
+
+  /**
+   * Handles an unexpected loss of the signaling channel or peer connection
+   */
+  private handleConnectionLost(reason: string): void {
+    if (!this.isActive || this.reconnectTimeoutId) return;
+
+    const phase = this.machine.getPhase();
+    console.warn('Connection lost:', reason);
+
+    // Only recover sessions that were established (or already recovering)
+    if (isConnectedPhase(phase) || this.connectionState.reconnectAttempt > 0) {
+      this.scheduleReconnect();
+    } else if (isConnectingPhase(phase)) {
+      this.fail(reason);
+    }
+  }
+
+  /**
+   * Schedules the next reconnection attempt with exponential backoff and jitter
+   */
+  private scheduleReconnect(): void {
+    if (!this.isActive) return;
+
+    const attempt = this.connectionState.reconnectAttempt + 1;
+    this.teardownSession();
+
+    if (attempt > RECONNECT_CONFIG.maxAttempts) {
+      console.error(`Giving up after ${RECONNECT_CONFIG.maxAttempts} reconnection attempts`);
+      this.transition('failed', 'Reconnection attempts exhausted', {
+        reconnectAttempt: 0,
+        streamId: null,
+        sessionId: null,
+        error: ERROR_MESSAGES.RECONNECT_FAILED,
+      });
+      return;
+    }
+
+    const delay = this.getReconnectDelay(attempt);
+    console.log(`Reconnecting in ${delay}ms (attempt ${attempt}/${RECONNECT_CONFIG.maxAttempts})`);
+
+    this.transition('reconnecting', `Retrying in ${delay}ms`, {
+      reconnectAttempt: attempt,
+      streamId: null,
+      sessionId: null,
+      error: null,
     });
+
+    this.reconnectTimeoutId = setTimeout(() => {
+      this.reconnectTimeoutId = null;
+      this.attemptReconnect();
+    }, delay);
+  }
+
+  /**
+   * Re-runs init-stream and SDP negotiation for the current presenter
+   */
+  private async attemptReconnect(): Promise<void> {
+    if (!this.isActive) return;
+
+    const attempt = this.connectionState.reconnectAttempt;
+    if (!this.transition('signaling', `Reconnection attempt ${attempt}`)) return;
+
+    try {
+      await this.openSession();
+
+      // A negotiation that never completes counts as a failed attempt
+      this.attemptTimeoutId = setTimeout(() => {
+        this.attemptTimeoutId = null;
+        if (!isConnectedPhase(this.machine.getPhase())) {
+          console.warn('Reconnection attempt timed out');
+          this.scheduleReconnect();
+        }
+      }, RECONNECT_CONFIG.attemptTimeout);
+    } catch (error) {
+      console.error('Reconnection attempt failed:', error);
+      this.scheduleReconnect();
+    }
+  }
+
+  /**
+   * Computes backoff delay for the given attempt number
+   */
+  private getReconnectDelay(attempt: number): number {
+    const exponential = Math.min(
+      RECONNECT_CONFIG.maxDelay,
+      RECONNECT_CONFIG.baseDelay * 2 ** (attempt - 1)
+    );
+    const jitter = exponential * RECONNECT_CONFIG.jitter * (Math.random() * 2 - 1);
+    return Math.round(exponential + jitter);
+  }
+
+  /**
+   * Cancels any pending reconnection attempt
+   */
+  private cancelReconnect(): void {
+    if (this.reconnectTimeoutId) {
+      clearTimeout(this.reconnectTimeoutId);
+      this.reconnectTimeoutId = null;
+    }
+  }
+
+  /**
+   * Reacts to ICE connection state changes that may require a reconnect
+   */
+  private handleIceConnectionStateChange(state: RTCIceConnectionState): void {
+    console.log('ICE connection state:', state);
+
+    if (state === 'failed') {
+      this.restartIce('ICE connection failed');
+      return;
+    }
+
+    if (state === 'disconnected') {
+      // Give ICE a chance to recover by itself before restarting it
+      if (!this.iceDisconnectTimeoutId) {
+        this.iceDisconnectTimeoutId = setTimeout(() => {
+          this.iceDisconnectTimeoutId = null;
+          this.restartIce('ICE connection disconnected');
+        }, RECONNECT_CONFIG.disconnectGracePeriod);
+      }
+      return;
+    }
+
+    if (this.iceDisconnectTimeoutId) {
+      clearTimeout(this.iceDisconnectTimeoutId);
+      this.iceDisconnectTimeoutId = null;
+    }
+
+    if ((state === 'connected' || state === 'completed') && this.iceRestartTimeoutId) {
+      console.log('ICE restart succeeded');
+      this.clearIceRestart();
+    }
+  }
+
+  /**
+   * Tries an ICE restart on the current stream before falling back to a full
+   * reconnect. D-ID is the offerer and never answers a client offer, so this is
+   * only attempted when init-stream advertised support (the local mock does);
+   * otherwise the session is reconnected straight away.
+   */
+  private async restartIce(reason: string): Promise<void> {
+    if (!this.isActive || this.iceRestartTimeoutId || this.reconnectTimeoutId) return;
+
+    // Sessions still being set up fail (or retry) as usual
+    if (!isConnectedPhase(this.machine.getPhase()) || !this.canRestartIce) {
+      this.handleConnectionLost(reason);
+      return;
+    }
+
+    console.warn(`${reason}, attempting ICE restart`);
+    this.iceRestartTimeoutId = setTimeout(() => {
+      this.iceRestartTimeoutId = null;
+      this.handleConnectionLost(`${reason} and the ICE restart did not recover it`);
+    }, RECONNECT_CONFIG.iceRestartTimeout);
+
+    try {
+      const offer = await this.webrtcManager.createIceRestartOffer();
+      if (!offer) throw new Error('No peer connection');
+
+      const sdpMessage: StreamMessage = {
+        type: 'sdp',
+        payload: {
+          offer,
+          session_id: this.connectionState.sessionId,
+          presenter_type: this.serviceType === 'clips' ? 'clip' : 'talk',
+        },
+      };
+      this.sendMessage(sdpMessage);
+    } catch (error) {
+      console.error('ICE restart failed:', error);
+      this.clearIceRestart();
+      this.handleConnectionLost(reason);
+    }
+  }
+
+  /**
+   * Applies the server's answer to our ICE restart offer
+   */
+  private async completeIceRestart(answer: RTCSessionDescriptionInit): Promise<void> {
+    try {
+      await this.webrtcManager.applyIceRestartAnswer(answer);
+      console.log('ICE restart answer applied');
+    } catch (error) {
+      console.error('ICE restart failed:', error);
+      this.clearIceRestart();
+      this.handleConnectionLost('ICE restart answer rejected');
+    }
+  }
+
+  private clearIceRestart(): void {
+    if (this.iceRestartTimeoutId) {
+      clearTimeout(this.iceRestartTimeoutId);
+      this.iceRestartTimeoutId = null;
+    }
+  }
+
+  /**
+   * Creates and opens the signaling channel: direct WebSocket or server relay
+   */
+  private async openTransport(): Promise<SignalingTransport> {
+    const transport: SignalingTransport = this.config.didSignalingMode === 'relay'
+      ? new RelaySignalingTransport(this.config.didRelayUrl)
+      : new WebSocketSignalingTransport(
+        `${this.config.didWebsocketUrl}?authorization=Basic ${encodeURIComponent(this.config.didApiKey)}`
+      );
+
+    transport.onclose = (code) => {
+      if (transport === this.transport) {
+        this.handleConnectionLost(`Signaling channel closed (${code})`);
+      }
+    };
+
+    await transport.connect();
+    return transport;
   }
 
   /**
    * Sets up WebSocket message handlers
    */
-  private setupWebSocketHandlers(callbacks: {
-    onConnectionStateChange: (state: ConnectionState) => void;
-    onVideoTrack: (stream: MediaStream) => void;
-    onStreamEvent: (status: string) => void;
-  }): void {
-    if (!this.ws) return;
+  private setupWebSocketHandlers(): void {
+    if (!this.transport) return;
+
+    this.transport.onmessage = async (raw) => {
+      const parsed = parseSignalingMessage(raw);
+      if (!parsed.ok) {
+        this.recordProtocolError(parsed.error);
+        return;
+      }
 
-    this.ws.onmessage = async (event) => {
       try {
-        const data: WebSocketResponse = JSON.parse(event.data);
-        await this.handleWebSocketMessage(data, callbacks);
+        await this.handleWebSocketMessage(parsed.message);
       } catch (error) {
         console.error('Error handling WebSocket message:', error);
       }
@@ -197,39 +572,45 @@ export class DidClient {
   }
 
   /**
-   * Handles WebSocket messages
+   * Counts a rejected inbound message and reports it for diagnostics
    */
-  private async handleWebSocketMessage(
-    data: WebSocketResponse,
-    callbacks: {
-      onConnectionStateChange: (state: ConnectionState) => void;
-      onVideoTrack: (stream: MediaStream) => void;
-      onStreamEvent: (status: string) => void;
+  private recordProtocolError(error: SignalingProtocolError): void {
+    if (error.kind === 'unknown') {
+      console.warn('Unknown WebSocket message:', error.reason, error.raw);
+    } else {
+      console.error('Invalid WebSocket message:', error.reason, error.raw);
     }
-  ): Promise<void> {
+
+    const { unknownMessages, invalidMessages, recentErrors } = this.protocolDiagnostics;
+    this.protocolDiagnostics = {
+      unknownMessages: unknownMessages + (error.kind === 'unknown' ? 1 : 0),
+      invalidMessages: invalidMessages + (error.kind === 'unknown' ? 0 : 1),
+      recentErrors: [...recentErrors, error].slice(-SIGNALING_PROTOCOL_CONFIG.maxRecentErrors),
+    };
+    this.emit('protocol-error', { error, diagnostics: this.protocolDiagnostics });
+  }
+
+  /**
+   * Handles WebSocket messages
+   */
+  private async handleWebSocketMessage(data: SignalingResponse): Promise<void> {
     switch (data.messageType) {
       case 'init-stream':
-        await this.handleInitStream(data, callbacks);
+        await this.handleInitStream(data);
         break;
       case 'sdp':
         console.log('SDP message received:', data);
+        if (data.answer && this.iceRestartTimeoutId) {
+          await this.completeIceRestart(data.answer);
+        }
         break;
       case 'ice':
-        console.log('ICE message received:', data.payload);
+        console.log('ICE message received:', data.candidate);
         try {
-          const pc = this.webrtcManager.getPeerConnection();
-          if (pc && data.payload) {
-            // Support both nested and flat candidate formats
-            interface CandPayload { candidate: string; sdpMid?: string; sdpMLineIndex?: number; }
-            const candPayload = (data.payload.candidate ?? data.payload) as CandPayload;
-            if (candPayload && candPayload.candidate) {
-              const rtcCandidate = new RTCIceCandidate({
-                candidate: candPayload.candidate,
-                sdpMid: candPayload.sdpMid,
-                sdpMLineIndex: candPayload.sdpMLineIndex,
-              });
-              await pc.addIceCandidate(rtcCandidate);
-            }
+          // Buffered by the manager if the offer has not been applied yet
+          if (data.candidate) {
+            await this.webrtcManager.addRemoteCandidate(data.candidate);
+            this.emit('ice', { kind: 'candidate', source: 'remote', candidate: data.candidate });
           }
         } catch (err) {
           console.error('Failed to add remote ICE candidate', err);
@@ -238,7 +619,7 @@ export class DidClient {
       case 'stream-text':
         console.log('Stream text response:', data);
         if (data.status) {
-          callbacks.onStreamEvent(data.status);
+          this.emit('stream-event', data.status);
         }
         break;
       case 'delete-stream':
@@ -246,23 +627,7 @@ export class DidClient {
         break;
       case 'error':
         console.error('D-ID API Error:', data);
-        const errorMessage = this.formatApiError(data);
-        this.updateConnectionState({ error: errorMessage, isConnecting: false });
-        callbacks.onConnectionStateChange(this.connectionState);
-        break;
-      default:
-        // Handle internal server errors and other unknown messages
-        console.log('Raw WebSocket message:', data);
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        if ((data as any).error || (typeof data === 'object' && 'message' in data)) {
-          console.error('D-ID API Error (unknown type):', data);
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          const errorMessage = this.formatApiError(data as any);
-          this.updateConnectionState({ error: errorMessage, isConnecting: false });
-          callbacks.onConnectionStateChange(this.connectionState);
-        } else {
-          console.warn('Unknown WebSocket message type:', data);
-        }
+        this.handleApiError(data.message);
         break;
     }
   }
@@ -270,53 +635,47 @@ export class DidClient {
   /**
    * Handles init-stream response
    */
-  private async handleInitStream(
-    data: WebSocketResponse,
-    callbacks: {
-      onConnectionStateChange: (state: ConnectionState) => void;
-      onVideoTrack: (stream: MediaStream) => void;
-      onStreamEvent: (status: string) => void;
-    }
-  ): Promise<void> {
+  private async handleInitStream(data: InitStreamResponse): Promise<void> {
     console.log('Init stream data:', data);
 
-    if (!data.id || !data.session_id || !data.offer || !data.ice_servers) {
-      console.error('Invalid init-stream response:', data);
-      throw new Error('Invalid init-stream response');
-    }
-
-    this.updateConnectionState({
+    if (!this.transition('negotiating', 'Stream created', {
       streamId: data.id,
       sessionId: data.session_id,
-    });
+    })) return;
 
     console.log('Updated connection state:', this.connectionState);
+    this.canRestartIce = data.ice_restart;
 
     const webrtcCallbacks: WebRTCCallbacks = {
       onIceGatheringStateChange: (state) => console.log('ICE gathering state:', state),
       onIceCandidate: (event) => this.handleIceCandidate(event),
-      onIceConnectionStateChange: (state) => console.log('ICE connection state:', state),
+      onIceConnectionStateChange: (state) => {
+        this.emit('ice', { kind: 'state', state });
+        this.handleIceConnectionStateChange(state);
+      },
       onConnectionStateChange: (state) => {
         console.log('Peer connection state:', state);
-        if (state === 'connected') {
-          this.updateConnectionState({
-            isConnecting: false,
-            isConnected: true
-          });
-          callbacks.onConnectionStateChange(this.connectionState);
+        // A peer that recovers on its own stays in ready/speaking
+        if (state === 'connected' && this.machine.getPhase() === 'negotiating') {
+          if (this.attemptTimeoutId) {
+            clearTimeout(this.attemptTimeoutId);
+            this.attemptTimeoutId = null;
+          }
+          this.transition('ready', 'Peer connection established', { reconnectAttempt: 0, error: null });
+        } else if (state === 'failed') {
+          this.restartIce('Peer connection failed');
         }
       },
       onSignalingStateChange: (state) => console.log('Signaling state:', state),
       onTrack: (event) => {
         if (event.streams[0]) {
-          callbacks.onVideoTrack(event.streams[0]);
+          this.emit('track', event.streams[0]);
         }
       },
-      onStreamEvent: (event) => {
-        console.log('Raw data channel event:', event.data);
-        const { status } = this.webrtcManager.processStreamEvent(event.data);
-        console.log('Processed stream status:', status);
-        callbacks.onStreamEvent(status);
+      onStreamEvent: (event) => this.handleDataChannelEvent(event.data),
+      onStats: (stats) => {
+        this.emit('stats', stats);
+        this.checkVideoHealth(stats);
       },
     };
 
@@ -324,7 +683,8 @@ export class DidClient {
       const answer = await this.webrtcManager.createPeerConnection(
         data.offer,
         data.ice_servers,
-        webrtcCallbacks
+        webrtcCallbacks,
+        this.config.ice
       );
 
       const sdpMessage: StreamMessage = {
@@ -339,13 +699,154 @@ export class DidClient {
       this.sendMessage(sdpMessage);
     } catch (error) {
       console.error('Error during WebRTC setup:', error);
-      this.updateConnectionState({
-        isConnecting: false,
-        error: 'WebRTC connection failed'
+      if (this.connectionState.reconnectAttempt > 0) {
+        this.scheduleReconnect();
+        return;
+      }
+      this.fail('WebRTC connection failed');
+    }
+  }
+
+  /**
+   * Falls back to audio only on sustained video stalls and back to video once it recovers
+   */
+  private checkVideoHealth(stats: StreamStats): void {
+    const isSpeaking = this.machine.getPhase() === 'speaking';
+    const change = this.videoHealth.update(stats, isSpeaking, this.webrtcManager.videoIsPlaying);
+    if (!change) return;
+
+    console.log('Video mode changed:', change);
+    this.emit('video-mode', change);
+  }
+
+  /**
+   * Turns data channel stream events into utterance, latency and timeline events
+   */
+  private handleDataChannelEvent(data: string): void {
+    console.log('Raw data channel event:', data);
+    const { status, payload } = this.webrtcManager.processStreamEvent(data);
+    console.log('Processed stream status:', status);
+    const timestamp = Date.now();
+    const videoId = payload?.videoId ?? null;
+
+    if (status === 'started') {
+      if (videoId) this.currentVideoId = videoId;
+      if (this.machine.getPhase() === 'ready') this.transition('speaking', 'Stream started');
+
+      const entry = this.findTimelineEntry(['sent'], payload?.index ?? null, null);
+      if (entry) {
+        this.updateTimelineEntry(entry.id, { status: 'speaking', videoId, startedAt: timestamp });
+        this.emit('latency', {
+          messageIndex: entry.messageIndex,
+          utteranceId: entry.utteranceId,
+          sentAt: entry.sentAt,
+          startedAt: timestamp,
+          latency: timestamp - entry.sentAt,
+        });
+      }
+      this.emit('utterance-started', {
+        status,
+        messageIndex: entry?.messageIndex ?? payload?.index ?? null,
+        utteranceId: entry?.utteranceId ?? null,
+        videoId,
+        timestamp,
+        payload,
+      });
+    } else if (status === 'done' || status === 'error') {
+      this.currentVideoId = null;
+      if (this.machine.getPhase() === 'speaking') this.transition('ready', `Stream ${status}`);
+
+      // A message can fail before it ever started
+      const entry = this.findTimelineEntry(status === 'error' ? ['speaking', 'sent'] : ['speaking'], payload?.index ?? null, videoId);
+      if (entry) {
+        const finished = this.updateTimelineEntry(entry.id, {
+          status,
+          videoId: videoId ?? entry.videoId,
+          doneAt: timestamp,
+          duration: entry.startedAt !== null ? timestamp - entry.startedAt : null,
+          reportedDuration: payload?.duration ?? null,
+        });
+        console.log('Utterance timeline:', finished);
+      }
+      this.emit('utterance-done', {
+        status,
+        messageIndex: entry?.messageIndex ?? payload?.index ?? null,
+        utteranceId: entry?.utteranceId ?? null,
+        videoId: videoId ?? entry?.videoId ?? null,
+        timestamp,
+        payload,
       });
-      callbacks.onConnectionStateChange(this.connectionState);
-      throw error;
     }
+
+    this.emit('stream-event', status);
+  }
+
+  /**
+   * Adds a just-sent message to the timeline
+   */
+  private recordSent(
+    messageIndex: number,
+    kind: MessageTimelineEntry['kind'],
+    utteranceId: string | undefined,
+    text: string | null
+  ): void {
+    this.timeline = [...this.timeline, {
+      id: `msg-${++this.timelineSeq}`,
+      messageIndex,
+      utteranceId: utteranceId ?? null,
+      kind,
+      text,
+      videoId: null,
+      status: 'sent' as const,
+      sentAt: Date.now(),
+      startedAt: null,
+      doneAt: null,
+      duration: null,
+      reportedDuration: null,
+    }].slice(-TIMELINE_CONFIG.maxEntries);
+    this.emit('timeline', this.timeline);
+  }
+
+  /**
+   * Finds the message a data channel event refers to: by video id, then by the
+   * index D-ID echoes back, then the oldest candidate (messages are spoken in order)
+   */
+  private findTimelineEntry(
+    statuses: MessageTimelineEntry['status'][],
+    index: number | null,
+    videoId: string | null
+  ): MessageTimelineEntry | undefined {
+    const candidates = this.timeline.filter(entry => statuses.includes(entry.status));
+    return (videoId ? candidates.find(entry => entry.videoId === videoId) : undefined)
+      ?? (index !== null ? candidates.find(entry => entry.messageIndex === index) : undefined)
+      ?? candidates[0];
+  }
+
+  /**
+   * Replaces a timeline entry (entries are immutable so the UI can diff them)
+   */
+  private updateTimelineEntry(id: string, updates: Partial<MessageTimelineEntry>): MessageTimelineEntry | undefined {
+    let updated: MessageTimelineEntry | undefined;
+    this.timeline = this.timeline.map(entry => {
+      if (entry.id !== id) return entry;
+      updated = { ...entry, ...updates };
+      return updated;
+    });
+    this.emit('timeline', this.timeline);
+    return updated;
+  }
+
+  /**
+   * Marks messages that were sent or speaking as interrupted
+   */
+  private endPendingMessages(): void {
+    if (!this.timeline.some(entry => entry.status === 'sent' || entry.status === 'speaking')) return;
+
+    const now = Date.now();
+    this.timeline = this.timeline.map(entry => entry.status === 'sent' || entry.status === 'speaking'
+      ? { ...entry, status: 'interrupted' as const, doneAt: now, duration: entry.startedAt !== null ? now - entry.startedAt : null }
+      : entry);
+    this.emit('timeline', this.timeline);
   }
 
   /**
@@ -359,6 +860,7 @@ export class DidClient {
     }
 
     const { candidate, sdpMid, sdpMLineIndex } = event.candidate;
+    this.emit('ice', { kind: 'candidate', source: 'local', candidate: event.candidate.toJSON() });
 
     this.sendMessage({
       type: 'ice',
@@ -373,37 +875,6 @@ export class DidClient {
     });
   }
 
-  /**
-   * Formats API errors for better user display
-   */
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  private formatApiError(data: any): string {
-    // Handle different error message formats from D-ID API
-    if (data.message) {
-      const details = [];
-      if (data.connectionId) details.push(`Connection: ${data.connectionId}`);
-      if (data.requestId) details.push(`Request: ${data.requestId}`);
-
-      let errorMsg = data.message.toString();
-      if (details.length > 0) {
-        errorMsg += ` (${details.join(', ')})`;
-      }
-
-      return errorMsg;
-    }
-
-    if (data.error) {
-      return typeof data.error === 'string' ? data.error : JSON.stringify(data.error);
-    }
-
-    if (data.payload && data.payload.error) {
-      return typeof data.payload.error === 'string' ? data.payload.error : JSON.stringify(data.payload.error);
-    }
-
-    // Fallback for any other error format
-    return `API Error: ${JSON.stringify(data)}`;
-  }
-
   /**
    * Creates init stream message
    */
@@ -438,40 +909,74 @@ export class DidClient {
   }
 
   /**
-   * Sends message through WebSocket
+   * Sends message through the signaling channel
    */
   private sendMessage(message: StreamMessage): void {
-    if (!this.ws) {
+    if (!this.transport) {
       console.error(ERROR_MESSAGES.WEBSOCKET_UNDEFINED);
       return;
     }
 
-    if (this.ws.readyState === WebSocket.OPEN) {
+    if (this.transport.isOpen()) {
       console.log('Sending message:', message.type, JSON.stringify(message, null, 2));
-      this.ws.send(JSON.stringify(message));
+      this.transport.send(JSON.stringify(message));
     } else {
-      console.error(ERROR_MESSAGES.WEBSOCKET_NOT_OPEN, this.ws.readyState);
+      console.error(ERROR_MESSAGES.WEBSOCKET_NOT_OPEN);
     }
   }
 
   /**
-   * Updates connection state
+   * Moves the state machine to a new phase and notifies the UI
+   * @returns false if the transition is not allowed from the current phase
    */
-  private updateConnectionState(updates: Partial<ConnectionState>): void {
-    this.connectionState = { ...this.connectionState, ...updates };
+  private transition(
+    to: ConnectionPhase,
+    reason: string,
+    updates: Partial<Omit<ConnectionState, 'phase'>> = {}
+  ): boolean {
+    if (!this.machine.transition(to, reason)) return false;
+
+    this.updateConnectionState({ ...updates, phase: to });
+    this.emit('state', this.getConnectionState());
+    return true;
   }
 
   /**
-   * Resets connection state
+   * Tears the session down and parks the machine in 'failed'
    */
-  private resetConnectionState(): void {
-    this.connectionState = {
-      isConnecting: false,
-      isConnected: false,
+  private fail(errorMessage: string): void {
+    this.cancelReconnect();
+    this.teardownSession();
+    this.transition('failed', errorMessage, {
+      reconnectAttempt: 0,
       streamId: null,
       sessionId: null,
-      error: null,
-    };
+      error: errorMessage,
+    });
+  }
+
+  /**
+   * Routes a D-ID error message according to the current phase
+   */
+  private handleApiError(errorMessage: string): void {
+    const phase = this.machine.getPhase();
+
+    if (this.connectionState.reconnectAttempt > 0 && !isConnectedPhase(phase)) {
+      if (!this.reconnectTimeoutId) this.scheduleReconnect();
+    } else if (isConnectingPhase(phase)) {
+      this.fail(errorMessage);
+    } else {
+      // The session is still usable (e.g. a rejected stream-text): report it without changing phase
+      this.updateConnectionState({ error: errorMessage });
+      this.emit('state', this.getConnectionState());
+    }
+  }
+
+  /**
+   * Updates connection state
+   */
+  private updateConnectionState(updates: Partial<ConnectionState>): void {
+    this.connectionState = { ...this.connectionState, ...updates };
   }
 
   /**
@@ -482,4 +987,11 @@ export class DidClient {
     this.serviceType = service;
     this.presenterConfig = updatedPresenterCfg;
   }
+
+  /**
+   * Changes the voice used for subsequent messages; takes effect without reconnecting
+   */
+  public updateVoice(voiceConfig: VoiceConfig): void {
+    this.voiceConfig = voiceConfig;
+  }
 }
\ No newline at end of file
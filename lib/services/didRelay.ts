@@ -0,0 +1,271 @@
+import WebSocket from 'ws';
+import crypto from 'crypto';
+import { StreamMessage } from '@/types/did';
+import { getServerSecrets } from '@/lib/utils/env';
+import { RELAY_CONFIG } from '@/lib/utils/constants';
+
+// Server-only: holds the D-ID key and relays signaling for browser sessions.
+
+const FORWARDED_TYPES: StreamMessage['type'][] = ['init-stream', 'sdp', 'ice', 'stream-text', 'delete-stream'];
+
+export interface RelayListener {
+  onMessage: (data: string) => void;
+  onClose: (code: number, reason: string) => void;
+}
+
+/**
+ * One browser session's upstream D-ID WebSocket
+ */
+export class DidRelaySession {
+  readonly id: string;
+  readonly owner: string; // browser session that opened it
+  private readonly token: string;
+  private readonly upstream: WebSocket;
+  private readonly elevenlabsApiKey: string;
+  private listener: RelayListener | null = null;
+  private backlog: string[] = [];
+  private closeInfo: { code: number; reason: string } | null = null;
+  private idleTimeoutId: NodeJS.Timeout | null = null;
+
+  private constructor(owner: string, upstream: WebSocket, elevenlabsApiKey: string) {
+    this.id = crypto.randomUUID();
+    this.owner = owner;
+    this.token = crypto.randomBytes(32).toString('hex');
+    this.upstream = upstream;
+    this.elevenlabsApiKey = elevenlabsApiKey;
+
+    upstream.on('message', (data) => {
+      const message = data.toString();
+      if (this.listener) {
+        this.listener.onMessage(message);
+      } else {
+        this.backlog.push(message);
+      }
+    });
+
+    upstream.on('close', (code, reason) => {
+      this.handleUpstreamClose(code, reason.toString());
+    });
+
+    upstream.on('error', (error) => {
+      console.error(`Relay ${this.id} upstream error:`, error);
+    });
+
+    this.scheduleIdleClose();
+  }
+
+  /**
+   * Opens the upstream D-ID socket for a new session
+   */
+  static create(owner: string): Promise<DidRelaySession> {
+    const secrets = getServerSecrets('didApiKey');
+    const url = `${secrets.didWebsocketUrl}?authorization=Basic ${encodeURIComponent(secrets.didApiKey)}`;
+
+    return new Promise((resolve, reject) => {
+      const upstream = new WebSocket(url);
+
+      const onOpen = () => {
+        upstream.off('error', onError);
+        resolve(new DidRelaySession(owner, upstream, secrets.elevenlabsApiKey));
+      };
+      const onError = (error: Error) => {
+        upstream.off('open', onOpen);
+        reject(error);
+      };
+
+      upstream.once('open', onOpen);
+      upstream.once('error', onError);
+    });
+  }
+
+  /**
+   * Returns the secret the browser must present for this session
+   */
+  getToken(): string {
+    return this.token;
+  }
+
+  /**
+   * Checks a browser-supplied token in constant time
+   */
+  verifyToken(token: string | undefined): boolean {
+    if (!token || token.length !== this.token.length) return false;
+    return crypto.timingSafeEqual(Buffer.from(token), Buffer.from(this.token));
+  }
+
+  /**
+   * Subscribes the browser's event stream; replays anything received meanwhile
+   */
+  attach(listener: RelayListener): void {
+    this.clearIdleClose();
+    this.listener = listener;
+
+    const backlog = this.backlog;
+    this.backlog = [];
+    backlog.forEach(message => listener.onMessage(message));
+
+    if (this.closeInfo) {
+      listener.onClose(this.closeInfo.code, this.closeInfo.reason);
+    }
+  }
+
+  /**
+   * Unsubscribes the event stream; the session is dropped if nobody re-attaches
+   */
+  detach(listener: RelayListener): void {
+    if (this.listener !== listener) return;
+
+    this.listener = null;
+    this.scheduleIdleClose();
+  }
+
+  /**
+   * Validates and forwards a browser message to D-ID
+   * @returns an error message, or null when the message was sent
+   */
+  forward(message: StreamMessage): string | null {
+    if (!message || typeof message !== 'object' || !FORWARDED_TYPES.includes(message.type)) {
+      return 'Unsupported message type';
+    }
+
+    if (typeof message.payload !== 'object' || message.payload === null) {
+      return 'Missing message payload';
+    }
+
+    if (this.upstream.readyState !== WebSocket.OPEN) {
+      return 'Upstream connection is not open';
+    }
+
+    const withKeys = this.withServerKeys(message);
+    if (typeof withKeys === 'string') return withKeys;
+
+    this.upstream.send(JSON.stringify(withKeys));
+    return null;
+  }
+
+  /**
+   * Closes the upstream socket and forgets the session
+   */
+  close(code = 1000, reason = 'Closed by client'): void {
+    this.clearIdleClose();
+    sessions().delete(this.id);
+
+    if (this.upstream.readyState === WebSocket.OPEN || this.upstream.readyState === WebSocket.CONNECTING) {
+      this.upstream.close(code, reason);
+    }
+  }
+
+  /**
+   * Attaches the ElevenLabs key to talks stream-text messages voiced by ElevenLabs
+   * @returns the message to send, or why it can't be sent
+   */
+  private withServerKeys(message: StreamMessage): StreamMessage | string {
+    const { payload } = message;
+    const script = payload.script as { provider?: { type?: string } } | undefined;
+
+    if (
+      message.type !== 'stream-text' ||
+      payload.presenter_type !== 'talk' ||
+      script?.provider?.type !== 'elevenlabs'
+    ) {
+      return message;
+    }
+
+    if (!this.elevenlabsApiKey) {
+      return 'ElevenLabs voices need ELEVENLABS_API_KEY on the server';
+    }
+
+    return {
+      ...message,
+      payload: {
+        ...payload,
+        apiKeyExternal: { elevenlabs: { key: this.elevenlabsApiKey } },
+      },
+    };
+  }
+
+  private handleUpstreamClose(code: number, reason: string): void {
+    console.log(`Relay ${this.id} upstream closed`, code, reason);
+    this.clearIdleClose();
+    sessions().delete(this.id);
+
+    this.closeInfo = { code, reason };
+    this.listener?.onClose(code, reason);
+  }
+
+  private scheduleIdleClose(): void {
+    this.clearIdleClose();
+    this.idleTimeoutId = setTimeout(() => {
+      console.log(`Relay ${this.id} has no subscriber, closing`);
+      this.close(1000, 'Relay session idle');
+    }, RELAY_CONFIG.idleTimeout);
+  }
+
+  private clearIdleClose(): void {
+    if (this.idleTimeoutId) {
+      clearTimeout(this.idleTimeoutId);
+      this.idleTimeoutId = null;
+    }
+  }
+}
+
+// Kept on globalThis so every route bundle (and dev hot reloads) share one registry
+const globalForRelay = globalThis as unknown as {
+  didRelaySessions?: Map<string, DidRelaySession>;
+  didRelayPending?: Map<string, number>; // sessions still opening upstream, per owner
+};
+
+function sessions(): Map<string, DidRelaySession> {
+  if (!globalForRelay.didRelaySessions) {
+    globalForRelay.didRelaySessions = new Map();
+  }
+  return globalForRelay.didRelaySessions;
+}
+
+function pending(): Map<string, number> {
+  if (!globalForRelay.didRelayPending) {
+    globalForRelay.didRelayPending = new Map();
+  }
+  return globalForRelay.didRelayPending;
+}
+
+/**
+ * Opens and registers a new relay session
+ * @param owner - browser session opening it
+ */
+export async function createRelaySession(owner: string): Promise<DidRelaySession> {
+  // Slots are reserved before the upstream socket opens so concurrent requests count too
+  const opening = Array.from(pending().values()).reduce((sum, count) => sum + count, 0);
+  if (sessions().size + opening >= RELAY_CONFIG.maxSessions) {
+    throw new Error('Too many active relay sessions');
+  }
+
+  const ownerOpening = pending().get(owner) ?? 0;
+  const owned = Array.from(sessions().values()).filter(session => session.owner === owner).length;
+  if (owned + ownerOpening >= RELAY_CONFIG.maxSessionsPerBrowser) {
+    throw new Error('Too many active relay sessions for this browser');
+  }
+
+  pending().set(owner, ownerOpening + 1);
+  try {
+    const session = await DidRelaySession.create(owner);
+    sessions().set(session.id, session);
+    return session;
+  } finally {
+    const remaining = (pending().get(owner) ?? 1) - 1;
+    if (remaining > 0) {
+      pending().set(owner, remaining);
+    } else {
+      pending().delete(owner);
+    }
+  }
+}
+
+/**
+ * Looks up a session, returning it only if the token matches
+ */
+export function getRelaySession(id: string, token: string | undefined): DidRelaySession | null {
+  const session = sessions().get(id);
+  if (!session || !session.verifyToken(token)) return null;
+  return session;
+}
\ No newline at end of file
@@ -0,0 +1,149 @@
+import { LatencyMarkName, LatencyTurn, LatencyStage, LatencyStageStats, LatencyExport } from '@/types/latency';
+import { LATENCY_CONFIG, LATENCY_STAGES } from '@/lib/utils/constants';
+import { TypedEventEmitter } from './typedEventEmitter';
+
+interface LatencyTrackerEvents {
+  change: LatencyTurn[];
+}
+
+// Marks that can happen several times per turn: keep the last one, not the first
+const LAST_OCCURRENCE: LatencyMarkName[] = ['completion', 'stream-done'];
+
+/**
+ * Session-wide record of when each conversation turn passed each pipeline mark
+ * (transcription, LLM, D-ID), with per-stage percentiles
+ */
+export class LatencyTracker extends TypedEventEmitter<LatencyTrackerEvents> {
+  private turns: LatencyTurn[] = [];
+  private currentTurnId: string | null = null;
+  private turnSeq = 0;
+
+  /**
+   * Opens a new turn and makes it the one marks go to by default
+   */
+  startTurn(source: LatencyTurn['source']): string {
+    const turn: LatencyTurn = {
+      id: `turn-${++this.turnSeq}`,
+      source,
+      startedAt: Date.now(),
+      marks: {},
+      utteranceId: null,
+    };
+    this.turns = [...this.turns, turn].slice(-LATENCY_CONFIG.maxTurns);
+    this.currentTurnId = turn.id;
+    this.emit('change', this.turns);
+    return turn.id;
+  }
+
+  /**
+   * The current voice turn if its transcript was not sent yet
+   */
+  getPendingTurnId(): string | null {
+    const turn = this.findTurn(this.currentTurnId);
+    return turn && turn.source === 'voice' && turn.marks['message-sent'] === undefined ? turn.id : null;
+  }
+
+  getCurrentTurnId(): string | null {
+    return this.currentTurnId;
+  }
+
+  /**
+   * Records a mark on a turn (the current one by default)
+   */
+  mark(name: LatencyMarkName, turnId: string | null = this.currentTurnId, at = Date.now()): void {
+    const turn = this.findTurn(turnId);
+    if (!turn) return;
+    if (turn.marks[name] !== undefined && !LAST_OCCURRENCE.includes(name)) return;
+
+    this.updateTurn(turn.id, { marks: { ...turn.marks, [name]: at } });
+    console.log(`[latency] ${turn.id} ${name} +${at - turn.startedAt}ms`);
+  }
+
+  /**
+   * Links the presenter utterance that speaks a turn's reply, so D-ID marks can find the turn
+   */
+  attachUtterance(turnId: string, utteranceId: string): void {
+    this.updateTurn(turnId, { utteranceId });
+  }
+
+  /**
+   * Records a mark on whichever turn the utterance belongs to; ignored for other utterances
+   */
+  markUtterance(utteranceId: string, name: LatencyMarkName, at = Date.now()): void {
+    const turn = this.turns.find(t => t.utteranceId === utteranceId);
+    if (turn) this.mark(name, turn.id, at);
+  }
+
+  getTurns(): LatencyTurn[] {
+    return this.turns;
+  }
+
+  /**
+   * p50/p95 of every stage over the turns that reached both of its marks
+   */
+  getStageStats(): LatencyStageStats[] {
+    return LATENCY_STAGES.map(stage => {
+      const durations = this.turns
+        .map(turn => getStageDuration(turn, stage))
+        .filter((duration): duration is number => duration !== null)
+        .sort((a, b) => a - b);
+
+      return {
+        stage,
+        count: durations.length,
+        p50: percentile(durations, 50),
+        p95: percentile(durations, 95),
+      };
+    });
+  }
+
+  /**
+   * Everything recorded this session, for offline analysis
+   */
+  export(): LatencyExport {
+    return {
+      exportedAt: new Date().toISOString(),
+      stages: this.getStageStats(),
+      turns: this.turns,
+    };
+  }
+
+  clear(): void {
+    this.turns = [];
+    this.currentTurnId = null;
+    this.emit('change', this.turns);
+  }
+
+  private findTurn(turnId: string | null): LatencyTurn | undefined {
+    return turnId ? this.turns.find(turn => turn.id === turnId) : undefined;
+  }
+
+  /**
+   * Replaces a turn (turns are immutable so the UI can diff them)
+   */
+  private updateTurn(turnId: string, updates: Partial<LatencyTurn>): void {
+    this.turns = this.turns.map(turn => (turn.id === turnId ? { ...turn, ...updates } : turn));
+    this.emit('change', this.turns);
+  }
+}
+
+/**
+ * Time spent in a stage, or null if the turn did not reach both marks
+ */
+export function getStageDuration(turn: LatencyTurn, stage: LatencyStage): number | null {
+  const from = stage.from === 'start' ? turn.startedAt : turn.marks[stage.from];
+  const to = turn.marks[stage.to];
+  return from !== undefined && to !== undefined && to >= from ? to - from : null;
+}
+
+/**
+ * Nearest-rank percentile of an ascending list
+ */
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+// One tracker per browser session, shared by the hooks and clients that record marks
+export const latencyTracker = new LatencyTracker();
\ No newline at end of file
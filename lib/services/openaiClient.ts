@@ -1,42 +1,40 @@
-import { ChatMessage, OpenAIRequest, OpenAIResponse } from '@/types/conversation';
-import { ApiError } from '@/types/api';
-import { OPENAI_CONFIG, ERROR_MESSAGES } from '@/lib/utils/constants';
+import { ChatMessage, OpenAIRequest, OpenAIResponse, OpenAIStreamChunk } from '@/types/conversation';
+import { ApiError, ClientMode } from '@/types/api';
+import { OPENAI_CONFIG, PROXY_CONFIG, ERROR_MESSAGES } from '@/lib/utils/constants';
+import { latencyTracker } from './latencyTracker';
+
+const OPENAI_CHAT_URL = 'https://api.openai.com/v1/chat/completions';
 
 /**
  * Client for OpenAI GPT-4o chat completions
  */
 export class OpenAIClient {
   private readonly apiKey: string;
+  private readonly mode: ClientMode;
 
-  constructor(apiKey: string) {
+  /**
+   * @param apiKey OpenAI key; unused in 'proxy' mode, where /api/chat holds it
+   */
+  constructor(apiKey: string, mode: ClientMode = 'direct') {
     this.apiKey = apiKey;
+    this.mode = mode;
   }
 
   /**
    * Sends chat completion request to OpenAI API
    */
   async getChatCompletion(messages: ChatMessage[]): Promise<string> {
+    const turnId = latencyTracker.getCurrentTurnId();
     try {
-      const request: OpenAIRequest = {
-        model: OPENAI_CONFIG.model,
-        messages,
-        temperature: OPENAI_CONFIG.temperature,
-      };
-
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(request),
-      });
+      latencyTracker.mark('request-sent', turnId);
+      const response = await this.requestCompletion(messages, false);
 
       if (!response.ok) {
         throw this.handleApiError(response.status);
       }
 
       const data: OpenAIResponse = await response.json();
+      latencyTracker.mark('completion', turnId);
       return data.choices[0].message.content;
     } catch (error) {
       console.error('OpenAI API error:', error);
@@ -44,6 +42,93 @@ export class OpenAIClient {
     }
   }
 
+  /**
+   * Streams chat completion tokens from OpenAI API as they are generated
+   */
+  async *streamChatCompletion(messages: ChatMessage[], signal?: AbortSignal): AsyncGenerator<string> {
+    // Captured up front: a barge-in may open the next turn before this stream ends
+    const turnId = latencyTracker.getCurrentTurnId();
+    try {
+      latencyTracker.mark('request-sent', turnId);
+      const response = await this.requestCompletion(messages, true, signal);
+
+      if (!response.ok || !response.body) {
+        throw this.handleApiError(response.status);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          latencyTracker.mark('completion', turnId);
+          break;
+        }
+
+        buffer += decoder.decode(value, { stream: true });
+
+        // SSE events are newline-delimited; keep any partial line for the next read
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+
+          const data = trimmed.slice('data:'.length).trim();
+          if (data === '[DONE]') {
+            latencyTracker.mark('completion', turnId);
+            return;
+          }
+
+          const chunk: OpenAIStreamChunk = JSON.parse(data);
+          const token = chunk.choices[0]?.delta?.content;
+          if (token) {
+            latencyTracker.mark('first-token', turnId);
+            yield token;
+          }
+        }
+      }
+    } catch (error) {
+      if (!signal?.aborted) console.error('OpenAI streaming error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Posts a completion request to OpenAI, or to /api/chat in proxy mode
+   */
+  private requestCompletion(messages: ChatMessage[], stream: boolean, signal?: AbortSignal): Promise<Response> {
+    if (this.mode === 'proxy') {
+      // The route applies the model settings; it only needs the conversation
+      return fetch(PROXY_CONFIG.chatRoute, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ messages, stream }),
+        signal,
+      });
+    }
+
+    const request: OpenAIRequest = {
+      model: OPENAI_CONFIG.model,
+      messages,
+      temperature: OPENAI_CONFIG.temperature,
+      ...(stream && { stream: true }),
+    };
+
+    return fetch(OPENAI_CHAT_URL, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+      signal,
+    });
+  }
+
   /**
    * Handles API errors with specific error messages
    */
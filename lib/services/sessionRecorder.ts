@@ -0,0 +1,190 @@
+import { RECORDING_CONFIG } from '@/lib/utils/constants';
+
+export interface VideoLayer {
+  source: HTMLVideoElement | HTMLCanvasElement; // a canvas when a virtual background is composited
+  opacity: number;
+}
+
+/**
+ * Intrinsic size of a layer, or null while a video has no frame to draw
+ */
+export function getSourceSize(source: VideoLayer['source']): { width: number; height: number } | null {
+  if (source instanceof HTMLCanvasElement) {
+    return { width: source.width, height: source.height };
+  }
+  if (source.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !source.videoWidth) return null;
+  return { width: source.videoWidth, height: source.videoHeight };
+}
+
+/**
+ * Records the on-screen presenter by compositing its video layers onto a
+ * canvas, so idle ↔ stream cross-fades end up in the file, and mixes the
+ * presenter's audio with any extra sources (e.g. the user's microphone)
+ */
+export class SessionRecorder {
+  private readonly getLayers: () => VideoLayer[];
+  private canvas: HTMLCanvasElement | null = null;
+  private drawIntervalId: NodeJS.Timeout | null = null;
+  private audioContext: AudioContext | null = null;
+  private audioDestination: MediaStreamAudioDestinationNode | null = null;
+  private streamAudioSource: MediaStreamAudioSourceNode | null = null;
+  private mediaRecorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+
+  constructor(getLayers: () => VideoLayer[]) {
+    this.getLayers = getLayers;
+  }
+
+  /**
+   * Starts drawing frames and recording
+   */
+  start(): void {
+    if (this.mediaRecorder) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = RECORDING_CONFIG.width;
+    canvas.height = RECORDING_CONFIG.height;
+    this.canvas = canvas;
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas recording is not supported in this browser');
+    }
+
+    // Released again if the browser refuses to record, e.g. no supported format
+    let stream: MediaStream | null = null;
+    try {
+      // Timer rather than requestAnimationFrame: keeps recording in background tabs
+      this.drawIntervalId = setInterval(() => this.drawFrame(context), 1000 / RECORDING_CONFIG.frameRate);
+      this.drawFrame(context);
+
+      this.audioContext = new AudioContext();
+      this.audioDestination = this.audioContext.createMediaStreamDestination();
+
+      stream = new MediaStream([
+        ...canvas.captureStream(RECORDING_CONFIG.frameRate).getVideoTracks(),
+        ...this.audioDestination.stream.getAudioTracks(),
+      ]);
+
+      const mimeType = RECORDING_CONFIG.mimeTypes.find(type => MediaRecorder.isTypeSupported(type));
+      this.mediaRecorder = new MediaRecorder(stream, {
+        mimeType,
+        videoBitsPerSecond: RECORDING_CONFIG.videoBitsPerSecond,
+      });
+      this.chunks = [];
+
+      this.mediaRecorder.ondataavailable = (event: BlobEvent) => {
+        if (event.data.size > 0) {
+          this.chunks.push(event.data);
+        }
+      };
+
+      this.mediaRecorder.start(RECORDING_CONFIG.timeslice);
+    } catch (error) {
+      stream?.getTracks().forEach(track => track.stop());
+      this.cleanup();
+      throw error;
+    }
+
+    console.log('Session recording started:', this.mediaRecorder.mimeType);
+  }
+
+  /**
+   * Replaces the presenter audio source, e.g. after a reconnect delivers a new stream
+   */
+  setStreamAudio(stream: MediaStream | null): void {
+    if (!this.audioContext || !this.audioDestination) return;
+
+    this.streamAudioSource?.disconnect();
+    this.streamAudioSource = null;
+
+    if (stream && stream.getAudioTracks().length > 0) {
+      this.streamAudioSource = this.audioContext.createMediaStreamSource(stream);
+      this.streamAudioSource.connect(this.audioDestination);
+    }
+  }
+
+  /**
+   * Mixes an extra audio stream into the recording until its tracks end
+   */
+  addAudioStream(stream: MediaStream): void {
+    if (!this.audioContext || !this.audioDestination || stream.getAudioTracks().length === 0) return;
+
+    const source = this.audioContext.createMediaStreamSource(stream);
+    source.connect(this.audioDestination);
+
+    stream.getAudioTracks()[0].addEventListener('ended', () => source.disconnect(), { once: true });
+  }
+
+  /**
+   * Whether a recording is in progress
+   */
+  isRecording(): boolean {
+    return this.mediaRecorder?.state === 'recording';
+  }
+
+  /**
+   * Stops recording and returns the finished video
+   */
+  stop(): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+      const recorder = this.mediaRecorder;
+      if (!recorder) {
+        reject(new Error('No session recording in progress'));
+        return;
+      }
+
+      recorder.onstop = () => {
+        const blob = new Blob(this.chunks, { type: recorder.mimeType || 'video/webm' });
+        this.cleanup();
+        resolve(blob);
+      };
+
+      recorder.stop();
+    });
+  }
+
+  /**
+   * Draws the visible layers back to front, cropped like CSS object-fit: cover
+   */
+  private drawFrame(context: CanvasRenderingContext2D): void {
+    const { width, height } = RECORDING_CONFIG;
+
+    context.globalAlpha = 1;
+    context.fillStyle = '#0c0a09';
+    context.fillRect(0, 0, width, height);
+
+    for (const { source, opacity } of this.getLayers()) {
+      const size = getSourceSize(source);
+      if (opacity <= 0 || !size) continue;
+
+      const scale = Math.max(width / size.width, height / size.height);
+      const drawWidth = size.width * scale;
+      const drawHeight = size.height * scale;
+
+      context.globalAlpha = opacity;
+      context.drawImage(source, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+    }
+  }
+
+  /**
+   * Releases the canvas, audio graph and recorder
+   */
+  private cleanup(): void {
+    if (this.drawIntervalId) {
+      clearInterval(this.drawIntervalId);
+      this.drawIntervalId = null;
+    }
+
+    this.mediaRecorder?.stream.getTracks().forEach(track => track.stop());
+    this.mediaRecorder = null;
+    this.chunks = [];
+
+    this.streamAudioSource?.disconnect();
+    this.streamAudioSource = null;
+    this.audioContext?.close();
+    this.audioContext = null;
+    this.audioDestination = null;
+    this.canvas = null;
+  }
+}
\ No newline at end of file
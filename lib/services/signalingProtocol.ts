@@ -0,0 +1,205 @@
+import { SignalingResponse, ErrorResponse, ParsedSignalingMessage, SignalingProtocolError } from '@/types/did';
+import { SIGNALING_PROTOCOL_CONFIG } from '@/lib/utils/constants';
+
+type JsonObject = Record<string, unknown>;
+
+// A validator returns the typed message, or the reason the payload was rejected
+type Validator<T extends SignalingResponse> = (data: JsonObject) => T | string;
+
+type ValidatorMap = {
+  [K in SignalingResponse['messageType']]: Validator<Extract<SignalingResponse, { messageType: K }>>;
+};
+
+const VALIDATORS: ValidatorMap = {
+  'init-stream': (data) => {
+    if (!isNonEmptyString(data.id)) return 'id must be a non-empty string';
+    if (!isNonEmptyString(data.session_id)) return 'session_id must be a non-empty string';
+
+    const { offer } = data;
+    if (!isObject(offer) || offer.type !== 'offer' || !isNonEmptyString(offer.sdp)) {
+      return 'offer must be an SDP offer';
+    }
+
+    if (!Array.isArray(data.ice_servers)) return 'ice_servers must be an array';
+    const iceServers: RTCIceServer[] = [];
+    for (const server of data.ice_servers) {
+      const reason = validateIceServer(server);
+      if (reason) return reason;
+      iceServers.push(server as RTCIceServer);
+    }
+
+    return {
+      messageType: 'init-stream',
+      id: data.id,
+      session_id: data.session_id,
+      offer: { type: 'offer', sdp: offer.sdp },
+      ice_servers: iceServers,
+      ice_restart: data.ice_restart === true,
+    };
+  },
+
+  sdp: (data) => {
+    const status = readStatus(data);
+    if (typeof status === 'string') return status;
+
+    // Only present when answering our ICE restart offer
+    const { answer } = data;
+    if (answer === undefined || answer === null) return { messageType: 'sdp', ...status, answer: null };
+    if (!isObject(answer) || answer.type !== 'answer' || !isNonEmptyString(answer.sdp)) {
+      return 'answer must be an SDP answer';
+    }
+    return { messageType: 'sdp', ...status, answer: { type: 'answer', sdp: answer.sdp } };
+  },
+
+  ice: (data) => {
+    if (!isObject(data.payload)) return 'payload must be an object';
+
+    // D-ID sends candidates both nested ({ candidate: { candidate, sdpMid, ... } }) and flat
+    const source = isObject(data.payload.candidate) ? data.payload.candidate : data.payload;
+    const { candidate, sdpMid, sdpMLineIndex } = source;
+
+    if (candidate === undefined || candidate === null || candidate === '') {
+      return { messageType: 'ice', candidate: null };
+    }
+    if (typeof candidate !== 'string') return 'candidate must be a string';
+    if (sdpMid !== undefined && sdpMid !== null && typeof sdpMid !== 'string') return 'sdpMid must be a string';
+    if (sdpMLineIndex !== undefined && sdpMLineIndex !== null && !(Number.isInteger(sdpMLineIndex) && (sdpMLineIndex as number) >= 0)) {
+      return 'sdpMLineIndex must be a non-negative integer';
+    }
+
+    return {
+      messageType: 'ice',
+      candidate: {
+        candidate,
+        sdpMid: sdpMid ?? null,
+        sdpMLineIndex: (sdpMLineIndex as number | null | undefined) ?? null,
+      },
+    };
+  },
+
+  'stream-text': (data) => {
+    const status = readStatus(data);
+    return typeof status === 'string' ? status : { messageType: 'stream-text', ...status };
+  },
+
+  'delete-stream': (data) => {
+    const status = readStatus(data);
+    return typeof status === 'string' ? status : { messageType: 'delete-stream', ...status };
+  },
+
+  error: (data) => toErrorResponse(data),
+};
+
+/**
+ * Parses and validates an inbound signaling message
+ * @returns the typed message, or a protocol error describing why it was rejected
+ */
+export function parseSignalingMessage(raw: string): ParsedSignalingMessage {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return failure('malformed', null, 'Not valid JSON', raw);
+  }
+
+  if (!isObject(data)) return failure('malformed', null, 'Expected a JSON object', raw);
+
+  const { messageType } = data;
+  if (messageType === undefined) {
+    // D-ID reports some failures (e.g. internal server errors) without a messageType
+    if (typeof data.message === 'string' || data.error !== undefined) {
+      return { ok: true, message: toErrorResponse(data) };
+    }
+    return failure('unknown', null, 'Missing messageType', raw);
+  }
+  if (typeof messageType !== 'string') return failure('malformed', null, 'messageType must be a string', raw);
+
+  if (!Object.prototype.hasOwnProperty.call(VALIDATORS, messageType)) {
+    return failure('unknown', messageType, `Unknown messageType "${messageType}"`, raw);
+  }
+
+  const result = VALIDATORS[messageType as SignalingResponse['messageType']](data);
+  return typeof result === 'string'
+    ? failure('invalid', messageType, result, raw)
+    : { ok: true, message: result };
+}
+
+/**
+ * Builds a readable error from the several error shapes D-ID uses
+ */
+function toErrorResponse(data: JsonObject): ErrorResponse {
+  const connectionId = typeof data.connectionId === 'string' ? data.connectionId : null;
+  const requestId = typeof data.requestId === 'string' ? data.requestId : null;
+  const payloadError = isObject(data.payload) ? data.payload.error : undefined;
+
+  let message: string;
+  if (data.message !== undefined && data.message !== null) {
+    const details = [];
+    if (connectionId) details.push(`Connection: ${connectionId}`);
+    if (requestId) details.push(`Request: ${requestId}`);
+
+    message = String(data.message);
+    if (details.length > 0) {
+      message += ` (${details.join(', ')})`;
+    }
+  } else if (data.error !== undefined && data.error !== null) {
+    message = typeof data.error === 'string' ? data.error : JSON.stringify(data.error);
+  } else if (payloadError !== undefined && payloadError !== null) {
+    message = typeof payloadError === 'string' ? payloadError : JSON.stringify(payloadError);
+  } else {
+    message = `API Error: ${JSON.stringify(data)}`;
+  }
+
+  return { messageType: 'error', message, connectionId, requestId };
+}
+
+/**
+ * Checks an RTCIceServer from D-ID or our own configuration
+ * @returns the reason it was rejected, or null when valid
+ */
+export function validateIceServer(server: unknown): string | null {
+  if (!isObject(server)) return 'ice_servers entries must be objects';
+
+  const { urls, username, credential } = server;
+  const validUrls = typeof urls === 'string' || (Array.isArray(urls) && urls.every(url => typeof url === 'string'));
+  if (!validUrls) return 'ice_servers urls must be a string or an array of strings';
+  if (username !== undefined && typeof username !== 'string') return 'ice_servers username must be a string';
+  if (credential !== undefined && typeof credential !== 'string') return 'ice_servers credential must be a string';
+
+  return null;
+}
+
+/**
+ * Reads the optional status field, or the reason it was rejected
+ */
+function readStatus(data: JsonObject): { status: string | null } | string {
+  const { status } = data;
+  if (status === undefined || status === null) return { status: null };
+  return typeof status === 'string' ? { status } : 'status must be a string';
+}
+
+function failure(
+  kind: SignalingProtocolError['kind'],
+  messageType: string | null,
+  reason: string,
+  raw: string
+): ParsedSignalingMessage {
+  return {
+    ok: false,
+    error: {
+      kind,
+      messageType,
+      reason,
+      raw: raw.slice(0, SIGNALING_PROTOCOL_CONFIG.rawPreviewLength),
+      timestamp: Date.now(),
+    },
+  };
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
\ No newline at end of file
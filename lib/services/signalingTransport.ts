@@ -0,0 +1,194 @@
+/**
+ * Bidirectional message channel used by DidClient for D-ID signaling
+ */
+export interface SignalingTransport {
+  onmessage: ((data: string) => void) | null;
+  onclose: ((code: number, reason: string) => void) | null;
+  connect(): Promise<void>;
+  send(data: string): void;
+  isOpen(): boolean;
+  /** Closes the channel without firing onclose */
+  close(): void;
+}
+
+/**
+ * Talks to D-ID directly over a browser WebSocket (API key in the URL)
+ */
+export class WebSocketSignalingTransport implements SignalingTransport {
+  private ws: WebSocket | null = null;
+  private readonly url: string;
+  onmessage: ((data: string) => void) | null = null;
+  onclose: ((code: number, reason: string) => void) | null = null;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  /**
+   * Opens the WebSocket connection
+   */
+  connect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(this.url);
+
+      ws.onopen = () => {
+        console.log('WebSocket connection opened');
+        this.ws = ws;
+        resolve();
+      };
+
+      ws.onerror = (error) => {
+        console.error('WebSocket error:', error);
+        reject(new Error('WebSocket connection failed'));
+      };
+
+      ws.onclose = (event) => {
+        console.log('WebSocket connection closed', event.code, event.reason);
+        this.onclose?.(event.code, event.reason);
+      };
+
+      ws.onmessage = (event) => {
+        this.onmessage?.(event.data);
+      };
+    });
+  }
+
+  send(data: string): void {
+    this.ws?.send(data);
+  }
+
+  isOpen(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  close(): void {
+    if (!this.ws) return;
+
+    this.ws.onclose = null;
+    this.ws.onmessage = null;
+    this.ws.close();
+    this.ws = null;
+  }
+}
+
+/**
+ * Talks to D-ID through the server-side relay (/api/did/relay) so the API key
+ * never reaches the browser. Upstream messages arrive over Server-Sent Events,
+ * outgoing messages are POSTed in order.
+ */
+export class RelaySignalingTransport implements SignalingTransport {
+  private eventSource: EventSource | null = null;
+  private sessionUrl: string | null = null;
+  private sendChain: Promise<void> = Promise.resolve();
+  private open = false;
+  private readonly relayUrl: string;
+  onmessage: ((data: string) => void) | null = null;
+  onclose: ((code: number, reason: string) => void) | null = null;
+
+  constructor(relayUrl: string) {
+    this.relayUrl = relayUrl;
+  }
+
+  /**
+   * Creates a relay session and subscribes to its event stream
+   */
+  async connect(): Promise<void> {
+    const response = await fetch(this.relayUrl, { method: 'POST', credentials: 'same-origin' });
+    if (!response.ok) {
+      throw new Error(`Signaling relay error: ${response.status}`);
+    }
+
+    const { sessionId }: { sessionId: string } = await response.json();
+    const sessionUrl = `${this.relayUrl}/${encodeURIComponent(sessionId)}`;
+    this.sessionUrl = sessionUrl;
+
+    await new Promise<void>((resolve, reject) => {
+      const eventSource = new EventSource(sessionUrl, { withCredentials: true });
+      this.eventSource = eventSource;
+
+      eventSource.onopen = () => {
+        console.log('Signaling relay connection opened');
+        this.open = true;
+        resolve();
+      };
+
+      eventSource.onmessage = (event) => {
+        this.onmessage?.(event.data);
+      };
+
+      eventSource.addEventListener('close', (event) => {
+        const { code, reason } = JSON.parse((event as MessageEvent).data);
+        this.handleClose(code, reason);
+      });
+
+      eventSource.onerror = () => {
+        if (!this.open) {
+          eventSource.close();
+          reject(new Error('Signaling relay connection failed'));
+          return;
+        }
+
+        // EventSource retries on its own; it only gives up when the session is gone
+        if (eventSource.readyState === EventSource.CLOSED) {
+          this.handleClose(1006, 'Signaling relay stream lost');
+        }
+      };
+    });
+  }
+
+  send(data: string): void {
+    const sessionUrl = this.sessionUrl;
+    if (!sessionUrl) return;
+
+    // Serialise POSTs so SDP and ICE reach D-ID in the order they were sent
+    this.sendChain = this.sendChain
+      .then(async () => {
+        const response = await fetch(sessionUrl, {
+          method: 'POST',
+          credentials: 'same-origin',
+          headers: { 'Content-Type': 'application/json' },
+          body: data,
+        });
+        if (!response.ok) {
+          console.error('Signaling relay rejected message:', response.status);
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to send message through signaling relay:', error);
+      });
+  }
+
+  isOpen(): boolean {
+    return this.open;
+  }
+
+  close(): void {
+    const sessionUrl = this.sessionUrl;
+    this.teardown();
+
+    if (sessionUrl) {
+      // Let queued messages (e.g. delete-stream) go out before the session is dropped
+      this.sendChain.finally(() => {
+        fetch(sessionUrl, { method: 'DELETE', credentials: 'same-origin', keepalive: true }).catch(() => {});
+      });
+    }
+  }
+
+  /**
+   * Handles the relay reporting that the upstream D-ID socket closed
+   */
+  private handleClose(code: number, reason: string): void {
+    console.log('Signaling relay connection closed', code, reason);
+    this.teardown();
+    this.onclose?.(code, reason);
+  }
+
+  private teardown(): void {
+    this.open = false;
+    this.sessionUrl = null;
+    if (this.eventSource) {
+      this.eventSource.close();
+      this.eventSource = null;
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,148 @@
+import { PREWARM_CONFIG } from '@/lib/utils/constants';
+import { DidClient } from './didClient';
+import { isConnectedPhase, isConnectingPhase } from './connectionStateMachine';
+import { TypedEventEmitter } from './typedEventEmitter';
+
+export type PrewarmStatus = 'idle' | 'warming' | 'ready';
+
+interface StreamPoolEvents {
+  status: PrewarmStatus;
+}
+
+export interface ClaimedStream {
+  client: DidClient;
+  stream: MediaStream | null; // remote media, if the track already arrived
+}
+
+interface WarmStream {
+  key: string;
+  client: DidClient;
+  stream: MediaStream | null;
+  isStreamReady: boolean; // stream/ready received, or waited out
+  unsubscribe: (() => void)[];
+  idleTimeoutId: NodeJS.Timeout;
+  readyTimeoutId: NodeJS.Timeout | null;
+}
+
+/**
+ * Holds a D-ID stream negotiated ahead of time so Connect can hand it over at
+ * once. There is at most one, for the presenter identified by key; it is closed
+ * after the idle timeout if nobody claims it.
+ */
+export class StreamPool extends TypedEventEmitter<StreamPoolEvents> {
+  private warm: WarmStream | null = null;
+  private idleTimeout: number;
+
+  constructor(idleTimeout: number) {
+    super();
+    this.idleTimeout = idleTimeout;
+  }
+
+  /**
+   * Starts negotiating a stream for the presenter, replacing one held for another presenter
+   */
+  warmUp(key: string, createClient: () => DidClient): void {
+    if (this.warm?.key === key) return;
+    this.discard();
+
+    console.log('Pre-warming stream for', key);
+    const client = createClient();
+    const warm: WarmStream = {
+      key,
+      client,
+      stream: null,
+      isStreamReady: false,
+      unsubscribe: [],
+      idleTimeoutId: setTimeout(() => {
+        console.log('Pre-warmed stream was not used, closing it');
+        this.discard();
+      }, this.idleTimeout),
+      readyTimeoutId: null,
+    };
+    this.warm = warm;
+
+    warm.unsubscribe = [
+      client.on('state', ({ phase }) => {
+        if (phase === 'failed') {
+          console.warn('Pre-warming failed');
+          this.discard();
+          return;
+        }
+        if (phase === 'ready' && !warm.readyTimeoutId) {
+          // Same fallback as the peer connection uses when stream/ready never arrives
+          warm.readyTimeoutId = setTimeout(() => this.markStreamReady(warm), PREWARM_CONFIG.streamReadyTimeout);
+        }
+        this.emitStatus();
+      }),
+      client.on('track', (stream) => {
+        warm.stream = stream;
+      }),
+      client.on('stream-event', (status) => {
+        if (status === 'ready') this.markStreamReady(warm);
+      }),
+    ];
+
+    this.emitStatus();
+    client.connect().catch((error) => {
+      console.warn('Pre-warming failed:', error);
+      if (this.warm === warm) this.discard();
+    });
+  }
+
+  /**
+   * Hands over the held stream if it is for this presenter and still usable;
+   * the caller owns the client from then on
+   */
+  claim(key: string): ClaimedStream | null {
+    const warm = this.warm;
+    if (!warm || warm.key !== key) return null;
+
+    const { phase } = warm.client.getConnectionState();
+    if (!isConnectedPhase(phase) && !isConnectingPhase(phase) && phase !== 'reconnecting') {
+      this.discard();
+      return null;
+    }
+
+    this.release(warm);
+    console.log('Using pre-warmed stream for', key);
+    return { client: warm.client, stream: warm.stream };
+  }
+
+  /**
+   * Closes the held stream, if any
+   */
+  discard(): void {
+    const warm = this.warm;
+    if (!warm) return;
+
+    this.release(warm);
+    warm.client.disconnect();
+  }
+
+  getStatus(): PrewarmStatus {
+    if (!this.warm) return 'idle';
+    const { phase } = this.warm.client.getConnectionState();
+    return isConnectedPhase(phase) && this.warm.isStreamReady ? 'ready' : 'warming';
+  }
+
+  private markStreamReady(warm: WarmStream): void {
+    if (warm.isStreamReady) return;
+    warm.isStreamReady = true;
+    if (this.warm === warm) this.emitStatus();
+  }
+
+  /**
+   * Stops tracking the held stream without closing it
+   */
+  private release(warm: WarmStream): void {
+    warm.unsubscribe.forEach(unsubscribe => unsubscribe());
+    clearTimeout(warm.idleTimeoutId);
+    if (warm.readyTimeoutId) clearTimeout(warm.readyTimeoutId);
+    if (this.warm === warm) this.warm = null;
+    this.emitStatus();
+  }
+
+  private emitStatus(): void {
+    this.emit('status', this.getStatus());
+  }
+}
\ No newline at end of file
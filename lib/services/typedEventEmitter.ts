@@ -0,0 +1,65 @@
+type Listener<T> = (payload: T) => void;
+
+/**
+ * Minimal event emitter whose event names and payloads are checked against an event map
+ */
+export class TypedEventEmitter<Events extends object> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  /**
+   * Subscribes to an event
+   * @returns a function that removes the listener
+   */
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    const listeners = this.listeners[event] ?? new Set<Listener<Events[K]>>();
+    listeners.add(listener);
+    this.listeners[event] = listeners;
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Removes a listener added with on()
+   */
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  /**
+   * Subscribes to the next occurrence of an event only
+   * @returns a function that removes the listener before it fires
+   */
+  once<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    const unsubscribe = this.on(event, (payload) => {
+      unsubscribe();
+      listener(payload);
+    });
+    return unsubscribe;
+  }
+
+  /**
+   * Removes every listener, or every listener of one event
+   */
+  removeAllListeners(event?: keyof Events): void {
+    if (event) {
+      delete this.listeners[event];
+    } else {
+      this.listeners = {};
+    }
+  }
+
+  /**
+   * Calls each listener in subscription order; a throwing listener does not stop the others
+   */
+  protected emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const listeners = this.listeners[event];
+    if (!listeners) return;
+
+    for (const listener of Array.from(listeners)) {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`Error in ${String(event)} listener:`, error);
+      }
+    }
+  }
+}
\ No newline at end of file
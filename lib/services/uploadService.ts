@@ -0,0 +1,38 @@
+import { AUDIO_SCRIPT_CONFIG } from '@/lib/utils/constants';
+
+export interface AudioUploadResult {
+  url: string; // reachable by D-ID, for use as a stream audio script
+  fileName: string;
+  size: number;
+  mimeType: string;
+  duration?: number; // seconds, when D-ID reports it
+}
+
+/**
+ * Client for /api/upload
+ */
+export class UploadService {
+  /**
+   * Uploads an audio clip so the presenter can lip-sync to it
+   */
+  static async uploadAudio(file: File): Promise<AudioUploadResult> {
+    if (file.size > AUDIO_SCRIPT_CONFIG.maxSize) {
+      throw new Error(`Audio exceeds ${AUDIO_SCRIPT_CONFIG.maxSize / 1024 / 1024}MB limit`);
+    }
+
+    const formData = new FormData();
+    formData.append('file', file);
+
+    const response = await fetch('/api/upload', {
+      method: 'POST',
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || 'Failed to upload audio');
+    }
+
+    return response.json();
+  }
+}
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { StreamStats, VideoModeEvent, VideoMode } from '@/types/did';
+import { VIDEO_FALLBACK_CONFIG } from '@/lib/utils/constants';
+
+type Health = 'healthy' | 'stall' | 'poor-network' | 'unknown';
+
+const MESSAGES: Record<Exclude<VideoModeEvent['reason'], 'reset'>, string> = {
+  stall: 'Video stalled, continuing with audio only',
+  'poor-network': 'Connection too slow for video, continuing with audio only',
+  recovered: 'Video restored',
+};
+
+/**
+ * Watches stats samples for sustained video stalls or poor network while the
+ * presenter speaks and decides when to fall back to audio only, and when the
+ * video is healthy again for long enough to switch back
+ */
+export class VideoHealthMonitor {
+  private mode: VideoMode = 'video';
+  private unhealthySince: number | null = null;
+  private healthySince: number | null = null;
+
+  /**
+   * Feeds one stats sample
+   * @param isSpeaking - stalls only count while the presenter should be moving
+   * @param videoIsPlaying - whether video bytes arrived since the previous sample
+   * @returns the mode change this sample caused, if any
+   */
+  update(stats: StreamStats, isSpeaking: boolean, videoIsPlaying: boolean): VideoModeEvent | null {
+    const health = this.assess(stats, isSpeaking, videoIsPlaying);
+    const now = stats.timestamp;
+
+    if (this.mode === 'video') {
+      if (health !== 'stall' && health !== 'poor-network') {
+        this.unhealthySince = null;
+        return null;
+      }
+      if (this.unhealthySince === null) this.unhealthySince = now;
+      if (now - this.unhealthySince < VIDEO_FALLBACK_CONFIG.degradeAfter) return null;
+
+      return this.switchTo('audio-only', health, now);
+    }
+
+    if (health !== 'healthy') {
+      this.healthySince = null;
+      return null;
+    }
+    if (this.healthySince === null) this.healthySince = now;
+    if (now - this.healthySince < VIDEO_FALLBACK_CONFIG.recoverAfter) return null;
+
+    return this.switchTo('video', 'recovered', now);
+  }
+
+  getMode(): VideoMode {
+    return this.mode;
+  }
+
+  /**
+   * Starts over with video for a new peer connection
+   * @returns the change back to video, if the previous connection had fallen back
+   */
+  reset(): VideoModeEvent | null {
+    const wasAudioOnly = this.mode === 'audio-only';
+    this.mode = 'video';
+    this.unhealthySince = null;
+    this.healthySince = null;
+    return wasAudioOnly
+      ? { mode: 'video', reason: 'reset', message: 'Video reset for the new connection', timestamp: Date.now() }
+      : null;
+  }
+
+  /**
+   * Classifies one sample; 'unknown' while idle, when stalls can't be told apart from a still presenter
+   */
+  private assess(stats: StreamStats, isSpeaking: boolean, videoIsPlaying: boolean): Health {
+    const { video, audio } = stats;
+    const { minFrameRate, recoverFrameRate, minVideoBitrate, maxPacketLoss } = VIDEO_FALLBACK_CONFIG;
+
+    if (video && videoIsPlaying && video.frameRate >= recoverFrameRate
+      && video.bitrate >= minVideoBitrate && video.packetLoss <= maxPacketLoss) {
+      return 'healthy';
+    }
+    if (!isSpeaking) return 'unknown';
+
+    // Frozen video with audio still flowing is what audio-only mode can save
+    const audioFlowing = !!audio && audio.bitrate > 0;
+    if (audioFlowing && (!video || !videoIsPlaying || video.frameRate < minFrameRate)) return 'stall';
+    if (video && (video.bitrate < minVideoBitrate || video.packetLoss > maxPacketLoss)) return 'poor-network';
+    return 'unknown';
+  }
+
+  private switchTo(mode: VideoMode, reason: Exclude<VideoModeEvent['reason'], 'reset'>, timestamp: number): VideoModeEvent {
+    this.mode = mode;
+    this.unhealthySince = null;
+    this.healthySince = null;
+    return { mode, reason, message: MESSAGES[reason], timestamp };
+  }
+}
\ No newline at end of file
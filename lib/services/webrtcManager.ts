@@ -1,4 +1,6 @@
-import { STREAM_CONFIG } from '@/lib/utils/constants';
+import { STREAM_CONFIG, STATS_CONFIG } from '@/lib/utils/constants';
+import { IceConfig } from '@/types/api';
+import { InboundMediaStats, StreamStats, StreamEventPayload, VideoQualityStats } from '@/types/did';
 
 export interface WebRTCCallbacks {
   onIceGatheringStateChange: (state: RTCIceGatheringState) => void;
@@ -8,6 +10,14 @@ export interface WebRTCCallbacks {
   onSignalingStateChange: (state: RTCSignalingState) => void;
   onTrack: (event: RTCTrackEvent) => void;
   onStreamEvent: (event: MessageEvent) => void;
+  onStats?: (stats: StreamStats) => void;
+}
+
+interface InboundSample {
+  timestamp: number;
+  bytesReceived: number;
+  packetsReceived: number;
+  packetsLost: number;
 }
 
 /**
@@ -16,55 +26,119 @@ export interface WebRTCCallbacks {
 export class WebRTCManager {
   private peerConnection: RTCPeerConnection | null = null;
   private dataChannel: RTCDataChannel | null = null;
+  private pendingCandidates: RTCIceCandidateInit[] = [];
   private statsIntervalId: NodeJS.Timeout | null = null;
   private lastBytesReceived = 0;
+  private lastSamples: Partial<Record<'audio' | 'video', InboundSample>> = {};
+  private lastFramesDecoded = 0;
+  private stalledPolls = 0;
+  private detectedFreezes = 0;
   public isStreamReady = !STREAM_CONFIG.warmup;
   public videoIsPlaying = false;
 
   /**
-   * Creates peer connection with provided offer and ice servers
+   * Creates peer connection with provided offer, D-ID's ice servers and our ICE settings
    */
   async createPeerConnection(
     offer: RTCSessionDescriptionInit,
     iceServers: RTCIceServer[],
-    callbacks: WebRTCCallbacks
+    callbacks: WebRTCCallbacks,
+    iceConfig: IceConfig
   ): Promise<RTCSessionDescriptionInit> {
     if (!this.peerConnection) {
-      this.peerConnection = new RTCPeerConnection({ iceServers });
+      this.peerConnection = new RTCPeerConnection({
+        iceServers: iceConfig.serverMode === 'replace' ? iceConfig.servers : [...iceServers, ...iceConfig.servers],
+        iceTransportPolicy: iceConfig.transportPolicy,
+      });
       this.dataChannel = this.peerConnection.createDataChannel('JanusDataChannel');
       this.setupEventListeners(callbacks);
     }
 
     await this.peerConnection.setRemoteDescription(offer);
+    await this.flushPendingCandidates();
     const answer = await this.peerConnection.createAnswer();
     await this.peerConnection.setLocalDescription(answer);
 
     return answer;
   }
 
+  /**
+   * Adds a remote ICE candidate, or buffers it until the peer connection has a
+   * remote description; candidates can arrive before the offer has been applied
+   */
+  async addRemoteCandidate(candidate: RTCIceCandidateInit): Promise<void> {
+    if (!this.peerConnection?.remoteDescription) {
+      this.pendingCandidates.push(candidate);
+      return;
+    }
+
+    await this.peerConnection.addIceCandidate(candidate);
+  }
+
+  /**
+   * Adds the candidates buffered before the remote description was set
+   */
+  private async flushPendingCandidates(): Promise<void> {
+    const candidates = this.pendingCandidates;
+    this.pendingCandidates = [];
+
+    for (const candidate of candidates) {
+      try {
+        await this.peerConnection?.addIceCandidate(candidate);
+      } catch (error) {
+        console.error('Failed to add buffered ICE candidate', error);
+      }
+    }
+  }
+
+  /**
+   * Starts an ICE restart: a new offer with fresh ICE credentials, for the remote peer to answer
+   */
+  async createIceRestartOffer(): Promise<RTCSessionDescriptionInit | null> {
+    if (!this.peerConnection) return null;
+
+    const offer = await this.peerConnection.createOffer({ iceRestart: true });
+    await this.peerConnection.setLocalDescription(offer);
+    return offer;
+  }
+
+  /**
+   * Applies the remote peer's answer to an ICE restart offer
+   */
+  async applyIceRestartAnswer(answer: RTCSessionDescriptionInit): Promise<void> {
+    if (!this.peerConnection || this.peerConnection.signalingState !== 'have-local-offer') {
+      throw new Error('No ICE restart in progress');
+    }
+
+    await this.peerConnection.setRemoteDescription(answer);
+    await this.flushPendingCandidates();
+  }
+
   /**
    * Sets up WebRTC event listeners
    */
   private setupEventListeners(callbacks: WebRTCCallbacks): void {
-    if (!this.peerConnection || !this.dataChannel) return;
+    const pc = this.peerConnection;
+    if (!pc || !this.dataChannel) return;
 
-    this.peerConnection.addEventListener('icegatheringstatechange', () => {
-      callbacks.onIceGatheringStateChange(this.peerConnection!.iceGatheringState);
-    });
+    // Events a closed connection still delivers must not be mistaken for the current one's
+    const isCurrent = () => pc === this.peerConnection;
 
-    this.peerConnection.addEventListener('icecandidate', callbacks.onIceCandidate);
+    pc.addEventListener('icegatheringstatechange', () => {
+      if (isCurrent()) callbacks.onIceGatheringStateChange(pc.iceGatheringState);
+    });
 
-    this.peerConnection.addEventListener('iceconnectionstatechange', () => {
-      const state = this.peerConnection!.iceConnectionState;
-      callbacks.onIceConnectionStateChange(state);
+    pc.addEventListener('icecandidate', callbacks.onIceCandidate);
 
-      if (state === 'failed' || state === 'closed') {
-        this.close();
-      }
+    pc.addEventListener('iceconnectionstatechange', () => {
+      if (!isCurrent()) return;
+      // 'failed' is left to the caller, which can attempt an ICE restart
+      callbacks.onIceConnectionStateChange(pc.iceConnectionState);
     });
 
-    this.peerConnection.addEventListener('connectionstatechange', () => {
-      const state = this.peerConnection!.connectionState;
+    pc.addEventListener('connectionstatechange', () => {
+      if (!isCurrent()) return;
+      const state = pc.connectionState;
       callbacks.onConnectionStateChange(state);
 
       if (state === 'connected') {
@@ -72,12 +146,12 @@ export class WebRTCManager {
       }
     });
 
-    this.peerConnection.addEventListener('signalingstatechange', () => {
-      callbacks.onSignalingStateChange(this.peerConnection!.signalingState);
+    pc.addEventListener('signalingstatechange', () => {
+      if (isCurrent()) callbacks.onSignalingStateChange(pc.signalingState);
     });
 
-    this.peerConnection.addEventListener('track', (event) => {
-      this.setupStatsMonitoring(event);
+    pc.addEventListener('track', (event) => {
+      this.setupStatsMonitoring(callbacks);
       callbacks.onTrack(event);
     });
 
@@ -97,33 +171,114 @@ export class WebRTCManager {
   }
 
   /**
-   * Sets up video stats monitoring
+   * Starts polling stats; one poll covers both the audio and video tracks
    */
-  private setupStatsMonitoring(event: RTCTrackEvent): void {
-    if (!event.track) return;
+  private setupStatsMonitoring(callbacks: WebRTCCallbacks): void {
+    if (this.statsIntervalId) return;
 
     this.statsIntervalId = setInterval(async () => {
-      if (!this.peerConnection) return;
+      const pc = this.peerConnection;
+      if (!pc) return;
 
-      const stats = await this.peerConnection.getStats(event.track);
-      stats.forEach((report) => {
-        if (report.type === 'inbound-rtp' && report.kind === 'video') {
-          const videoStatusChanged = this.videoIsPlaying !== (report.bytesReceived > this.lastBytesReceived);
+      // getStats rejects if the connection is closed while the poll is in flight
+      let report: RTCStatsReport;
+      try {
+        report = await pc.getStats();
+      } catch (error) {
+        console.warn('Failed to read WebRTC stats:', error);
+        return;
+      }
+      if (pc !== this.peerConnection) return;
 
-          if (videoStatusChanged) {
-            this.videoIsPlaying = report.bytesReceived > this.lastBytesReceived;
+      const stats: StreamStats = {
+        timestamp: Date.now(),
+        video: null,
+        audio: null,
+        roundTripTime: null,
+      };
+
+      report.forEach((entry) => {
+        if (entry.type === 'inbound-rtp' && entry.kind === 'video') {
+          stats.video = this.computeVideoStats(entry);
+        } else if (entry.type === 'inbound-rtp' && entry.kind === 'audio') {
+          stats.audio = this.computeInboundStats('audio', entry);
+        } else if (entry.type === 'candidate-pair' && entry.nominated && entry.state === 'succeeded') {
+          const pair = entry as RTCIceCandidatePairStats;
+          if (pair.currentRoundTripTime !== undefined) {
+            stats.roundTripTime = pair.currentRoundTripTime * 1000;
           }
-          this.lastBytesReceived = report.bytesReceived;
         }
       });
-    }, 500);
+
+      callbacks.onStats?.(stats);
+    }, STATS_CONFIG.pollInterval);
+  }
+
+  /**
+   * Computes bitrate, loss and jitter against the previous sample of the same kind
+   */
+  private computeInboundStats(kind: 'audio' | 'video', report: RTCInboundRtpStreamStats): InboundMediaStats {
+    const sample: InboundSample = {
+      timestamp: report.timestamp,
+      bytesReceived: report.bytesReceived ?? 0,
+      packetsReceived: report.packetsReceived ?? 0,
+      packetsLost: report.packetsLost ?? 0,
+    };
+    const previous = this.lastSamples[kind];
+    this.lastSamples[kind] = sample;
+
+    let bitrate = 0;
+    let packetLoss = 0;
+
+    if (previous && sample.timestamp > previous.timestamp) {
+      const seconds = (sample.timestamp - previous.timestamp) / 1000;
+      bitrate = ((sample.bytesReceived - previous.bytesReceived) * 8) / 1000 / seconds;
+
+      const lost = sample.packetsLost - previous.packetsLost;
+      const expected = lost + sample.packetsReceived - previous.packetsReceived;
+      packetLoss = expected > 0 ? Math.max(0, (lost / expected) * 100) : 0;
+    }
+
+    return {
+      bitrate: Math.max(0, bitrate),
+      packetsLost: sample.packetsLost,
+      packetLoss,
+      jitter: (report.jitter ?? 0) * 1000,
+    };
+  }
+
+  /**
+   * Adds frame metrics to the inbound stats and tracks whether video is playing
+   */
+  private computeVideoStats(report: RTCInboundRtpStreamStats): VideoQualityStats {
+    const bytesReceived = report.bytesReceived ?? 0;
+    this.videoIsPlaying = bytesReceived > this.lastBytesReceived;
+    this.lastBytesReceived = bytesReceived;
+
+    // Browsers without freezeCount: count runs of polls with no newly decoded frame
+    const framesDecoded = report.framesDecoded ?? 0;
+    if (framesDecoded > this.lastFramesDecoded) {
+      this.stalledPolls = 0;
+    } else if (this.lastFramesDecoded > 0 && ++this.stalledPolls === STATS_CONFIG.freezeThreshold) {
+      this.detectedFreezes++;
+    }
+    this.lastFramesDecoded = framesDecoded;
+
+    return {
+      ...this.computeInboundStats('video', report),
+      frameRate: report.framesPerSecond ?? 0,
+      width: report.frameWidth ?? 0,
+      height: report.frameHeight ?? 0,
+      freezeCount: report.freezeCount ?? this.detectedFreezes,
+    };
   }
 
   /**
    * Processes stream events from data channel
    */
-  processStreamEvent(event: string): { status: string; isReady: boolean } {
+  processStreamEvent(event: string): { status: string; isReady: boolean; payload: StreamEventPayload | null } {
     const [eventType] = event.split(':');
+    const payload = this.parseEventPayload(event);
     let status: string;
 
     switch (eventType) {
@@ -147,13 +302,68 @@ export class WebRTCManager {
         break;
     }
 
-    return { status, isReady: this.isStreamReady };
+    return { status, isReady: this.isStreamReady, payload };
+  }
+
+  /**
+   * Parses the JSON D-ID appends after the event type, if any.
+   * Fields may sit at the top level or under "metadata".
+   */
+  private parseEventPayload(event: string): StreamEventPayload | null {
+    const separator = event.indexOf(':');
+    if (separator === -1) return null;
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(event.slice(separator + 1));
+    } catch {
+      return null;
+    }
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return null;
+
+    const fields = raw as Record<string, unknown>;
+    const metadata = typeof fields.metadata === 'object' && fields.metadata !== null
+      ? fields.metadata as Record<string, unknown>
+      : {};
+    const pick = (key: string) => fields[key] ?? metadata[key];
+
+    const videoId = pick('videoId');
+    const index = pick('index');
+    const duration = pick('duration');
+    const message = pick('message') ?? pick('error');
+
+    return {
+      videoId: typeof videoId === 'string' ? videoId : null,
+      index: typeof index === 'number' && Number.isInteger(index) ? index : null,
+      duration: typeof duration === 'number' && Number.isFinite(duration) ? duration : null,
+      message: typeof message === 'string' ? message : null,
+      raw: fields,
+    };
+  }
+
+  /**
+   * Sends a message to D-ID over the data channel
+   */
+  sendDataChannelMessage(message: string): boolean {
+    if (!this.dataChannel || this.dataChannel.readyState !== 'open') {
+      console.warn('Data channel is not open. Cannot send message.');
+      return false;
+    }
+
+    this.dataChannel.send(message);
+    return true;
   }
 
   /**
    * Closes peer connection and cleans up resources
    */
   close(): void {
+    // Stop polling first so no getStats call starts on a closing connection
+    if (this.statsIntervalId) {
+      clearInterval(this.statsIntervalId);
+      this.statsIntervalId = null;
+    }
+
     if (this.peerConnection) {
       this.peerConnection.close();
       this.peerConnection = null;
@@ -163,14 +373,15 @@ export class WebRTCManager {
       this.dataChannel = null;
     }
 
-    if (this.statsIntervalId) {
-      clearInterval(this.statsIntervalId);
-      this.statsIntervalId = null;
-    }
+    this.pendingCandidates = [];
 
     this.isStreamReady = !STREAM_CONFIG.warmup;
     this.videoIsPlaying = false;
     this.lastBytesReceived = 0;
+    this.lastSamples = {};
+    this.lastFramesDecoded = 0;
+    this.stalledPolls = 0;
+    this.detectedFreezes = 0;
   }
 
   /**
@@ -0,0 +1,48 @@
+// Signed, expiring browser session ids. Uses Web Crypto so the same code runs
+// in middleware (edge) and in route handlers (node).
+
+const encoder = new TextEncoder();
+
+function toHex(bytes: ArrayBuffer | Uint8Array): string {
+  return Array.from(new Uint8Array(bytes), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array<ArrayBuffer> | null {
+  if (hex.length % 2 !== 0 || !/^[0-9a-f]*$/.test(hex)) return null;
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+function importKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+/**
+ * Issues a new signed session value, formatted `<id>.<expiresAt>.<signature>`
+ * @param maxAge - lifetime in seconds
+ */
+export async function createBrowserSession(secret: string, maxAge: number): Promise<string> {
+  const id = toHex(crypto.getRandomValues(new Uint8Array(16)));
+  const payload = `${id}.${Date.now() + maxAge * 1000}`;
+  const signature = await crypto.subtle.sign('HMAC', await importKey(secret), encoder.encode(payload));
+  return `${payload}.${toHex(signature)}`;
+}
+
+/**
+ * Returns the session id if the value is unexpired and signed with this secret
+ */
+export async function verifyBrowserSession(value: string | undefined, secret: string): Promise<string | null> {
+  const [id, expiresAt, signatureHex, ...rest] = value?.split('.') ?? [];
+  if (!id || !expiresAt || !signatureHex || rest.length > 0) return null;
+  if (!(Number(expiresAt) > Date.now())) return null;
+
+  const signature = fromHex(signatureHex);
+  if (!signature) return null;
+
+  // subtle.verify compares in constant time
+  const isValid = await crypto.subtle.verify('HMAC', await importKey(secret), signature, encoder.encode(`${id}.${expiresAt}`));
+  return isValid ? id : null;
+}
\ No newline at end of file
@@ -0,0 +1,114 @@
+import { CaptionCue, CaptionFormat } from '@/types/captions';
+import { CAPTION_CONFIG } from '@/lib/utils/constants';
+
+/**
+ * Breaks text into caption pages of at most maxLines lines of maxLineLength
+ * characters, wrapping on spaces (a single over-long word gets its own line)
+ */
+export function paginateCaption(
+  text: string,
+  maxLineLength: number = CAPTION_CONFIG.maxLineLength,
+  maxLines: number = CAPTION_CONFIG.maxLines
+): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && line.length + 1 + word.length > maxLineLength) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+
+  const pages: string[] = [];
+  for (let i = 0; i < lines.length; i += maxLines) {
+    pages.push(lines.slice(i, i + maxLines).join('\n'));
+  }
+  return pages;
+}
+
+/**
+ * Rough time the presenter needs to say the text
+ */
+export function estimateSpeechDuration(text: string): number {
+  return text.length * CAPTION_CONFIG.msPerCharacter;
+}
+
+/**
+ * Splits a time span across pages in proportion to their length
+ * @returns each page's start and end offset from the start of the span
+ */
+function timePages(pages: string[], durationMs: number): { page: string; from: number; to: number }[] {
+  const totalLength = pages.reduce((sum, page) => sum + page.length, 0) || 1;
+  let from = 0;
+  return pages.map(page => {
+    const to = from + (page.length / totalLength) * durationMs;
+    const timed = { page, from, to };
+    from = to;
+    return timed;
+  });
+}
+
+/**
+ * The page of a sentence that is being spoken, paced by an estimated speaking
+ * rate; the last page stays up until stream/done
+ */
+export function getLiveCaption(text: string, elapsedMs: number): string | null {
+  const pages = paginateCaption(text);
+  if (pages.length === 0) return null;
+
+  const timed = timePages(pages, estimateSpeechDuration(text));
+  return (timed.find(({ to }) => elapsedMs < to) ?? timed[timed.length - 1]).page;
+}
+
+/**
+ * Formats an offset as HH:MM:SS.mmm (WebVTT) or HH:MM:SS,mmm (SRT)
+ */
+function formatTimestamp(offsetMs: number, format: CaptionFormat): string {
+  const ms = Math.max(0, Math.round(offsetMs));
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${format === 'vtt' ? '.' : ','}${pad(ms % 1000, 3)}`;
+}
+
+/**
+ * Makes cue text safe for the format: WebVTT treats & and < as markup and both
+ * formats read --> as a timing line
+ */
+function escapeCueText(text: string, format: CaptionFormat): string {
+  if (format === 'srt') return text.replace(/-->/g, '-- >');
+  // Escaping > also breaks up -->
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Formats cues as a WebVTT or SRT file, timed from origin (e.g. the start of a
+ * session recording); long cues are split into the same pages as the live
+ * captions, spread over the cue's actual duration, and cues that ended before
+ * origin are left out
+ */
+export function formatCaptions(cues: CaptionCue[], origin: number, format: CaptionFormat): string {
+  const blocks: string[] = [];
+
+  for (const cue of cues) {
+    if (cue.end <= origin) continue;
+
+    for (const { page, from, to } of timePages(paginateCaption(cue.text), cue.end - cue.start)) {
+      const start = cue.start + from - origin;
+      const end = cue.start + to - origin;
+      if (end <= 0) continue;
+
+      const timing = `${formatTimestamp(start, format)} --> ${formatTimestamp(end, format)}`;
+      const text = escapeCueText(page, format);
+      blocks.push(format === 'srt' ? `${blocks.length + 1}\n${timing}\n${text}` : `${timing}\n${text}`);
+    }
+  }
+
+  const body = blocks.join('\n\n');
+  return format === 'vtt' ? `WEBVTT\n\n${body}\n` : `${body}\n`;
+}
\ No newline at end of file
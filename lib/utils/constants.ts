@@ -1,4 +1,7 @@
-import { PresenterConfig } from '@/types/did';
+import { PresenterConfig, VoiceConfig, VoicePreset } from '@/types/did';
+import { LatencyStage } from '@/types/latency';
+import { VirtualBackgroundSettings } from '@/types/background';
+import { CaptionSettings } from '@/types/captions';
 
 export const PRESENTER_CONFIG: PresenterConfig = {
   talks: {
@@ -15,6 +18,96 @@ export const STREAM_CONFIG = {
   warmup: true,
   stitch: true,
   ssml: 'false',
+  utteranceGap: 300, // pause after stream/done before the next queued utterance
+  utteranceTimeout: 60000, // release the queue if stream/done never arrives
+  maxQueueLength: 20,
+  interruptSettleTimeout: 2000, // max wait for an interrupted utterance to report done
+} as const;
+
+export const BARGE_IN_CONFIG = {
+  onRecordingStart: true, // user starts talking
+  onNewMessage: true, // user sends another message
+} as const;
+
+export const SEGMENTER_CONFIG = {
+  minChunkLength: 12, // avoid sending tiny fragments like "Sí." on their own
+  maxChunkLength: 200, // force a clause break on run-on sentences
+} as const;
+
+export const RECONNECT_CONFIG = {
+  maxAttempts: 5,
+  baseDelay: 1000, // 1 second
+  maxDelay: 15000, // 15 seconds
+  attemptTimeout: 15000, // per-attempt negotiation deadline
+  jitter: 0.3, // +/- 30% randomisation
+  disconnectGracePeriod: 3000, // ICE 'disconnected' often recovers on its own
+  iceRestartTimeout: 8000, // time an ICE restart gets before falling back to a full reconnect
+} as const;
+
+export const PRESENTER_SWITCH_CONFIG = {
+  timeout: 30000, // give up on the new presenter's stream after 30 seconds
+  pollInterval: 100, // how often to check whether the current utterance has finished
+  crossfadeDuration: 600, // fade from the old presenter's video to the new one
+} as const;
+
+export const PREWARM_CONFIG = {
+  idleTimeout: 120000, // close an unclaimed pre-warmed stream after 2 minutes
+  streamReadyTimeout: 5000, // treat the stream as ready if stream/ready never arrives
+} as const;
+
+export const STATS_CONFIG = {
+  pollInterval: 500, // getStats() sampling period
+  historyLength: 60, // samples kept for sparklines (30 seconds)
+  freezeThreshold: 2, // polls without a new decoded frame that count as a freeze
+} as const;
+
+export const LATENCY_CONFIG = {
+  maxTurns: 100, // turns kept for the session percentiles
+  waterfallTurns: 10, // most recent turns drawn in the debug drawer
+} as const;
+
+// Pipeline stages aggregated per session; each runs between two marks of a turn
+export const LATENCY_STAGES: LatencyStage[] = [
+  { id: 'transcription', label: 'Deepgram transcription', from: 'recording-stopped', to: 'transcript-received' },
+  { id: 'llm-first-token', label: 'OpenAI first token', from: 'request-sent', to: 'first-token' },
+  { id: 'llm-completion', label: 'OpenAI full reply', from: 'request-sent', to: 'completion' },
+  { id: 'first-sentence', label: 'First sentence ready', from: 'first-token', to: 'stream-text-sent' },
+  { id: 'did-start', label: 'TTS + D-ID start', from: 'stream-text-sent', to: 'stream-started' },
+  { id: 'speech', label: 'Presenter speaking', from: 'stream-started', to: 'stream-done' },
+  { id: 'first-word', label: 'Input to first word', from: 'start', to: 'stream-started' },
+];
+
+export const VIDEO_FALLBACK_CONFIG = {
+  degradeAfter: 3000, // sustained stall or poor network before switching to audio only
+  recoverAfter: 5000, // sustained healthy video before switching back
+  minFrameRate: 5, // below this while speaking counts as a stall
+  recoverFrameRate: 15,
+  minVideoBitrate: 150, // kbps
+  maxPacketLoss: 10, // percent
+} as const;
+
+export const TIMELINE_CONFIG = {
+  maxEntries: 50, // stream-text messages kept in the per-utterance timeline
+} as const;
+
+export const SIGNALING_PROTOCOL_CONFIG = {
+  maxRecentErrors: 10, // protocol errors kept for the diagnostics panel
+  rawPreviewLength: 200, // characters of an offending message kept for debugging
+} as const;
+
+export const RELAY_CONFIG = {
+  idleTimeout: 30000, // close upstream if no browser is subscribed for 30 seconds
+  heartbeatInterval: 15000, // SSE comment to keep proxies from closing the stream
+  maxSessions: 50, // concurrent upstream sockets per server process
+  maxMessageBytes: 64 * 1024, // largest message accepted from the browser
+  cookieName: 'did_relay_token',
+  cookieMaxAge: 60 * 60, // 1 hour
+  maxSessionsPerBrowser: 4, // active stream, pre-warmed stream and a presenter switch in flight
+} as const;
+
+export const BROWSER_SESSION_CONFIG = {
+  cookieName: 'browser_session', // signed id issued with the page, required by the routes that spend server keys
+  cookieMaxAge: 12 * 60 * 60, // 12 hours
 } as const;
 
 export const OPENAI_CONFIG = {
@@ -27,11 +120,106 @@ export const DEEPGRAM_CONFIG = {
   smart_format: true,
 } as const;
 
+export const PROXY_CONFIG = {
+  chatRoute: '/api/chat',
+  transcribeRoute: '/api/transcribe',
+  maxMessages: 100, // history entries forwarded per chat request; older ones are dropped, the system prompt is kept
+  maxMessageLength: 16000, // characters per message
+  maxAudioBytes: 25 * 1024 * 1024, // 25MB
+} as const;
+
 export const ELEVENLABS_CONFIG = {
   model_id: 'eleven_turbo_v2_5',
   voice_id: process.env.NEXT_PUBLIC_ELEVENLABS_VOICE_ID || '2EiwWnXFnvU5JabPnv8n',
 } as const;
 
+export const DEFAULT_VOICE: VoiceConfig = {
+  provider: 'elevenlabs',
+  voiceId: ELEVENLABS_CONFIG.voice_id,
+  modelId: ELEVENLABS_CONFIG.model_id,
+};
+
+// Curated voices offered in the presenter selector; any other voice id can be entered by hand
+export const VOICE_PRESETS: VoicePreset[] = [
+  {
+    id: 'elevenlabs-default',
+    label: 'ElevenLabs (default)',
+    description: 'Configured ElevenLabs voice, Turbo v2.5',
+    voice: DEFAULT_VOICE,
+  },
+  {
+    id: 'microsoft-es-elvira',
+    label: 'Elvira',
+    description: 'Microsoft · Spanish (Spain) · female',
+    voice: { provider: 'microsoft', voiceId: 'es-ES-ElviraNeural', language: 'es-ES' },
+  },
+  {
+    id: 'microsoft-es-alvaro',
+    label: 'Álvaro',
+    description: 'Microsoft · Spanish (Spain) · male',
+    voice: { provider: 'microsoft', voiceId: 'es-ES-AlvaroNeural', language: 'es-ES' },
+  },
+  {
+    id: 'microsoft-mx-dalia',
+    label: 'Dalia',
+    description: 'Microsoft · Spanish (Mexico) · female',
+    voice: { provider: 'microsoft', voiceId: 'es-MX-DaliaNeural', language: 'es-MX' },
+  },
+  {
+    id: 'microsoft-us-jenny',
+    label: 'Jenny',
+    description: 'Microsoft · English (US) · female, cheerful',
+    voice: { provider: 'microsoft', voiceId: 'en-US-JennyNeural', language: 'en-US', style: 'cheerful' },
+  },
+  {
+    id: 'amazon-es-lucia',
+    label: 'Lucia',
+    description: 'Amazon Polly · Spanish (Spain) · female',
+    voice: { provider: 'amazon', voiceId: 'Lucia', language: 'es-ES' },
+  },
+  {
+    id: 'google-es-neural2a',
+    label: 'Neural2-A',
+    description: 'Google · Spanish (Spain) · female',
+    voice: { provider: 'google', voiceId: 'es-ES-Neural2-A', language: 'es-ES' },
+  },
+];
+
+export const VOICE_SETTINGS_CONFIG = {
+  stability: { min: 0, max: 1, step: 0.05, default: 0.5 },
+  similarityBoost: { min: 0, max: 1, step: 0.05, default: 0.75 },
+  style: { min: 0, max: 1, step: 0.05, default: 0 }, // above ~0.5 gets unstable
+  speed: { min: 0.7, max: 1.2, step: 0.05, default: 1 }, // range ElevenLabs accepts
+} as const;
+
+export const VOICE_CATALOG_CONFIG = {
+  route: '/api/voices',
+  cacheDuration: 30 * 60 * 1000, // 30 minutes, like the presenter list
+  pageSize: 24, // cards rendered before "Show more"
+} as const;
+
+export const VOICE_AUDITION_CONFIG = {
+  route: '/api/voices/audition',
+  sampleText: 'Hola, soy tu asistente. ¿En qué puedo ayudarte hoy?',
+  maxTextLength: 300, // characters synthesized per audition
+  rateLimit: 10, // auditions per browser session per window
+  rateLimitWindow: 60000, // 1 minute
+} as const;
+
+export const AUDIO_SCRIPT_CONFIG = {
+  acceptedTypes: ['audio/mpeg', 'audio/wav', 'audio/x-wav', 'audio/mp4', 'audio/x-m4a', 'audio/ogg', 'audio/webm'],
+  typeLabel: 'MP3, WAV, M4A, OGG, WebM',
+  maxSize: 10 * 1024 * 1024, // same limit as /api/upload
+  maxRecordingDuration: 120000, // 2 minutes
+} as const;
+
+export const SSML_CONFIG = {
+  maxBreakMs: 5000, // longest <break> the TTS providers accept
+  defaultBreakMs: 500, // pause inserted by the editor toolbar
+  minRatePercent: 50, // <prosody rate="50%">
+  maxRatePercent: 200,
+} as const;
+
 export const SYSTEM_PROMPT = 'You are a helpful Spanish assistant that can answer questions and help with tasks.';
 
 export const ERROR_MESSAGES = {
@@ -44,6 +232,7 @@ export const ERROR_MESSAGES = {
   WEBSOCKET_NOT_OPEN: 'WebSocket is not open. Cannot send message.',
   ANIMATION_FAILED: 'Failed to create animation. Please try again.',
   UPLOAD_FAILED: 'Failed to upload file. Please try again.',
+  RECONNECT_FAILED: 'Lost connection to the streaming service. Please reconnect.',
 } as const;
 
 export const ANIMATION_CONFIG = {
@@ -52,4 +241,51 @@ export const ANIMATION_CONFIG = {
   maxPollingRetries: 60, // 2 minutes max
   supportedImageTypes: ['image/jpeg', 'image/png', 'image/webp'],
   supportedVideoTypes: ['video/mp4', 'video/quicktime', 'video/webm'],
+} as const;
+
+export const VIRTUAL_BACKGROUND_CONFIG = {
+  maxPixelRatio: 2, // cap the compositor canvas on high-DPI screens
+  similarity: { min: 0, max: 1, step: 0.01 },
+  smoothness: { min: 0, max: 0.5, step: 0.01 },
+  spill: { min: 0, max: 0.5, step: 0.01 },
+  lumaThreshold: { min: 0, max: 1, step: 0.01 },
+  feather: { min: 0, max: 8, step: 0.5 },
+  colorPresets: ['#0c0a09', '#1c1917', '#f5f5f4', '#1e3a5f', '#14532d'],
+} as const;
+
+export const DEFAULT_VIRTUAL_BACKGROUND: VirtualBackgroundSettings = {
+  mode: 'off',
+  keyColor: '#00ff00',
+  similarity: 0.4,
+  smoothness: 0.08,
+  spill: 0.1,
+  lumaThreshold: 0.12,
+  lumaKey: 'dark',
+  feather: 1,
+  background: { type: 'color', color: '#1c1917' },
+};
+
+export const CAPTION_CONFIG = {
+  maxLineLength: 42, // characters, the usual broadcast limit
+  maxLines: 2, // lines shown at once; longer sentences are paged
+  msPerCharacter: 65, // speaking-rate estimate used to page a sentence while it is spoken
+  maxCues: 1000, // cues kept for export
+  tickInterval: 250, // how often the live caption is re-paged
+} as const;
+
+export const DEFAULT_CAPTION_SETTINGS: CaptionSettings = {
+  enabled: false,
+  size: 'medium',
+  position: 'bottom',
+  contrast: 'standard',
+};
+
+export const RECORDING_CONFIG = {
+  width: 1280,
+  height: 720,
+  frameRate: 30,
+  videoBitsPerSecond: 4000000, // 4 Mbps
+  timeslice: 1000, // flush a chunk every second so a crash loses little
+  includeMicrophone: true, // mix the user's push-to-talk audio into the recording
+  mimeTypes: ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'],
 } as const;
\ No newline at end of file
@@ -1,21 +1,68 @@
-import { ApiConfig } from '@/types/api';
+import { ApiConfig, IceConfig, ServerSecrets } from '@/types/api';
+import { validateIceServer } from '@/lib/services/signalingProtocol';
+import { PREWARM_CONFIG } from '@/lib/utils/constants';
+
+// Env var names reported when a server secret is missing
+const SERVER_SECRET_NAMES: Record<keyof ServerSecrets, string> = {
+  didApiKey: 'DID_API_KEY',
+  didWebsocketUrl: 'DID_WEBSOCKET_URL',
+  elevenlabsApiKey: 'ELEVENLABS_API_KEY',
+  openaiApiKey: 'OPENAI_API_KEY',
+  deepgramApiKey: 'DEEPGRAM_API_KEY',
+  browserSessionSecret: 'BROWSER_SESSION_SECRET',
+};
+
+// Public variables older setups gave the server routes; still read while the
+// browser holds the same key anyway (direct signaling / direct API mode)
+const LEGACY_PUBLIC_NAMES: Partial<Record<keyof ServerSecrets, string>> = {
+  didApiKey: 'NEXT_PUBLIC_DID_API_KEY',
+  didWebsocketUrl: 'NEXT_PUBLIC_DID_WEBSOCKET_URL',
+  elevenlabsApiKey: 'NEXT_PUBLIC_ELEVENLABS_API_KEY',
+  openaiApiKey: 'NEXT_PUBLIC_OPENAI_API_KEY',
+  deepgramApiKey: 'NEXT_PUBLIC_DEEPGRAM_API_KEY',
+};
 
 /**
- * Validates and returns environment configuration
+ * Validates and returns the public (browser-safe) configuration
  */
 export function getApiConfig(): ApiConfig {
+  const didSignalingMode = process.env.NEXT_PUBLIC_DID_SIGNALING_MODE === 'relay' ? 'relay' : 'direct';
+  const apiMode = process.env.NEXT_PUBLIC_API_MODE === 'proxy' ? 'proxy' : 'direct';
+  const prewarmMode = process.env.NEXT_PUBLIC_DID_PREWARM;
+
+  const isRelay = didSignalingMode === 'relay';
+  const isProxy = apiMode === 'proxy';
+
+  // Keys for vendors reached through the server are never read from public variables
   const config: ApiConfig = {
-    didApiKey: process.env.NEXT_PUBLIC_DID_API_KEY || '',
+    didApiKey: isRelay ? '' : process.env.NEXT_PUBLIC_DID_API_KEY || '',
     didWebsocketUrl: process.env.NEXT_PUBLIC_DID_WEBSOCKET_URL || 'wss://api.d-id.com',
+    didSignalingMode,
+    didRelayUrl: process.env.NEXT_PUBLIC_DID_RELAY_URL || '/api/did/relay',
     didService: process.env.NEXT_PUBLIC_DID_SERVICE as 'talks' | 'clips' | undefined, // Optional - managed by PresenterContext
-    openaiApiKey: process.env.NEXT_PUBLIC_OPENAI_API_KEY || '',
-    deepgramApiKey: process.env.NEXT_PUBLIC_DEEPGRAM_API_KEY || '',
-    elevenlabsApiKey: process.env.NEXT_PUBLIC_ELEVENLABS_API_KEY || '',
+    apiMode,
+    openaiApiKey: isProxy ? '' : process.env.NEXT_PUBLIC_OPENAI_API_KEY || '',
+    deepgramApiKey: isProxy ? '' : process.env.NEXT_PUBLIC_DEEPGRAM_API_KEY || '',
+    elevenlabsApiKey: isRelay ? '' : process.env.NEXT_PUBLIC_ELEVENLABS_API_KEY || '',
+    ice: getIceConfig(),
+    didPrewarm: {
+      mode: prewarmMode === 'select' || prewarmMode === 'load' ? prewarmMode : 'off',
+      idleTimeout: Number(process.env.NEXT_PUBLIC_DID_PREWARM_IDLE_TIMEOUT) || PREWARM_CONFIG.idleTimeout,
+    },
   };
 
-  // Filter out didService from required keys since it's now optional
+  // didService is managed by PresenterContext; keys are only required for
+  // vendors the browser still calls directly
+  const optionalKeys: string[] = ['didService'];
+  if (isRelay) {
+    optionalKeys.push('didApiKey', 'elevenlabsApiKey');
+  }
+  if (isProxy) {
+    optionalKeys.push('openaiApiKey', 'deepgramApiKey');
+  }
+
   const missingKeys = Object.entries(config)
-    .filter(([key, value]) => key !== 'didService' && !value)
+    .filter(([key, value]) => !optionalKeys.includes(key) && !value)
     .map(([key]) => key);
 
   if (missingKeys.length > 0) {
@@ -23,4 +70,84 @@ export function getApiConfig(): ApiConfig {
   }
 
   return config;
+}
+
+/**
+ * Reads the ICE transport policy and extra ICE servers, e.g. for relay-only
+ * corporate networks. NEXT_PUBLIC_ICE_SERVERS is a JSON array of RTCIceServer.
+ */
+function getIceConfig(): IceConfig {
+  const transportPolicy = process.env.NEXT_PUBLIC_ICE_TRANSPORT_POLICY === 'relay' ? 'relay' : 'all';
+  const serverMode = process.env.NEXT_PUBLIC_ICE_SERVERS_MODE === 'replace' ? 'replace' : 'append';
+
+  let servers: unknown;
+  try {
+    servers = JSON.parse(process.env.NEXT_PUBLIC_ICE_SERVERS || '[]');
+  } catch {
+    throw new Error('NEXT_PUBLIC_ICE_SERVERS must be a JSON array of ICE servers');
+  }
+  if (!Array.isArray(servers)) {
+    throw new Error('NEXT_PUBLIC_ICE_SERVERS must be a JSON array of ICE servers');
+  }
+
+  for (const server of servers) {
+    const reason = validateIceServer(server);
+    if (reason) throw new Error(`Invalid NEXT_PUBLIC_ICE_SERVERS: ${reason}`);
+  }
+
+  if (serverMode === 'replace' && servers.length === 0) {
+    throw new Error('NEXT_PUBLIC_ICE_SERVERS_MODE=replace requires NEXT_PUBLIC_ICE_SERVERS');
+  }
+
+  return { transportPolicy, servers: servers as RTCIceServer[], serverMode };
+}
+
+/**
+ * Returns secrets that must only ever be read on the server
+ * @param required secrets the caller cannot work without
+ */
+export function getServerSecrets(...required: (keyof ServerSecrets)[]): ServerSecrets {
+  if (typeof window !== 'undefined') {
+    throw new Error('Server secrets are not available in the browser');
+  }
+
+  const isRelay = process.env.NEXT_PUBLIC_DID_SIGNALING_MODE === 'relay';
+  const isProxy = process.env.NEXT_PUBLIC_API_MODE === 'proxy';
+  const isPublic: Record<keyof ServerSecrets, boolean> = {
+    didApiKey: !isRelay,
+    didWebsocketUrl: !isRelay,
+    elevenlabsApiKey: !isRelay,
+    openaiApiKey: !isProxy,
+    deepgramApiKey: !isProxy,
+    browserSessionSecret: false,
+  };
+
+  const read = (key: keyof ServerSecrets): string => {
+    const legacyName = LEGACY_PUBLIC_NAMES[key];
+    const legacy = legacyName && isPublic[key] ? process.env[legacyName] : undefined;
+    return process.env[SERVER_SECRET_NAMES[key]] || legacy || '';
+  };
+
+  const secrets: ServerSecrets = {
+    didApiKey: read('didApiKey'),
+    didWebsocketUrl: read('didWebsocketUrl') || 'wss://api.d-id.com',
+    elevenlabsApiKey: read('elevenlabsApiKey'),
+    openaiApiKey: read('openaiApiKey'),
+    deepgramApiKey: read('deepgramApiKey'),
+    browserSessionSecret: read('browserSessionSecret'),
+  };
+
+  const missing = required.filter(key => !secrets[key]);
+  if (missing.length > 0) {
+    // Point setups that only have the old public variable at the rename
+    const descriptions = missing.map((key) => {
+      const legacyName = LEGACY_PUBLIC_NAMES[key];
+      return legacyName && process.env[legacyName]
+        ? `${SERVER_SECRET_NAMES[key]} (${legacyName} is not read on the server in relay/proxy mode; rename it)`
+        : SERVER_SECRET_NAMES[key];
+    });
+    throw new Error(`Missing required environment variables: ${descriptions.join(', ')}`);
+  }
+
+  return secrets;
 }
\ No newline at end of file
@@ -0,0 +1,40 @@
+// Server-only: fixed-window request counters, per server process.
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+// Kept on globalThis so every route bundle (and dev hot reloads) share one registry
+const globalForRateLimit = globalThis as unknown as { rateLimitWindows?: Map<string, Window> };
+
+function windows(): Map<string, Window> {
+  if (!globalForRateLimit.rateLimitWindows) {
+    globalForRateLimit.rateLimitWindows = new Map();
+  }
+  return globalForRateLimit.rateLimitWindows;
+}
+
+/**
+ * Counts one request for the key and reports whether it is over the limit
+ * @param key - e.g. route name plus browser session id
+ * @param windowMs - length of the window the limit applies to
+ */
+export function isRateLimited(key: string, limit: number, windowMs: number): boolean {
+  const now = Date.now();
+  const registry = windows();
+
+  // Drop finished windows so keys from old sessions don't pile up
+  registry.forEach((window, windowKey) => {
+    if (window.resetAt <= now) registry.delete(windowKey);
+  });
+
+  const window = registry.get(key);
+  if (!window) {
+    registry.set(key, { count: 1, resetAt: now + windowMs });
+    return false;
+  }
+
+  window.count++;
+  return window.count > limit;
+}
\ No newline at end of file
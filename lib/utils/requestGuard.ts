@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyBrowserSession } from '@/lib/utils/browserSession';
+import { BROWSER_SESSION_CONFIG } from '@/lib/utils/constants';
+import { getServerSecrets } from '@/lib/utils/env';
+
+// Server-only: gates the routes that spend the server's vendor keys.
+
+/**
+ * Only pages served by this app may call the guarded routes; a missing, opaque
+ * ("null") or unparsable Origin is treated as foreign
+ */
+function isSameOrigin(request: NextRequest): boolean {
+  const origin = request.headers.get('origin');
+  if (!origin) return false;
+
+  try {
+    return new URL(origin).host === request.headers.get('host');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks that a request comes from this app's pages and carries the signed
+ * browser session the middleware issues with the page
+ * @returns the browser session id, or the error response to send instead
+ */
+export async function requireBrowserSession(request: NextRequest): Promise<string | NextResponse> {
+  if (!isSameOrigin(request)) {
+    return NextResponse.json(
+      { error: 'Cross-origin requests are not allowed' },
+      { status: 403 }
+    );
+  }
+
+  let secret: string;
+  try {
+    secret = getServerSecrets('browserSessionSecret').browserSessionSecret;
+  } catch (error) {
+    console.error('Browser sessions are not configured:', error);
+    return NextResponse.json(
+      { error: 'Browser sessions are not configured' },
+      { status: 500 }
+    );
+  }
+
+  const browserSessionId = await verifyBrowserSession(
+    request.cookies.get(BROWSER_SESSION_CONFIG.cookieName)?.value,
+    secret
+  );
+  if (!browserSessionId) {
+    return NextResponse.json(
+      { error: 'Browser session required; reload the page' },
+      { status: 401 }
+    );
+  }
+
+  return browserSessionId;
+}
\ No newline at end of file
@@ -0,0 +1,96 @@
+import { SEGMENTER_CONFIG } from '@/lib/utils/constants';
+
+// Sentence end: terminal punctuation (plus closing quotes/brackets) followed by whitespace
+const SENTENCE_BOUNDARY = /[.!?…]+["'”’)\]]*\s+|\n+/g;
+// Clause end: used only when a sentence runs past maxChunkLength
+const CLAUSE_BOUNDARY = /[,;:—]\s+/g;
+
+/**
+ * Splits a stream of LLM tokens into speakable sentence/clause chunks
+ */
+export class SentenceSegmenter {
+  private buffer = '';
+  private readonly minChunkLength: number;
+  private readonly maxChunkLength: number;
+
+  constructor(
+    minChunkLength: number = SEGMENTER_CONFIG.minChunkLength,
+    maxChunkLength: number = SEGMENTER_CONFIG.maxChunkLength
+  ) {
+    this.minChunkLength = minChunkLength;
+    this.maxChunkLength = maxChunkLength;
+  }
+
+  /**
+   * Adds a token and returns any chunks that are now complete
+   */
+  push(token: string): string[] {
+    this.buffer += token;
+    const chunks: string[] = [];
+
+    let chunk = this.takeSentence();
+    while (chunk !== null) {
+      chunks.push(chunk);
+      chunk = this.takeSentence();
+    }
+
+    if (this.buffer.length >= this.maxChunkLength) {
+      const clause = this.takeClause();
+      if (clause) chunks.push(clause);
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Returns whatever is left once the token stream has ended
+   */
+  flush(): string | null {
+    const rest = this.buffer.trim();
+    this.buffer = '';
+    return rest || null;
+  }
+
+  /**
+   * Removes the first sentence long enough to be worth speaking on its own
+   */
+  private takeSentence(): string | null {
+    SENTENCE_BOUNDARY.lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = SENTENCE_BOUNDARY.exec(this.buffer)) !== null) {
+      const end = match.index + match[0].length;
+      const candidate = this.buffer.slice(0, end).trim();
+
+      if (candidate.length >= this.minChunkLength) {
+        this.buffer = this.buffer.slice(end);
+        return candidate;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Cuts an over-long sentence at its last clause break (or last space)
+   */
+  private takeClause(): string | null {
+    CLAUSE_BOUNDARY.lastIndex = 0;
+    let end = -1;
+    let match: RegExpExecArray | null;
+
+    while ((match = CLAUSE_BOUNDARY.exec(this.buffer)) !== null) {
+      end = match.index + match[0].length;
+    }
+
+    if (end === -1) {
+      end = this.buffer.lastIndexOf(' ') + 1;
+    }
+
+    const candidate = this.buffer.slice(0, end).trim();
+    if (!candidate) return null;
+
+    this.buffer = this.buffer.slice(end);
+    return candidate;
+  }
+}
\ No newline at end of file
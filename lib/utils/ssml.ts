@@ -0,0 +1,273 @@
+import { SSML_CONFIG } from '@/lib/utils/constants';
+
+export type EmphasisLevel = 'strong' | 'moderate' | 'reduced';
+export type SayAsType = 'date' | 'time' | 'cardinal' | 'ordinal' | 'digits' | 'characters' | 'telephone';
+export type PhonemeAlphabet = 'ipa' | 'x-sampa';
+
+export interface ProsodyOptions {
+  rate?: string; // 'slow', 'fast', ... or a percentage such as '80%'
+  pitch?: string; // 'low', 'high', ... or a relative change such as '+10%' or '-2st'
+}
+
+const EMPHASIS_LEVELS: EmphasisLevel[] = ['strong', 'moderate', 'reduced'];
+const SAY_AS_TYPES: SayAsType[] = ['date', 'time', 'cardinal', 'ordinal', 'digits', 'characters', 'telephone'];
+const PHONEME_ALPHABETS: PhonemeAlphabet[] = ['ipa', 'x-sampa'];
+const RATE_KEYWORDS = ['x-slow', 'slow', 'medium', 'fast', 'x-fast', 'default'];
+const PITCH_KEYWORDS = ['x-low', 'low', 'medium', 'high', 'x-high', 'default'];
+const BREAK_STRENGTHS = ['none', 'x-weak', 'weak', 'medium', 'strong', 'x-strong'];
+
+// Tags a script may use; anything else that looks like markup is escaped and spoken literally
+const ALLOWED_TAGS = ['speak', 'break', 'emphasis', 'prosody', 'say-as', 'phoneme'];
+const TAG_PATTERN = /<(\/?)([a-zA-Z][\w-]*)((?:\s+[\w-]+\s*=\s*"[^"<>]*")*)\s*(\/?)>/g;
+const ATTRIBUTE_PATTERN = /([\w-]+)\s*=\s*"([^"]*)"/g;
+const ENTITY_PATTERN = /&(?:amp|lt|gt|quot|apos|#\d+|#x[0-9a-fA-F]+);/y;
+
+/**
+ * Escapes text so it is spoken literally inside an SSML script
+ */
+export function escapeSsml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Builds an opening (or self-closing) tag with escaped attribute values
+ */
+export function ssmlTag(name: string, attributes: Record<string, string | undefined> = {}, selfClosing = false): string {
+  const attrs = Object.entries(attributes)
+    .filter((entry): entry is [string, string] => entry[1] !== undefined)
+    .map(([key, value]) => ` ${key}="${escapeSsml(value)}"`)
+    .join('');
+  return `<${name}${attrs}${selfClosing ? ' /' : ''}>`;
+}
+
+/**
+ * Fluent builder for SSML scripts; all text passed in is escaped
+ */
+export class SsmlBuilder {
+  private parts: string[] = [];
+
+  /**
+   * Plain text
+   */
+  text(text: string): this {
+    this.parts.push(escapeSsml(text));
+    return this;
+  }
+
+  /**
+   * A pause, in milliseconds
+   */
+  pause(ms: number): this {
+    if (!Number.isFinite(ms) || ms < 0 || ms > SSML_CONFIG.maxBreakMs) {
+      throw new Error(`Pause must be between 0 and ${SSML_CONFIG.maxBreakMs}ms`);
+    }
+    this.parts.push(ssmlTag('break', { time: `${Math.round(ms)}ms` }, true));
+    return this;
+  }
+
+  /**
+   * Stressed (or de-stressed) text
+   */
+  emphasis(text: string, level: EmphasisLevel = 'moderate'): this {
+    this.parts.push(`${ssmlTag('emphasis', { level })}${escapeSsml(text)}</emphasis>`);
+    return this;
+  }
+
+  /**
+   * Text spoken at a different rate and/or pitch
+   */
+  prosody(text: string, options: ProsodyOptions): this {
+    const errors = [
+      ...(options.rate !== undefined ? validateRate(options.rate) : []),
+      ...(options.pitch !== undefined ? validatePitch(options.pitch) : []),
+    ];
+    if (errors.length > 0) throw new Error(errors.join(', '));
+
+    this.parts.push(`${ssmlTag('prosody', { rate: options.rate, pitch: options.pitch })}${escapeSsml(text)}</prosody>`);
+    return this;
+  }
+
+  /**
+   * Text read as a date, number, etc. rather than as words
+   * @param format - e.g. 'dmy' for dates
+   */
+  sayAs(text: string, interpretAs: SayAsType, format?: string): this {
+    this.parts.push(`${ssmlTag('say-as', { 'interpret-as': interpretAs, format })}${escapeSsml(text)}</say-as>`);
+    return this;
+  }
+
+  /**
+   * Text with an explicit pronunciation
+   */
+  phoneme(text: string, ph: string, alphabet: PhonemeAlphabet = 'ipa'): this {
+    if (!ph.trim()) throw new Error('Phoneme pronunciation is required');
+    this.parts.push(`${ssmlTag('phoneme', { alphabet, ph })}${escapeSsml(text)}</phoneme>`);
+    return this;
+  }
+
+  /**
+   * The script, without a <speak> wrapper (D-ID adds its own)
+   */
+  build(): string {
+    return this.parts.join('');
+  }
+}
+
+/**
+ * Turns hand-written SSML into a safe script: supported tags are kept as typed
+ * (with a stray '&' in attribute values escaped), everything else (stray '<',
+ * '&', unknown tags) is escaped and spoken literally
+ */
+export function sanitizeSsmlInput(raw: string): string {
+  let result = '';
+  let lastIndex = 0;
+
+  for (const match of raw.matchAll(TAG_PATTERN)) {
+    if (!ALLOWED_TAGS.includes(match[2].toLowerCase())) continue;
+    result += escapeText(raw.slice(lastIndex, match.index));
+    result += match[0].replace(ATTRIBUTE_PATTERN, (_, key, value) => `${key}="${escapeText(value)}"`);
+    lastIndex = match.index + match[0].length;
+  }
+
+  return result + escapeText(raw.slice(lastIndex));
+}
+
+/**
+ * Checks tag nesting and attribute values of a sanitized script
+ * @returns one message per problem; empty when the script is valid
+ */
+export function validateSsml(script: string): string[] {
+  const errors: string[] = [];
+  const open: string[] = [];
+
+  for (const match of script.matchAll(TAG_PATTERN)) {
+    const [, closing, rawName, rawAttributes, selfClosing] = match;
+    const name = rawName.toLowerCase();
+    if (!ALLOWED_TAGS.includes(name)) continue;
+
+    if (closing) {
+      const expected = open.pop();
+      if (expected !== name) {
+        errors.push(expected ? `</${name}> closes <${expected}>` : `</${name}> has no opening tag`);
+        if (expected) open.push(expected);
+      }
+      continue;
+    }
+
+    const attributes = Object.fromEntries(
+      Array.from(rawAttributes.matchAll(ATTRIBUTE_PATTERN), ([, key, value]) => [key.toLowerCase(), value])
+    );
+    for (const [key, value] of Object.entries(attributes)) {
+      if (escapeText(value) !== value) errors.push(`<${name} ${key}> contains an unescaped '&'`);
+    }
+    errors.push(...validateTag(name, attributes, !!selfClosing));
+
+    if (!selfClosing && name !== 'break') open.push(name);
+  }
+
+  errors.push(...open.reverse().map(name => `<${name}> is never closed`));
+  return errors;
+}
+
+/**
+ * The words a script will speak, with markup removed
+ */
+export function stripSsml(script: string): string {
+  return script
+    .replace(TAG_PATTERN, match => (/^<break\b/i.test(match) ? ' ' : ''))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Escapes text between tags, leaving entities the user already typed alone
+ */
+function escapeText(text: string): string {
+  let result = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '&') {
+      ENTITY_PATTERN.lastIndex = i;
+      result += ENTITY_PATTERN.test(text) ? '&' : '&amp;';
+    } else if (char === '<') {
+      result += '&lt;';
+    } else if (char === '>') {
+      result += '&gt;';
+    } else {
+      result += char;
+    }
+  }
+  return result;
+}
+
+function validateTag(name: string, attributes: Record<string, string>, selfClosing: boolean): string[] {
+  switch (name) {
+    case 'break': {
+      const { time, strength } = attributes;
+      if (time !== undefined) {
+        const match = /^(\d+(?:\.\d+)?)(ms|s)$/.exec(time);
+        const ms = match ? Number(match[1]) * (match[2] === 's' ? 1000 : 1) : NaN;
+        if (!(ms >= 0 && ms <= SSML_CONFIG.maxBreakMs)) {
+          return [`<break time="${time}"> must be between 0ms and ${SSML_CONFIG.maxBreakMs}ms`];
+        }
+      } else if (strength === undefined || !BREAK_STRENGTHS.includes(strength)) {
+        return ['<break> needs a time (e.g. "500ms") or a strength'];
+      }
+      return [];
+    }
+    case 'emphasis':
+      return attributes.level === undefined || EMPHASIS_LEVELS.includes(attributes.level as EmphasisLevel)
+        ? []
+        : [`<emphasis level="${attributes.level}"> must be one of ${EMPHASIS_LEVELS.join(', ')}`];
+    case 'prosody': {
+      const errors = [
+        ...(attributes.rate !== undefined ? validateRate(attributes.rate) : []),
+        ...(attributes.pitch !== undefined ? validatePitch(attributes.pitch) : []),
+      ];
+      if (attributes.rate === undefined && attributes.pitch === undefined) {
+        errors.push('<prosody> needs a rate or pitch');
+      }
+      return errors;
+    }
+    case 'say-as':
+      return SAY_AS_TYPES.includes(attributes['interpret-as'] as SayAsType)
+        ? []
+        : [`<say-as interpret-as> must be one of ${SAY_AS_TYPES.join(', ')}`];
+    case 'phoneme': {
+      const errors: string[] = [];
+      if (!attributes.ph) errors.push('<phoneme> needs a ph pronunciation');
+      if (attributes.alphabet !== undefined && !PHONEME_ALPHABETS.includes(attributes.alphabet as PhonemeAlphabet)) {
+        errors.push(`<phoneme alphabet> must be one of ${PHONEME_ALPHABETS.join(', ')}`);
+      }
+      if (selfClosing) errors.push('<phoneme> must wrap the word it pronounces');
+      return errors;
+    }
+    default:
+      return [];
+  }
+}
+
+function validateRate(rate: string): string[] {
+  if (RATE_KEYWORDS.includes(rate)) return [];
+
+  const percent = /^(\d+(?:\.\d+)?)%$/.exec(rate);
+  if (percent && Number(percent[1]) >= SSML_CONFIG.minRatePercent && Number(percent[1]) <= SSML_CONFIG.maxRatePercent) {
+    return [];
+  }
+  return [`Rate "${rate}" must be a keyword or ${SSML_CONFIG.minRatePercent}%-${SSML_CONFIG.maxRatePercent}%`];
+}
+
+function validatePitch(pitch: string): string[] {
+  if (PITCH_KEYWORDS.includes(pitch) || /^[+-]\d+(?:\.\d+)?(%|st|Hz)$/.test(pitch)) return [];
+  return [`Pitch "${pitch}" must be a keyword or a relative change such as +10% or -2st`];
+}
\ No newline at end of file
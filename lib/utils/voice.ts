@@ -0,0 +1,181 @@
+import { PresenterConfig, StreamTextProvider, VoiceConfig, VoiceSettings, ElevenLabsVoice, CatalogVoice, VoiceGender } from '@/types/did';
+import { VOICE_SETTINGS_CONFIG } from '@/lib/utils/constants';
+
+// ElevenLabs accent labels that don't read well once title-cased
+const ACCENT_ALIASES: Record<string, string> = {
+  us: 'American',
+  'en-us': 'American',
+  uk: 'British',
+  'en-gb': 'British',
+};
+
+/**
+ * Identifies the presenter a voice choice belongs to
+ */
+export function getPresenterKey(serviceType: 'talks' | 'clips', presenterConfig: PresenterConfig): string {
+  return serviceType === 'clips'
+    ? `clips:${presenterConfig.clips.presenter_id}`
+    : `talks:${presenterConfig.talks.source_url}`;
+}
+
+/**
+ * Builds the stream-text provider block, sending only the fields the provider understands
+ * @param settings - per-message overrides layered on top of the voice's own settings
+ */
+export function toStreamProvider(voice: VoiceConfig, settings?: VoiceSettings): StreamTextProvider {
+  const provider: StreamTextProvider = {
+    type: voice.provider,
+    voice_id: voice.voiceId,
+  };
+
+  if (voice.provider === 'elevenlabs' && voice.modelId) {
+    provider.model_id = voice.modelId;
+  }
+
+  const voiceConfig: NonNullable<StreamTextProvider['voice_config']> = {};
+  if (voice.provider === 'microsoft' && voice.style) voiceConfig.style = voice.style;
+  if (voice.language) voiceConfig.language = voice.language;
+
+  if (voice.provider === 'elevenlabs') {
+    const merged = { ...voice.settings, ...settings };
+    if (merged.stability !== undefined) voiceConfig.stability = merged.stability;
+    if (merged.similarityBoost !== undefined) voiceConfig.similarity_boost = merged.similarityBoost;
+    if (merged.style !== undefined) voiceConfig.style = merged.style;
+    if (merged.speed !== undefined) voiceConfig.speed = merged.speed;
+    if (merged.useSpeakerBoost !== undefined) voiceConfig.use_speaker_boost = merged.useSpeakerBoost;
+  }
+
+  if (Object.keys(voiceConfig).length > 0) {
+    provider.voice_config = voiceConfig;
+  }
+
+  return provider;
+}
+
+/**
+ * Checks voice settings against VOICE_SETTINGS_CONFIG
+ * @returns one message per invalid setting; empty when all are valid
+ */
+export function validateVoiceSettings(settings: VoiceSettings): string[] {
+  const errors: string[] = [];
+
+  for (const key of Object.keys(VOICE_SETTINGS_CONFIG) as (keyof typeof VOICE_SETTINGS_CONFIG)[]) {
+    const value = settings[key];
+    if (value === undefined) continue;
+
+    const { min, max } = VOICE_SETTINGS_CONFIG[key];
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+      errors.push(`${key} must be between ${min} and ${max}`);
+    }
+  }
+
+  if (settings.useSpeakerBoost !== undefined && typeof settings.useSpeakerBoost !== 'boolean') {
+    errors.push('useSpeakerBoost must be true or false');
+  }
+
+  return errors;
+}
+
+/**
+ * Whether D-ID needs our own provider key to voice this message.
+ * Clips presenters use D-ID's ElevenLabs integration; the other providers are billed by D-ID.
+ */
+export function requiresExternalKey(voice: VoiceConfig, presenterType: 'talk' | 'clip'): boolean {
+  return voice.provider === 'elevenlabs' && presenterType === 'talk';
+}
+
+/**
+ * Human-readable provider name
+ */
+export function getProviderLabel(provider: VoiceConfig['provider']): string {
+  switch (provider) {
+    case 'elevenlabs':
+      return 'ElevenLabs';
+    case 'microsoft':
+      return 'Microsoft';
+    case 'amazon':
+      return 'Amazon Polly';
+    case 'google':
+      return 'Google';
+  }
+}
+
+/**
+ * Whether two voice configs pick the same voice; tuning settings are ignored
+ */
+export function isSameVoice(a: VoiceConfig, b: VoiceConfig): boolean {
+  return a.provider === b.provider
+    && a.voiceId === b.voiceId
+    && (a.modelId ?? '') === (b.modelId ?? '')
+    && (a.language ?? '') === (b.language ?? '')
+    && (a.style ?? '') === (b.style ?? '');
+}
+
+/**
+ * Maps ElevenLabs' free-form voice labels onto consistent filter values
+ */
+export function normalizeCatalogVoice(voice: ElevenLabsVoice): CatalogVoice {
+  const labels = Object.fromEntries(
+    Object.entries(voice.labels ?? {}).map(([key, value]) => [key.toLowerCase(), String(value).trim()])
+  );
+
+  const languages = [
+    labels.language,
+    ...(voice.verified_languages ?? []).map(entry => entry.language),
+  ]
+    .filter((code): code is string => !!code)
+    .map(code => code.toLowerCase().split(/[-_]/)[0]);
+
+  return {
+    voiceId: voice.voice_id,
+    name: voice.name,
+    category: voice.category || 'premade',
+    gender: normalizeGender(labels.gender),
+    accent: normalizeAccent(labels.accent),
+    age: labels.age ? labels.age.toLowerCase().replace(/[-_]/g, ' ') : null,
+    languages: Array.from(new Set(languages)),
+    description: voice.description || labels.description || null,
+    previewUrl: voice.preview_url || voice.verified_languages?.find(entry => entry.preview_url)?.preview_url || null,
+  };
+}
+
+function normalizeGender(gender: string | undefined): VoiceGender {
+  switch (gender?.toLowerCase()) {
+    case 'female':
+    case 'woman':
+      return 'female';
+    case 'male':
+    case 'man':
+      return 'male';
+    case 'neutral':
+    case 'non-binary':
+    case 'nonbinary':
+      return 'neutral';
+    default:
+      return 'unknown';
+  }
+}
+
+function normalizeAccent(accent: string | undefined): string | null {
+  if (!accent) return null;
+
+  const key = accent.toLowerCase();
+  if (ACCENT_ALIASES[key]) return ACCENT_ALIASES[key];
+
+  return key
+    .split(/[\s_-]+/)
+    .filter(Boolean)
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * English display name for an ISO 639-1 language code
+ */
+export function getLanguageLabel(code: string): string {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) || code.toUpperCase();
+  } catch {
+    return code.toUpperCase();
+  }
+}
\ No newline at end of file
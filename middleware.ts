@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createBrowserSession, verifyBrowserSession } from '@/lib/utils/browserSession';
+import { BROWSER_SESSION_CONFIG } from '@/lib/utils/constants';
+
+/**
+ * Issues the signed browser session the D-ID relay, the OpenAI/Deepgram
+ * proxies and voice auditions require, so only browsers that loaded the app
+ * can use them
+ */
+export async function middleware(request: NextRequest) {
+  const response = NextResponse.next();
+
+  const secret = process.env.BROWSER_SESSION_SECRET;
+  if (!secret) {
+    console.error('BROWSER_SESSION_SECRET is not set; the relay, proxy and voice audition routes will reject every request');
+    return response;
+  }
+
+  const current = request.cookies.get(BROWSER_SESSION_CONFIG.cookieName)?.value;
+  if (await verifyBrowserSession(current, secret)) return response;
+
+  response.cookies.set(BROWSER_SESSION_CONFIG.cookieName, await createBrowserSession(secret, BROWSER_SESSION_CONFIG.cookieMaxAge), {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/api',
+    maxAge: BROWSER_SESSION_CONFIG.cookieMaxAge,
+  });
+
+  return response;
+}
+
+export const config = {
+  matcher: '/',
+};
\ No newline at end of file
@@ -2,6 +2,8 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   /* config options here */
+  // ws has optional native addons that break when bundled
+  serverExternalPackages: ['ws'],
   images: {
     remotePatterns: [
       {
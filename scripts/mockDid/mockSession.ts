@@ -0,0 +1,360 @@
+import crypto from 'crypto';
+import WebSocket from 'ws';
+import { RTCPeerConnection, RTCIceCandidate } from '@roamhq/wrtc';
+import { StreamMessage, WebSocketResponse } from '@/types/did';
+import { SyntheticVideo } from './syntheticVideo';
+
+export interface MockDidOptions {
+  port: number;
+  iceDelay: number; // ms to hold back server ICE candidates
+  dropAfter: number | null; // ms after the peer connects to drop the socket
+  errorOn: { type: string; occurrence: number } | null; // answer the nth message of a type with an error
+  wordsPerSecond: number; // speaking rate used to time stream/done
+  startDelay: number; // ms between stream-text and stream/started
+}
+
+type InlineFault = 'drop' | 'error' | 'stream-error' | 'kill-peer';
+
+// Put e.g. "[fault:drop]" in a message to trigger a fault mid-conversation
+const INLINE_FAULT = /\[fault:(drop|error|stream-error|kill-peer)\]/;
+
+// Audio scripts aren't downloaded, so they all "play" for this long
+const AUDIO_SCRIPT_DURATION = 3000;
+
+interface Utterance {
+  videoId: string;
+  text: string;
+  index: unknown;
+  duration?: number; // fixed playback time instead of one timed from the text
+}
+
+/**
+ * One signaling connection: answers the D-ID WebSocket protocol and serves a
+ * synthetic video stream over a real peer connection
+ */
+export class MockDidSession {
+  private readonly ws: WebSocket;
+  private readonly options: MockDidOptions;
+  private readonly streamId = `strm_${crypto.randomBytes(8).toString('hex')}`;
+  private readonly sessionId = `sess_${crypto.randomBytes(8).toString('hex')}`;
+  private readonly messageCounts = new Map<string, number>();
+  private peerConnection: RTCPeerConnection | null = null;
+  private dataChannel: RTCDataChannel | null = null;
+  private video: SyntheticVideo | null = null;
+  private messageChain: Promise<void> = Promise.resolve();
+  private utterances: Utterance[] = [];
+  private speaking: { utterance: Utterance; timeoutId: NodeJS.Timeout } | null = null;
+  private dropTimeoutId: NodeJS.Timeout | null = null;
+  private closed = false;
+
+  constructor(ws: WebSocket, options: MockDidOptions) {
+    this.ws = ws;
+    this.options = options;
+
+    // Handle messages strictly in order: ICE must not overtake the SDP answer
+    ws.on('message', (data) => {
+      this.messageChain = this.messageChain
+        .then(() => this.handleMessage(data.toString()))
+        .catch((error) => this.log('Error handling message:', error));
+    });
+
+    ws.on('close', (code) => {
+      this.log('Socket closed', code);
+      this.close();
+    });
+  }
+
+  /**
+   * Routes one client message
+   */
+  private async handleMessage(raw: string): Promise<void> {
+    const message: StreamMessage = JSON.parse(raw);
+    this.log('<-', message.type);
+
+    if (this.shouldFail(message.type)) {
+      this.sendError(`Scripted error for ${message.type}`);
+      return;
+    }
+
+    switch (message.type) {
+      case 'init-stream':
+        await this.handleInitStream();
+        break;
+      case 'sdp':
+        if (message.payload.offer) {
+          await this.handleRestartOffer(message.payload);
+        } else {
+          await this.handleAnswer(message.payload);
+        }
+        break;
+      case 'ice':
+        await this.handleRemoteCandidate(message.payload);
+        break;
+      case 'stream-text':
+        this.handleStreamText(message.payload);
+        break;
+      case 'delete-stream':
+        this.send({ messageType: 'delete-stream', status: 'success' });
+        this.closePeer();
+        break;
+      default:
+        this.sendError(`Unknown message type: ${message.type}`);
+        break;
+    }
+  }
+
+  /**
+   * Creates the peer connection and replies with D-ID's init-stream shape
+   */
+  private async handleInitStream(): Promise<void> {
+    this.closePeer();
+
+    const pc = new RTCPeerConnection({ iceServers: [] });
+    this.peerConnection = pc;
+
+    this.video = new SyntheticVideo();
+    pc.addTransceiver(this.video.track, { direction: 'sendonly' });
+
+    // Puts a data section in the offer; events go out on the client's own channel
+    pc.createDataChannel('JanusDataChannel');
+    pc.ondatachannel = (event) => this.attachDataChannel(event.channel);
+
+    pc.onicecandidate = (event) => {
+      if (!event.candidate) return;
+      const { candidate, sdpMid, sdpMLineIndex } = event.candidate;
+
+      setTimeout(() => {
+        this.send({ messageType: 'ice', payload: { candidate, sdpMid, sdpMLineIndex } });
+      }, this.options.iceDelay);
+    };
+
+    pc.onconnectionstatechange = () => {
+      this.log('Peer connection state:', pc.connectionState);
+      if (pc.connectionState === 'connected') {
+        this.video?.start();
+        this.scheduleDrop();
+      }
+    };
+
+    const offer = await pc.createOffer();
+    await pc.setLocalDescription(offer);
+
+    this.send({
+      messageType: 'init-stream',
+      id: this.streamId,
+      session_id: this.sessionId,
+      offer: { type: 'offer', sdp: offer.sdp },
+      ice_servers: [],
+      ice_restart: true, // not part of D-ID's API; lets the client try its ICE restart path
+    });
+  }
+
+  private async handleAnswer(payload: Record<string, unknown>): Promise<void> {
+    const answer = payload.answer as RTCSessionDescriptionInit | undefined;
+    if (!this.peerConnection || !answer?.sdp) {
+      this.sendError('Invalid sdp payload');
+      return;
+    }
+
+    await this.peerConnection.setRemoteDescription(answer);
+    this.send({ messageType: 'sdp', status: 'success' });
+  }
+
+  /**
+   * Answers a client's ICE restart offer, which D-ID itself may not support
+   */
+  private async handleRestartOffer(payload: Record<string, unknown>): Promise<void> {
+    const offer = payload.offer as RTCSessionDescriptionInit | undefined;
+    if (!this.peerConnection || !offer?.sdp) {
+      this.sendError('Invalid sdp payload');
+      return;
+    }
+
+    await this.peerConnection.setRemoteDescription(offer);
+    const answer = await this.peerConnection.createAnswer();
+    await this.peerConnection.setLocalDescription(answer);
+    this.send({ messageType: 'sdp', status: 'success', answer: { type: 'answer', sdp: answer.sdp } });
+  }
+
+  private async handleRemoteCandidate(payload: Record<string, unknown>): Promise<void> {
+    if (!this.peerConnection || typeof payload.candidate !== 'string') {
+      this.sendError('Invalid ice payload');
+      return;
+    }
+
+    await this.peerConnection.addIceCandidate(new RTCIceCandidate({
+      candidate: payload.candidate,
+      sdpMid: payload.sdpMid as string | undefined,
+      sdpMLineIndex: payload.sdpMLineIndex as number | undefined,
+    }));
+  }
+
+  /**
+   * Queues the text or audio to be "spoken", or runs an inline fault
+   */
+  private handleStreamText(payload: Record<string, unknown>): void {
+    const script = payload.script as { type?: string; input?: string; audio_url?: string } | undefined;
+
+    if (script?.type === 'audio') {
+      this.utterances.push({
+        videoId: `vid_${crypto.randomBytes(6).toString('hex')}`,
+        text: script.audio_url ?? '',
+        index: payload.index,
+        duration: AUDIO_SCRIPT_DURATION,
+      });
+      this.speakNext();
+      return;
+    }
+
+    const text = script?.input ?? '';
+
+    const fault = INLINE_FAULT.exec(text)?.[1] as InlineFault | undefined;
+    if (fault) {
+      this.runInlineFault(fault);
+      return;
+    }
+
+    this.utterances.push({
+      videoId: `vid_${crypto.randomBytes(6).toString('hex')}`,
+      text,
+      index: payload.index,
+    });
+    this.speakNext();
+  }
+
+  /**
+   * Plays queued utterances one at a time, timed from their word count
+   */
+  private speakNext(): void {
+    if (this.speaking || this.utterances.length === 0 || !this.dataChannel) return;
+
+    const utterance = this.utterances.shift()!;
+    const words = utterance.text.split(/\s+/).filter(Boolean).length;
+    const duration = utterance.duration ?? Math.max(800, (words / this.options.wordsPerSecond) * 1000);
+
+    const timeoutId = setTimeout(() => {
+      this.sendEvent('stream/started', utterance);
+      this.video?.setSpeaking(true);
+
+      this.speaking!.timeoutId = setTimeout(() => this.finishSpeaking(), duration);
+    }, this.options.startDelay);
+
+    this.speaking = { utterance, timeoutId };
+  }
+
+  private finishSpeaking(): void {
+    if (!this.speaking) return;
+
+    clearTimeout(this.speaking.timeoutId);
+    this.sendEvent('stream/done', this.speaking.utterance);
+    this.video?.setSpeaking(false);
+    this.speaking = null;
+    this.speakNext();
+  }
+
+  private attachDataChannel(channel: RTCDataChannel): void {
+    this.dataChannel = channel;
+
+    channel.onopen = () => {
+      this.log('Data channel open');
+      // The client may already have hung up
+      if (channel.readyState !== 'open') return;
+      channel.send('stream/ready');
+      this.speakNext();
+    };
+
+    channel.onmessage = (event) => {
+      try {
+        const message = JSON.parse(event.data);
+        if (message.type === 'stream/interrupt') {
+          this.log('Interrupt requested for', message.videoId);
+          if (this.speaking && (!message.videoId || message.videoId === this.speaking.utterance.videoId)) {
+            this.finishSpeaking();
+          }
+        }
+      } catch {
+        this.log('Ignoring data channel message:', event.data);
+      }
+    };
+  }
+
+  private runInlineFault(fault: InlineFault): void {
+    this.log('Inline fault:', fault);
+
+    switch (fault) {
+      case 'drop':
+        this.ws.terminate();
+        break;
+      case 'error':
+        this.sendError('Scripted stream-text error');
+        break;
+      case 'stream-error':
+        this.dataChannel?.send(`stream/error:${JSON.stringify({ message: 'Scripted stream error' })}`);
+        break;
+      case 'kill-peer':
+        this.closePeer();
+        break;
+    }
+  }
+
+  /**
+   * Checks whether --error-on targets this occurrence of the message type
+   */
+  private shouldFail(type: string): boolean {
+    const count = (this.messageCounts.get(type) ?? 0) + 1;
+    this.messageCounts.set(type, count);
+
+    const { errorOn } = this.options;
+    return !!errorOn && errorOn.type === type && errorOn.occurrence === count;
+  }
+
+  private scheduleDrop(): void {
+    if (this.options.dropAfter === null || this.dropTimeoutId) return;
+
+    this.dropTimeoutId = setTimeout(() => {
+      this.log(`Dropping socket after ${this.options.dropAfter}ms`);
+      this.ws.terminate();
+    }, this.options.dropAfter);
+  }
+
+  private sendEvent(event: 'stream/started' | 'stream/done', utterance: Utterance): void {
+    if (this.dataChannel?.readyState !== 'open') return;
+    this.dataChannel.send(`${event}:${JSON.stringify({ videoId: utterance.videoId, index: utterance.index })}`);
+  }
+
+  private sendError(message: string): void {
+    this.send({ messageType: 'error', error: message, payload: { error: message } });
+  }
+
+  private send(message: WebSocketResponse): void {
+    if (this.ws.readyState !== WebSocket.OPEN) return;
+    this.log('->', message.messageType);
+    this.ws.send(JSON.stringify(message));
+  }
+
+  private closePeer(): void {
+    if (this.speaking) {
+      clearTimeout(this.speaking.timeoutId);
+      this.speaking = null;
+    }
+    this.utterances = [];
+    this.dataChannel = null;
+
+    this.video?.stop();
+    this.video = null;
+    this.peerConnection?.close();
+    this.peerConnection = null;
+  }
+
+  private close(): void {
+    if (this.closed) return;
+    this.closed = true;
+
+    if (this.dropTimeoutId) clearTimeout(this.dropTimeoutId);
+    this.closePeer();
+  }
+
+  private log(...args: unknown[]): void {
+    console.log(`[${this.sessionId}]`, ...args);
+  }
+}
\ No newline at end of file
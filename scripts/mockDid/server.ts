@@ -0,0 +1,60 @@
+import { parseArgs } from 'util';
+import { WebSocketServer } from 'ws';
+import { MockDidOptions, MockDidSession } from './mockSession';
+
+/**
+ * Local stand-in for the D-ID streaming WebSocket API.
+ *
+ *   npm run mock:did -- [--port 8787] [--ice-delay 3000] [--drop-after 20000]
+ *                       [--error-on init-stream[:n]] [--words-per-second 2.5]
+ *                       [--start-delay 300]
+ *
+ * Point the app at it with NEXT_PUBLIC_DID_WEBSOCKET_URL=ws://localhost:8787
+ * (or DID_WEBSOCKET_URL in relay mode). Any API key is accepted.
+ */
+function parseOptions(): MockDidOptions {
+  const { values } = parseArgs({
+    options: {
+      'port': { type: 'string', default: '8787' },
+      'ice-delay': { type: 'string', default: '0' },
+      'drop-after': { type: 'string' },
+      'error-on': { type: 'string' },
+      'words-per-second': { type: 'string', default: '2.5' },
+      'start-delay': { type: 'string', default: '300' },
+    },
+  });
+
+  let errorOn: MockDidOptions['errorOn'] = null;
+  if (values['error-on']) {
+    const [type, occurrence = '1'] = values['error-on'].split(':');
+    errorOn = { type, occurrence: Number(occurrence) };
+  }
+
+  return {
+    port: Number(values['port']),
+    iceDelay: Number(values['ice-delay']),
+    dropAfter: values['drop-after'] !== undefined ? Number(values['drop-after']) : null,
+    errorOn,
+    wordsPerSecond: Number(values['words-per-second']),
+    startDelay: Number(values['start-delay']),
+  };
+}
+
+const options = parseOptions();
+const server = new WebSocketServer({ port: options.port });
+
+server.on('connection', (ws, request) => {
+  console.log('Client connected from', request.socket.remoteAddress);
+  new MockDidSession(ws, options);
+});
+
+server.on('listening', () => {
+  console.log(`Mock D-ID streaming server listening on ws://localhost:${options.port}`);
+  console.log('Options:', options);
+  console.log('Inline faults: stream-text containing "[fault:drop]", "[fault:error]", "[fault:stream-error]" or "[fault:kill-peer]"');
+});
+
+process.on('SIGINT', () => {
+  server.close();
+  process.exit(0);
+});
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { nonstandard } from '@roamhq/wrtc';
+
+const WIDTH = 320;
+const HEIGHT = 240;
+const FPS = 15;
+
+// Flat copper tint for the chroma planes
+const U_VALUE = 110;
+const V_VALUE = 160;
+
+/**
+ * Generates a synthetic I420 video track: a drifting gradient with a "mouth"
+ * that opens and closes while the mock presenter is speaking
+ */
+export class SyntheticVideo {
+  private readonly source = new nonstandard.RTCVideoSource();
+  private readonly frame = new Uint8Array(WIDTH * HEIGHT * 1.5);
+  private intervalId: NodeJS.Timeout | null = null;
+  private frameCount = 0;
+  private speaking = false;
+  readonly track: MediaStreamTrack;
+
+  constructor() {
+    this.track = this.source.createTrack();
+    this.frame.fill(U_VALUE, WIDTH * HEIGHT, WIDTH * HEIGHT * 1.25);
+    this.frame.fill(V_VALUE, WIDTH * HEIGHT * 1.25);
+  }
+
+  /**
+   * Starts pushing frames into the track
+   */
+  start(): void {
+    if (this.intervalId) return;
+    this.intervalId = setInterval(() => this.pushFrame(), 1000 / FPS);
+  }
+
+  /**
+   * Toggles the mouth animation
+   */
+  setSpeaking(speaking: boolean): void {
+    this.speaking = speaking;
+  }
+
+  /**
+   * Stops frame generation and ends the track
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.track.stop();
+  }
+
+  private pushFrame(): void {
+    const offset = this.frameCount * 2;
+    this.frameCount++;
+
+    // Luma: diagonal gradient drifting to the right so frozen video is obvious
+    for (let y = 0; y < HEIGHT; y++) {
+      const row = y * WIDTH;
+      for (let x = 0; x < WIDTH; x++) {
+        this.frame[row + x] = 48 + ((x + y + offset) & 0x7f);
+      }
+    }
+
+    // Mouth: a dark bar whose height follows a sine wave while speaking
+    const openness = this.speaking ? Math.abs(Math.sin(this.frameCount / 2)) : 0;
+    const mouthHeight = 4 + Math.round(openness * 28);
+    const top = Math.round(HEIGHT * 0.7 - mouthHeight / 2);
+    const left = Math.round(WIDTH * 0.35);
+    const right = Math.round(WIDTH * 0.65);
+
+    for (let y = top; y < top + mouthHeight; y++) {
+      this.frame.fill(16, y * WIDTH + left, y * WIDTH + right);
+    }
+
+    this.source.onFrame({ width: WIDTH, height: HEIGHT, data: this.frame });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatCaptions, paginateCaption } from '@/lib/utils/captions';
+import { CaptionCue } from '@/types/captions';
+
+function cue(text: string, start: number, end: number): CaptionCue {
+  return { id: `cue-${start}`, text, start, end, interrupted: false };
+}
+
+describe('paginateCaption', () => {
+  it('wraps on spaces and pages by line count', () => {
+    assert.deepEqual(paginateCaption('one two three four five', 9, 2), ['one two\nthree', 'four five']);
+  });
+
+  it('gives an over-long word its own line', () => {
+    assert.deepEqual(paginateCaption('a supercalifragilistic b', 10, 3), ['a\nsupercalifragilistic\nb']);
+  });
+
+  it('returns no pages for blank text', () => {
+    assert.deepEqual(paginateCaption('   '), []);
+  });
+});
+
+describe('formatCaptions', () => {
+  it('formats WebVTT relative to the origin and skips cues that ended before it', () => {
+    const vtt = formatCaptions([cue('Too early', 0, 500), cue('Hola', 1000, 2500)], 1000, 'vtt');
+    assert.equal(vtt, 'WEBVTT\n\n00:00:00.000 --> 00:00:01.500\nHola\n');
+  });
+
+  it('numbers SRT cues and uses a comma before milliseconds', () => {
+    const srt = formatCaptions([cue('Uno', 0, 1000), cue('Dos', 61000, 62000)], 0, 'srt');
+    assert.equal(srt, '1\n00:00:00,000 --> 00:00:01,000\nUno\n\n2\n00:01:01,000 --> 00:01:02,000\nDos\n');
+  });
+
+  it('escapes markup and timing arrows in cue text', () => {
+    const text = 'a <b> & c --> d';
+    assert.match(formatCaptions([cue(text, 0, 1000)], 0, 'vtt'), /\na &lt;b&gt; &amp; c --&gt; d\n$/);
+    assert.match(formatCaptions([cue(text, 0, 1000)], 0, 'srt'), /\na <b> & c -- > d\n$/);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ConnectionStateMachine, isConnectedPhase, isConnectingPhase } from '@/lib/services/connectionStateMachine';
+
+describe('ConnectionStateMachine', () => {
+  it('walks through a normal session and records the history', () => {
+    const machine = new ConnectionStateMachine();
+    for (const phase of ['signaling', 'negotiating', 'ready', 'speaking', 'ready', 'closing', 'closed'] as const) {
+      assert.ok(machine.transition(phase, `to ${phase}`));
+    }
+    assert.equal(machine.getPhase(), 'closed');
+    assert.deepEqual(machine.getHistory().map(({ from, to }) => `${from}->${to}`).slice(0, 2), ['idle->signaling', 'signaling->negotiating']);
+  });
+
+  it('refuses transitions the lifecycle does not allow', () => {
+    const machine = new ConnectionStateMachine();
+    assert.equal(machine.can('ready'), false);
+    assert.equal(machine.transition('ready', 'skipping negotiation'), false);
+    assert.equal(machine.getPhase(), 'idle');
+    assert.deepEqual(machine.getHistory(), []);
+  });
+
+  it('retries through reconnecting', () => {
+    const machine = new ConnectionStateMachine();
+    machine.transition('signaling', 'connect');
+    machine.transition('negotiating', 'stream created');
+    machine.transition('ready', 'peer connected');
+    assert.ok(machine.transition('reconnecting', 'socket dropped'));
+    assert.ok(machine.transition('signaling', 'retry'));
+  });
+});
+
+describe('phase helpers', () => {
+  it('tells connected from connecting phases', () => {
+    assert.deepEqual(['ready', 'speaking'].map(phase => isConnectedPhase(phase as 'ready')), [true, true]);
+    assert.equal(isConnectedPhase('reconnecting'), false);
+    assert.equal(isConnectingPhase('negotiating'), true);
+    assert.equal(isConnectingPhase('ready'), false);
+  });
+});
@@ -0,0 +1,129 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { RTCPeerConnection } from '@roamhq/wrtc';
+import { MockDidOptions, MockDidSession } from '@/scripts/mockDid/mockSession';
+import { DidClient } from '@/lib/services/didClient';
+import { DEFAULT_VOICE } from '@/lib/utils/constants';
+import { ApiConfig } from '@/types/api';
+import { ConnectionPhase, ConnectionState } from '@/types/did';
+
+// DidClient is browser code; the mock's own WebRTC stack stands in for the browser's.
+// wrtc crashes when a process that used it exits on its own, hence --test-force-exit.
+Object.assign(globalThis, { WebSocket, RTCPeerConnection });
+
+const SCENARIO_TIMEOUT = 20000;
+
+const PRESENTER = {
+  talks: { source_url: 'https://example.com/presenter.jpg' },
+  clips: { presenter_id: 'mock-presenter', driver_id: 'mock-driver' },
+};
+
+/**
+ * Starts a mock D-ID server for one scenario
+ */
+async function startMock(options: Partial<MockDidOptions>): Promise<{ url: string; close: () => Promise<void> }> {
+  const server = new WebSocketServer({ port: 0 });
+  server.on('connection', ws => new MockDidSession(ws, {
+    port: 0,
+    iceDelay: 0,
+    dropAfter: null,
+    errorOn: null,
+    wordsPerSecond: 10,
+    startDelay: 10,
+    ...options,
+  }));
+  await new Promise(resolve => server.once('listening', resolve));
+
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `ws://localhost:${port}`,
+    close: () => new Promise<void>((resolve) => {
+      server.clients.forEach(ws => ws.terminate());
+      server.close(() => resolve());
+    }),
+  };
+}
+
+function createClient(url: string): DidClient {
+  const config: ApiConfig = {
+    didApiKey: 'mock',
+    didWebsocketUrl: url,
+    didSignalingMode: 'direct',
+    didRelayUrl: '/api/did/relay',
+    apiMode: 'direct',
+    openaiApiKey: '',
+    deepgramApiKey: '',
+    elevenlabsApiKey: '',
+    ice: { transportPolicy: 'all', servers: [], serverMode: 'append' },
+    didPrewarm: { mode: 'off', idleTimeout: 0 },
+  };
+  return new DidClient(config, 'clips', PRESENTER, DEFAULT_VOICE);
+}
+
+/**
+ * Records every phase the client goes through and resolves once one matches
+ */
+function watchPhases(client: DidClient) {
+  const phases: ConnectionPhase[] = [];
+  const waiters: { matches: (state: ConnectionState) => boolean; resolve: (state: ConnectionState) => void }[] = [];
+
+  client.on('state', (state) => {
+    phases.push(state.phase);
+    waiters.filter(waiter => waiter.matches(state)).forEach(waiter => waiter.resolve(state));
+  });
+
+  return {
+    phases,
+    waitFor: (matches: (state: ConnectionState) => boolean) =>
+      new Promise<ConnectionState>(resolve => waiters.push({ matches, resolve })),
+  };
+}
+
+describe('DidClient against the mock D-ID server', { timeout: SCENARIO_TIMEOUT * 2 }, () => {
+  let originalLog: typeof console.log;
+
+  before(() => {
+    // Both sides log every signaling message
+    originalLog = console.log;
+    console.log = () => {};
+  });
+
+  after(() => {
+    console.log = originalLog;
+  });
+
+  it('fails with the server message when init-stream is answered with an error', { timeout: SCENARIO_TIMEOUT }, async () => {
+    const mock = await startMock({ errorOn: { type: 'init-stream', occurrence: 1 } });
+    const client = createClient(mock.url);
+    const { waitFor } = watchPhases(client);
+
+    try {
+      const failed = waitFor(state => state.phase === 'failed');
+      await client.connect().catch(() => {});
+      assert.equal((await failed).error, 'Scripted error for init-stream');
+    } finally {
+      client.disconnect();
+      await mock.close();
+    }
+  });
+
+  it('reconnects and renegotiates after the signaling socket drops', { timeout: SCENARIO_TIMEOUT }, async () => {
+    const mock = await startMock({ dropAfter: 300 });
+    const client = createClient(mock.url);
+    const { phases, waitFor } = watchPhases(client);
+
+    try {
+      const recovered = waitFor(state => state.phase === 'ready' && phases.includes('reconnecting'));
+      await client.connect();
+      const state = await recovered;
+
+      assert.deepEqual(phases.slice(0, 4), ['signaling', 'negotiating', 'ready', 'reconnecting']);
+      assert.equal(state.reconnectAttempt, 0);
+    } finally {
+      client.disconnect();
+      await mock.close();
+    }
+  });
+});
\ No newline at end of file
@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseSignalingMessage, validateIceServer } from '@/lib/services/signalingProtocol';
+
+const OFFER = { type: 'offer', sdp: 'v=0\r\n' };
+
+describe('parseSignalingMessage', () => {
+  it('accepts a valid init-stream and reads the ICE restart flag', () => {
+    const result = parseSignalingMessage(JSON.stringify({
+      messageType: 'init-stream',
+      id: 'strm_1',
+      session_id: 'sess_1',
+      offer: OFFER,
+      ice_servers: [{ urls: 'stun:stun.example.com' }],
+      ice_restart: true,
+    }));
+    assert.ok(result.ok);
+    assert.deepEqual(result.message, {
+      messageType: 'init-stream',
+      id: 'strm_1',
+      session_id: 'sess_1',
+      offer: OFFER,
+      ice_servers: [{ urls: 'stun:stun.example.com' }],
+      ice_restart: true,
+    });
+  });
+
+  it('treats a missing ICE restart flag as unsupported', () => {
+    const result = parseSignalingMessage(JSON.stringify({
+      messageType: 'init-stream', id: 'strm_1', session_id: 'sess_1', offer: OFFER, ice_servers: [],
+    }));
+    assert.ok(result.ok && result.message.messageType === 'init-stream' && result.message.ice_restart === false);
+  });
+
+  it('rejects known messages with bad payloads', () => {
+    const result = parseSignalingMessage(JSON.stringify({ messageType: 'init-stream', id: '', session_id: 'sess_1' }));
+    assert.ok(!result.ok);
+    assert.equal(result.error.kind, 'invalid');
+    assert.equal(result.error.reason, 'id must be a non-empty string');
+  });
+
+  it('classifies malformed and unknown messages', () => {
+    const malformed = parseSignalingMessage('{not json');
+    const unknown = parseSignalingMessage(JSON.stringify({ messageType: 'mystery' }));
+    assert.ok(!malformed.ok && malformed.error.kind === 'malformed');
+    assert.ok(!unknown.ok && unknown.error.kind === 'unknown');
+  });
+
+  it('turns D-ID errors without a messageType into error messages', () => {
+    const result = parseSignalingMessage(JSON.stringify({ message: 'Internal server error', requestId: 'req_1' }));
+    assert.ok(result.ok);
+    assert.deepEqual(result.message, {
+      messageType: 'error',
+      message: 'Internal server error (Request: req_1)',
+      connectionId: null,
+      requestId: 'req_1',
+    });
+  });
+});
+
+describe('validateIceServer', () => {
+  it('accepts string or array urls with optional credentials', () => {
+    assert.equal(validateIceServer({ urls: ['turn:turn.example.com'], username: 'u', credential: 'p' }), null);
+  });
+
+  it('rejects entries that are not ICE servers', () => {
+    assert.equal(validateIceServer('stun:stun.example.com'), 'ice_servers entries must be objects');
+    assert.equal(validateIceServer({ urls: 42 }), 'ice_servers urls must be a string or an array of strings');
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SSML_CONFIG } from '@/lib/utils/constants';
+import { SsmlBuilder, sanitizeSsmlInput, stripSsml, validateSsml } from '@/lib/utils/ssml';
+
+describe('sanitizeSsmlInput', () => {
+  it('keeps supported tags and escapes everything else', () => {
+    assert.equal(
+      sanitizeSsmlInput('Hi <break time="500ms"/> a < b & <script>x</script>'),
+      'Hi <break time="500ms"/> a &lt; b &amp; &lt;script&gt;x&lt;/script&gt;'
+    );
+  });
+
+  it('leaves entities that are already escaped alone', () => {
+    assert.equal(sanitizeSsmlInput('Tom &amp; Jerry &#39;s'), 'Tom &amp; Jerry &#39;s');
+  });
+
+  it('escapes stray ampersands in attribute values', () => {
+    assert.equal(
+      sanitizeSsmlInput('<phoneme ph="a&b">x</phoneme>'),
+      '<phoneme ph="a&amp;b">x</phoneme>'
+    );
+  });
+});
+
+describe('validateSsml', () => {
+  it('accepts a well-formed script', () => {
+    assert.deepEqual(validateSsml('<prosody rate="80%">slow</prosody> <say-as interpret-as="date">1/2</say-as>'), []);
+  });
+
+  it('reports nesting problems', () => {
+    assert.deepEqual(validateSsml('<emphasis>a</prosody>'), ['</prosody> closes <emphasis>', '<emphasis> is never closed']);
+  });
+
+  it('reports out-of-range and unescaped attribute values', () => {
+    assert.deepEqual(validateSsml('<break time="60s"/>'), [`<break time="60s"> must be between 0ms and ${SSML_CONFIG.maxBreakMs}ms`]);
+    assert.deepEqual(validateSsml('<phoneme ph="a&b">x</phoneme>'), ["<phoneme ph> contains an unescaped '&'"]);
+  });
+});
+
+describe('SsmlBuilder', () => {
+  it('escapes text and attribute values', () => {
+    const script = new SsmlBuilder().text('A & B').pause(300).phoneme('tomato', 'tə"meɪtoʊ').build();
+    assert.equal(script, 'A &amp; B<break time="300ms" /><phoneme alphabet="ipa" ph="tə&quot;meɪtoʊ">tomato</phoneme>');
+    assert.equal(stripSsml(script), 'A & B tomato');
+  });
+
+  it('rejects pauses outside the allowed range', () => {
+    assert.throws(() => new SsmlBuilder().pause(-1));
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { VideoHealthMonitor } from '@/lib/services/videoHealthMonitor';
+import { VIDEO_FALLBACK_CONFIG } from '@/lib/utils/constants';
+import { StreamStats } from '@/types/did';
+
+const AUDIO = { bitrate: 32, packetsLost: 0, packetLoss: 0, jitter: 5 };
+
+function sample(timestamp: number, frameRate: number): StreamStats {
+  return {
+    timestamp,
+    video: { bitrate: 800, packetsLost: 0, packetLoss: 0, jitter: 5, frameRate, width: 512, height: 512, freezeCount: 0 },
+    audio: AUDIO,
+    roundTripTime: 40,
+  };
+}
+
+describe('VideoHealthMonitor', () => {
+  it('falls back to audio only after a sustained stall while speaking', () => {
+    const monitor = new VideoHealthMonitor();
+    assert.equal(monitor.update(sample(0, 0), true, false), null);
+    assert.equal(monitor.update(sample(VIDEO_FALLBACK_CONFIG.degradeAfter - 1, 0), true, false), null);
+
+    const event = monitor.update(sample(VIDEO_FALLBACK_CONFIG.degradeAfter, 0), true, false);
+    assert.equal(event?.mode, 'audio-only');
+    assert.equal(event?.reason, 'stall');
+    assert.equal(monitor.getMode(), 'audio-only');
+  });
+
+  it('ignores frozen video while the presenter is idle', () => {
+    const monitor = new VideoHealthMonitor();
+    monitor.update(sample(0, 0), false, false);
+    assert.equal(monitor.update(sample(VIDEO_FALLBACK_CONFIG.degradeAfter * 2, 0), false, false), null);
+    assert.equal(monitor.getMode(), 'video');
+  });
+
+  it('restores video once it has been healthy long enough', () => {
+    const monitor = new VideoHealthMonitor();
+    monitor.update(sample(0, 0), true, false);
+    monitor.update(sample(VIDEO_FALLBACK_CONFIG.degradeAfter, 0), true, false);
+
+    const start = VIDEO_FALLBACK_CONFIG.degradeAfter + 1000;
+    assert.equal(monitor.update(sample(start, 25), true, true), null);
+    const event = monitor.update(sample(start + VIDEO_FALLBACK_CONFIG.recoverAfter, 25), true, true);
+    assert.equal(event?.mode, 'video');
+    assert.equal(event?.reason, 'recovered');
+  });
+
+  it('reports the switch back to video when reset after a fallback', () => {
+    const monitor = new VideoHealthMonitor();
+    assert.equal(monitor.reset(), null);
+
+    monitor.update(sample(0, 0), true, false);
+    monitor.update(sample(VIDEO_FALLBACK_CONFIG.degradeAfter, 0), true, false);
+    assert.equal(monitor.reset()?.reason, 'reset');
+    assert.equal(monitor.getMode(), 'video');
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { toStreamProvider, validateVoiceSettings } from '@/lib/utils/voice';
+import { VoiceSettings } from '@/types/did';
+
+describe('validateVoiceSettings', () => {
+  it('accepts values inside the configured ranges', () => {
+    assert.deepEqual(validateVoiceSettings({ stability: 0, similarityBoost: 1, speed: 0.7, useSpeakerBoost: true }), []);
+  });
+
+  it('reports each out-of-range or non-numeric value', () => {
+    const settings = { stability: 1.5, speed: 2, style: Number.NaN, similarityBoost: '0.5' } as unknown as VoiceSettings;
+    assert.deepEqual(validateVoiceSettings(settings), [
+      'stability must be between 0 and 1',
+      'similarityBoost must be between 0 and 1',
+      'style must be between 0 and 1',
+      'speed must be between 0.7 and 1.2',
+    ]);
+  });
+
+  it('requires a boolean speaker boost', () => {
+    assert.deepEqual(validateVoiceSettings({ useSpeakerBoost: 'yes' } as unknown as VoiceSettings), ['useSpeakerBoost must be true or false']);
+  });
+});
+
+describe('toStreamProvider', () => {
+  it('only sends the fields the provider understands', () => {
+    const provider = toStreamProvider({ provider: 'microsoft', voiceId: 'es-ES-ElviraNeural', style: 'cheerful', modelId: 'ignored' });
+    assert.deepEqual(provider, { type: 'microsoft', voice_id: 'es-ES-ElviraNeural', voice_config: { style: 'cheerful' } });
+  });
+
+  it('layers per-message ElevenLabs settings over the voice settings', () => {
+    const provider = toStreamProvider(
+      { provider: 'elevenlabs', voiceId: 'abc', modelId: 'eleven_turbo_v2', settings: { stability: 0.3, speed: 1 } },
+      { speed: 1.1 }
+    );
+    assert.deepEqual(provider, {
+      type: 'elevenlabs',
+      voice_id: 'abc',
+      model_id: 'eleven_turbo_v2',
+      voice_config: { stability: 0.3, speed: 1.1 },
+    });
+  });
+});
@@ -1,10 +1,51 @@
+// 'proxy' sends requests through this app's API routes, which hold the vendor keys
+export type ClientMode = 'direct' | 'proxy';
+
+/**
+ * ICE settings applied on top of the ice_servers D-ID returns for each stream
+ */
+export interface IceConfig {
+  transportPolicy: RTCIceTransportPolicy; // 'relay' sends all media through TURN
+  servers: RTCIceServer[]; // e.g. our own TURN servers
+  serverMode: 'append' | 'replace'; // 'replace' ignores D-ID's ice_servers
+}
+
+/**
+ * Negotiating a D-ID stream before Connect is pressed; a held stream uses credits
+ */
+export interface PrewarmConfig {
+  mode: 'off' | 'select' | 'load'; // warm once a presenter is picked, or as soon as the page loads
+  idleTimeout: number; // ms an unclaimed stream is held before it is closed
+}
+
+/**
+ * Public settings readable in the browser. Vendor keys are only filled in
+ * for the clients that still call that vendor directly.
+ */
 export interface ApiConfig {
   didApiKey: string;
   didWebsocketUrl: string;
+  didSignalingMode: 'direct' | 'relay'; // 'relay' keeps the D-ID key on the server
+  didRelayUrl: string;
   didService?: 'talks' | 'clips'; // Made optional - now managed by PresenterContext
+  apiMode: ClientMode; // applies to OpenAI and Deepgram
   openaiApiKey: string;
   deepgramApiKey: string;
   elevenlabsApiKey: string;
+  ice: IceConfig;
+  didPrewarm: PrewarmConfig;
+}
+
+/**
+ * Keys only ever read by API routes
+ */
+export interface ServerSecrets {
+  didApiKey: string;
+  didWebsocketUrl: string;
+  elevenlabsApiKey: string;
+  openaiApiKey: string;
+  deepgramApiKey: string;
+  browserSessionSecret: string;
 }
 
 export interface ApiError {
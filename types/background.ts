@@ -0,0 +1,19 @@
+// How the presenter's own background is removed
+export type KeyingMode = 'off' | 'chroma' | 'luma';
+
+export type BackgroundSource =
+  | { type: 'color'; color: string } // CSS hex colour
+  | { type: 'image'; url: string }
+  | { type: 'video'; url: string }; // looped and muted
+
+export interface VirtualBackgroundSettings {
+  mode: KeyingMode;
+  keyColor: string; // hex colour keyed out in chroma mode
+  similarity: number; // 0-1, chroma distance treated as background
+  smoothness: number; // 0-1, width of the soft edge around the threshold
+  spill: number; // 0-1, desaturation of key-colour fringes
+  lumaThreshold: number; // 0-1, brightness treated as background in luma mode
+  lumaKey: 'dark' | 'light'; // which side of the threshold is background
+  feather: number; // px, blur radius applied to the matte edge
+  background: BackgroundSource;
+}
\ No newline at end of file
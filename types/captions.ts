@@ -0,0 +1,16 @@
+export interface CaptionCue {
+  id: string;
+  text: string; // plain text as spoken (SSML stripped)
+  start: number; // epoch ms, stream/started
+  end: number; // epoch ms, stream/done or the interruption
+  interrupted: boolean;
+}
+
+export type CaptionFormat = 'vtt' | 'srt';
+
+export interface CaptionSettings {
+  enabled: boolean;
+  size: 'small' | 'medium' | 'large';
+  position: 'top' | 'bottom';
+  contrast: 'standard' | 'high';
+}
\ No newline at end of file
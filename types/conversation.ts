@@ -2,12 +2,14 @@ export interface ChatMessage {
   role: 'system' | 'user' | 'assistant';
   content: string;
   timestamp?: number;
+  truncatedAt?: number; // character offset where the presenter was interrupted
 }
 
 export interface OpenAIRequest {
   model: string;
   messages: ChatMessage[];
   temperature: number;
+  stream?: boolean;
 }
 
 export interface OpenAIResponse {
@@ -19,6 +21,16 @@ export interface OpenAIResponse {
   }[];
 }
 
+export interface OpenAIStreamChunk {
+  choices: {
+    delta: {
+      role?: 'assistant';
+      content?: string;
+    };
+    finish_reason: string | null;
+  }[];
+}
+
 export interface DeepgramResponse {
   results: {
     channels: {
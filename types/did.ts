@@ -40,19 +40,106 @@ export interface InitStreamMessage extends StreamMessage {
   };
 }
 
+export type TtsProvider = 'elevenlabs' | 'microsoft' | 'amazon' | 'google';
+
+/**
+ * ElevenLabs tuning parameters; ranges live in VOICE_SETTINGS_CONFIG
+ */
+export interface VoiceSettings {
+  stability?: number; // lower is more expressive, higher more consistent
+  similarityBoost?: number; // how closely to match the original voice
+  style?: number; // style exaggeration
+  speed?: number; // 1 is normal speed
+  useSpeakerBoost?: boolean;
+}
+
+/**
+ * Voice a presenter speaks with; mapped onto the stream-text provider block
+ */
+export interface VoiceConfig {
+  provider: TtsProvider;
+  voiceId: string;
+  modelId?: string; // ElevenLabs only
+  language?: string; // e.g. 'es-ES' for multilingual voices
+  style?: string; // Microsoft speaking style, e.g. 'cheerful'
+  settings?: VoiceSettings; // ElevenLabs only; can be overridden per message
+}
+
+export interface VoicePreset {
+  id: string;
+  label: string;
+  description: string;
+  voice: VoiceConfig;
+}
+
+// Voice as returned by ElevenLabs GET /v1/voices
+export interface ElevenLabsVoice {
+  voice_id: string;
+  name: string;
+  category?: string;
+  description?: string | null;
+  labels?: Record<string, string>;
+  preview_url?: string | null;
+  verified_languages?: {
+    language: string;
+    accent?: string;
+    locale?: string;
+    preview_url?: string | null;
+  }[];
+}
+
+export type VoiceGender = 'female' | 'male' | 'neutral' | 'unknown';
+
+/**
+ * ElevenLabs voice with labels normalised for filtering
+ */
+export interface CatalogVoice {
+  voiceId: string;
+  name: string;
+  category: string; // premade, cloned, generated, professional
+  gender: VoiceGender;
+  accent: string | null; // e.g. 'British', 'Latin American'
+  age: string | null;
+  languages: string[]; // ISO 639-1 codes, e.g. ['en', 'es']
+  description: string | null;
+  previewUrl: string | null;
+}
+
+export interface VoicesApiResponse {
+  voices: CatalogVoice[];
+}
+
+export interface StreamTextProvider {
+  type: TtsProvider;
+  voice_id: string;
+  model_id?: string;
+  voice_config?: {
+    style?: string | number; // Microsoft speaking style or ElevenLabs style exaggeration
+    language?: string;
+    stability?: number;
+    similarity_boost?: number;
+    speed?: number;
+    use_speaker_boost?: boolean;
+  };
+}
+
+export interface StreamTextScript {
+  type: 'text';
+  input: string;
+  provider: StreamTextProvider;
+  ssml: boolean;
+}
+
+// Pre-recorded narration the presenter lip-syncs to; D-ID must be able to fetch audio_url
+export interface StreamAudioScript {
+  type: 'audio';
+  audio_url: string;
+}
+
 export interface StreamTextMessage extends StreamMessage {
   type: 'stream-text';
   payload: {
-    script: {
-      type: 'text';
-      input: string;
-      provider: {
-        type: 'elevenlabs' | 'microsoft';
-        voice_id: string;
-        model_id?: string;
-      };
-      ssml: boolean;
-    };
+    script: StreamTextScript | StreamAudioScript;
     config: {
       stitch: boolean;
     };
@@ -66,25 +153,192 @@ export interface StreamTextMessage extends StreamMessage {
   };
 }
 
+// Raw signaling message as sent by D-ID (and the mock server); inbound messages
+// are narrowed to SignalingResponse by parseSignalingMessage before use
 export interface WebSocketResponse {
   messageType: 'init-stream' | 'sdp' | 'delete-stream' | 'error' | 'ice' | 'stream-text';
   id?: string;
   session_id?: string;
   offer?: RTCSessionDescriptionInit;
+  answer?: RTCSessionDescriptionInit;
   ice_servers?: RTCIceServer[];
+  ice_restart?: boolean;
   status?: string;
   error?: string;
   payload?: Record<string, unknown>;
 }
 
+export interface InitStreamResponse {
+  messageType: 'init-stream';
+  id: string;
+  session_id: string;
+  offer: RTCSessionDescriptionInit;
+  ice_servers: RTCIceServer[];
+  ice_restart: boolean; // server answers client ICE restart offers; D-ID doesn't, only the local mock sets it
+}
+
+export interface SdpResponse {
+  messageType: 'sdp';
+  status: string | null;
+  answer: RTCSessionDescriptionInit | null; // reply to an ICE restart offer, if the server supports it
+}
+
+export interface IceResponse {
+  messageType: 'ice';
+  candidate: RTCIceCandidateInit | null; // null for an end-of-candidates message
+}
+
+export interface StreamTextResponse {
+  messageType: 'stream-text';
+  status: string | null;
+}
+
+export interface DeleteStreamResponse {
+  messageType: 'delete-stream';
+  status: string | null;
+}
+
+export interface ErrorResponse {
+  messageType: 'error'; // also used for D-ID failures that arrive without a messageType
+  message: string;
+  connectionId: string | null;
+  requestId: string | null;
+}
+
+export type SignalingResponse =
+  | InitStreamResponse
+  | SdpResponse
+  | IceResponse
+  | StreamTextResponse
+  | DeleteStreamResponse
+  | ErrorResponse;
+
+export interface SignalingProtocolError {
+  kind: 'malformed' | 'invalid' | 'unknown'; // not a JSON object / known type with a bad payload / unrecognised type
+  messageType: string | null;
+  reason: string;
+  raw: string; // truncated to SIGNALING_PROTOCOL_CONFIG.rawPreviewLength
+  timestamp: number;
+}
+
+export type ParsedSignalingMessage =
+  | { ok: true; message: SignalingResponse }
+  | { ok: false; error: SignalingProtocolError };
+
+export interface ProtocolDiagnostics {
+  unknownMessages: number;
+  invalidMessages: number; // malformed JSON plus known types with bad payloads
+  recentErrors: SignalingProtocolError[]; // newest last
+}
+
+// JSON D-ID appends to data channel events, e.g. 'stream/done:{"videoId":...}'
+export interface StreamEventPayload {
+  videoId: string | null;
+  index: number | null; // the index we sent with stream-text, when echoed back
+  duration: number | null; // as reported by D-ID
+  message: string | null; // error description on stream/error
+  raw: Record<string, unknown>; // the whole payload, including fields not typed above
+}
+
+export interface MessageTimelineEntry {
+  id: string;
+  messageIndex: number; // index sent with stream-text
+  utteranceId: string | null; // queued utterance the message belongs to, if any
+  kind: 'text' | 'audio';
+  text: string | null; // plain text spoken (SSML stripped), null for audio
+  videoId: string | null; // D-ID's id for the utterance, known once it starts
+  status: 'sent' | 'speaking' | 'done' | 'error' | 'interrupted';
+  sentAt: number;
+  startedAt: number | null;
+  doneAt: number | null;
+  duration: number | null; // ms from started to done
+  reportedDuration: number | null; // duration D-ID reported on stream/done, if any
+}
+
+// DidClient event payloads
+export interface UtteranceEvent {
+  status: 'started' | 'done' | 'error';
+  messageIndex: number | null; // index of the stream-text/audio message, when known
+  utteranceId: string | null;
+  videoId: string | null;
+  timestamp: number;
+  payload: StreamEventPayload | null;
+}
+
+export type IceEvent =
+  | { kind: 'candidate'; source: 'local' | 'remote'; candidate: RTCIceCandidateInit }
+  | { kind: 'state'; state: RTCIceConnectionState };
+
+export interface LatencyEvent {
+  messageIndex: number;
+  utteranceId: string | null;
+  sentAt: number;
+  startedAt: number;
+  latency: number; // ms from sending the message to the presenter starting to speak it
+}
+
+export type VideoMode = 'video' | 'audio-only';
+
+export interface VideoModeEvent {
+  mode: VideoMode;
+  reason: 'stall' | 'poor-network' | 'recovered' | 'reset';
+  message: string; // user-facing explanation
+  timestamp: number;
+}
+
+export interface ProtocolErrorEvent {
+  error: SignalingProtocolError;
+  diagnostics: ProtocolDiagnostics;
+}
+
+export type ConnectionPhase =
+  | 'idle'
+  | 'signaling' // opening the signaling channel and requesting a stream
+  | 'negotiating' // exchanging SDP/ICE for the peer connection
+  | 'ready'
+  | 'speaking'
+  | 'closing'
+  | 'closed'
+  | 'failed'
+  | 'reconnecting'; // waiting out the backoff before the next attempt
+
+export interface ConnectionTransition {
+  from: ConnectionPhase;
+  to: ConnectionPhase;
+  reason: string;
+  timestamp: number;
+}
+
 export interface ConnectionState {
-  isConnecting: boolean;
-  isConnected: boolean;
+  phase: ConnectionPhase;
+  reconnectAttempt: number; // > 0 while recovering a dropped session
   streamId: string | null;
   sessionId: string | null;
   error: string | null;
 }
 
+// WebRTC quality metrics, sampled from getStats()
+export interface InboundMediaStats {
+  bitrate: number; // kbit/s since the previous sample
+  packetsLost: number; // cumulative
+  packetLoss: number; // % of packets lost since the previous sample
+  jitter: number; // ms
+}
+
+export interface VideoQualityStats extends InboundMediaStats {
+  frameRate: number;
+  width: number;
+  height: number;
+  freezeCount: number;
+}
+
+export interface StreamStats {
+  timestamp: number;
+  video: VideoQualityStats | null;
+  audio: InboundMediaStats | null;
+  roundTripTime: number | null; // ms, shared by audio and video over the bundled transport
+}
+
 // Animation API Types
 export interface AnimationScript {
   type: 'text' | 'audio';
@@ -0,0 +1,39 @@
+// Points in a conversation turn, in pipeline order
+export type LatencyMarkName =
+  | 'recording-stopped' // push-to-talk released
+  | 'transcript-received' // Deepgram returned the transcript
+  | 'message-sent' // text message submitted
+  | 'request-sent' // OpenAI request issued
+  | 'first-token'
+  | 'completion' // OpenAI stream finished
+  | 'stream-text-sent' // first stream-text of the reply sent to D-ID
+  | 'stream-started' // presenter started speaking
+  | 'stream-done'; // presenter finished the last sentence
+
+export interface LatencyTurn {
+  id: string;
+  source: 'text' | 'voice';
+  startedAt: number;
+  marks: Partial<Record<LatencyMarkName, number>>; // epoch ms
+  utteranceId: string | null; // presenter utterance speaking the reply
+}
+
+export interface LatencyStage {
+  id: string;
+  label: string;
+  from: LatencyMarkName | 'start'; // 'start' is the turn's startedAt
+  to: LatencyMarkName;
+}
+
+export interface LatencyStageStats {
+  stage: LatencyStage;
+  count: number;
+  p50: number | null; // ms
+  p95: number | null;
+}
+
+export interface LatencyExport {
+  exportedAt: string;
+  stages: LatencyStageStats[];
+  turns: LatencyTurn[];
+}
\ No newline at end of file